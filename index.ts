@@ -4,10 +4,12 @@ import { Logger } from "./lib/logger"
 import { createSessionState } from "./lib/state"
 import { createContextTool } from "./lib/strategies"
 import {
+    createChatMessageHandler,
     createChatMessageTransformHandler,
     createCommandExecuteHandler,
     createSystemPromptHandler,
     createToolExecuteAfterHandler,
+    getTurnConfig,
 } from "./lib/hooks"
 
 const plugin: Plugin = (async (ctx) => {
@@ -25,39 +27,38 @@ const plugin: Plugin = (async (ctx) => {
         strategies: config.strategies,
     })
 
+    // Hooks read the config through this getter, so edits to any config file
+    // take effect on the next turn without restarting OpenCode
+    const liveConfig = configService.getter()
+    configService.watch(({ changes }) => {
+        logger.info("Config reloaded", { changes: changes.map((c) => c.path) })
+    })
+
     return {
-        "experimental.chat.system.transform": createSystemPromptHandler(state, logger, config),
+        "experimental.chat.system.transform": createSystemPromptHandler(state, logger, liveConfig),
 
         "experimental.chat.messages.transform": createChatMessageTransformHandler(
             ctx.client,
             state,
             logger,
-            config,
+            liveConfig,
+        ),
+        "chat.message": createChatMessageHandler(ctx.client, state, logger, () =>
+            configService.takeUnreportedDiagnostics(),
         ),
-        "chat.message": async (input: {
-            sessionID: string
-            agent?: string
-            model?: { providerID: string; modelID: string }
-            messageID?: string
-            variant?: string
-        }) => {
-            // Cache variant from real user messages (not synthetic)
-            // This avoids scanning all messages to find variant
-            state.variant = input.variant
-            logger.debug("Cached variant from chat.message hook", { variant: input.variant })
-        },
         "command.execute.before": createCommandExecuteHandler(
             ctx.client,
             state,
             logger,
-            config,
+            liveConfig,
             ctx.directory,
+            configService,
         ),
         "tool.execute.after": createToolExecuteAfterHandler(
             ctx.client,
             state,
             logger,
-            config,
+            liveConfig,
             ctx.directory,
         ),
         tool: {
@@ -65,7 +66,10 @@ const plugin: Plugin = (async (ctx) => {
                 client: ctx.client,
                 state,
                 logger,
-                config,
+                // Resolved per call so agent and model overrides apply to manual pruning
+                get config() {
+                    return getTurnConfig(liveConfig, state)
+                },
                 workingDirectory: ctx.directory,
             }),
         },
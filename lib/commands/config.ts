@@ -0,0 +1,123 @@
+/**
+ * ACP Config command handler.
+ * Shows the resolved configuration, where each value came from, validation
+ * warnings and the active protection lists.
+ */
+
+import type { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import type { ConfigService, PluginConfig } from "../config"
+import { diffConfig, formatConfigDiagnostics, getEffectiveConfig } from "../config"
+import { matchOverrideKeys } from "../config/overrides"
+import { collectConfigPaths, getConfigValue } from "../config/sources"
+import { sendIgnoredMessage } from "../ui/notification"
+import { getCurrentParams } from "../strategies/utils"
+
+export interface ConfigCommandContext {
+    client: any
+    state: SessionState
+    logger: Logger
+    sessionId: string
+    messages: WithParts[]
+    configService?: ConfigService
+}
+
+const MAX_VALUE_LENGTH = 60
+
+function formatValue(value: unknown): string {
+    const text = JSON.stringify(value) ?? "undefined"
+    return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text
+}
+
+function formatList(items: string[]): string {
+    return items.length > 0 ? items.join(", ") : "(none)"
+}
+
+function formatConfigMessage(
+    configService: ConfigService,
+    params: ReturnType<typeof getCurrentParams>,
+): string {
+    const config = configService.getOrDefault()
+    const lines: string[] = []
+
+    lines.push("ACP Configuration")
+    lines.push("─".repeat(60))
+
+    // Config layers
+    lines.push("Config files:")
+    const layers = configService.getLayers()
+    if (layers.length === 0) {
+        lines.push("  (none, using defaults)")
+    }
+    for (const layer of layers) {
+        lines.push(`  ${layer.source.padEnd(10)}${layer.path}`)
+    }
+    lines.push("")
+
+    // Resolved values with provenance
+    const paths = collectConfigPaths(config).filter(
+        (path) => path !== "overrides" && !path.startsWith("overrides."),
+    )
+    const width = Math.max(...paths.map((path) => path.length)) + 2
+    lines.push("Resolved values:")
+    for (const path of paths) {
+        const value = formatValue(getConfigValue(config, path))
+        lines.push(`  ${path.padEnd(width)}${value}  [${configService.getSource(path)}]`)
+    }
+    lines.push("")
+
+    // Overrides for the current agent/model
+    const overrideKeys = Object.keys(config.overrides ?? {})
+    if (overrideKeys.length > 0) {
+        const target = {
+            agent: params.agent,
+            providerId: params.providerId,
+            modelId: params.modelId,
+        }
+        const active = matchOverrideKeys(config.overrides, target)
+        lines.push(`Overrides: ${formatList(overrideKeys)}`)
+        lines.push(`  Active now: ${formatList(active)}`)
+        for (const change of diffConfig(config, getEffectiveConfig(config, target))) {
+            lines.push(`  ${change.path.padEnd(width)}${formatValue(change.after)}  [override]`)
+        }
+        lines.push("")
+    }
+
+    appendProtection(lines, config)
+
+    const diagnostics = configService.getDiagnostics()
+    if (diagnostics.length > 0) {
+        lines.push("")
+        lines.push(formatConfigDiagnostics(diagnostics))
+    }
+
+    return lines.join("\n")
+}
+
+function appendProtection(lines: string[], config: PluginConfig): void {
+    lines.push("Protected tools:")
+    lines.push(`  commands:     ${formatList(config.commands.protectedTools)}`)
+    lines.push(`  tools:        ${formatList(config.tools.settings.protectedTools)}`)
+    lines.push(`  purgeErrors:  ${formatList(config.strategies.purgeErrors.protectedTools)}`)
+    lines.push("")
+    lines.push("Protected file patterns:")
+    if (config.protectedFilePatterns.length === 0) {
+        lines.push("  (none)")
+    }
+    for (const pattern of config.protectedFilePatterns) {
+        lines.push(`  ${pattern}`)
+    }
+}
+
+export async function handleConfigCommand(ctx: ConfigCommandContext): Promise<void> {
+    const { client, state, logger, sessionId, messages, configService } = ctx
+    const params = getCurrentParams(state, messages, logger)
+
+    const message = configService
+        ? formatConfigMessage(configService, params)
+        : "ACP configuration is not available"
+
+    await sendIgnoredMessage(client, sessionId, message, params, logger)
+
+    logger.info("Config command executed")
+}
@@ -0,0 +1,197 @@
+/**
+ * ACP List command handler.
+ * Shows every live hash (tool outputs, assistant messages, thinking blocks)
+ * ranked by estimated size, so large items can be pruned by hash. Tool outputs
+ * also show their relevance to the current goal.
+ */
+
+import type { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import type { PluginConfig } from "../config"
+import { getPruneCache, isCallPinned } from "../state/utils"
+import { isMessageCompacted, isSyntheticMessage } from "../shared-utils"
+import { extractParameterKey } from "../messages/utils"
+import { findFileProtection } from "../protected-file-patterns"
+import { sendIgnoredMessage } from "../ui/notification"
+import { formatTokenCount, shortenPath, truncate } from "../ui/utils"
+import { countTokens, estimateTokensForItem, getCurrentParams } from "../strategies/utils"
+import { scoreToolRelevance } from "../state/relevance-index"
+
+export interface ListCommandContext {
+    client: any
+    state: SessionState
+    logger: Logger
+    sessionId: string
+    messages: WithParts[]
+    config: PluginConfig
+    workingDirectory: string
+}
+
+export interface InventoryItem {
+    hash: string
+    type: "tool" | "message" | "reasoning"
+    /** Tool name, or "message" / "thinking" */
+    name: string
+    target: string
+    turnAge: number
+    estimatedTokens: number
+    /** BM25 score of a tool output against the latest user message and open todos */
+    relevance?: number
+    /** Why the item cannot be pruned, if it is protected */
+    protection?: "pinned" | "tool" | "file"
+}
+
+const MAX_TARGET_LENGTH = 40
+
+function firstLine(text: string): string {
+    return (text.split("\n").find((line) => line.trim() !== "") ?? "").trim()
+}
+
+/**
+ * Turn number and text of each message/reasoning part, keyed by part ID.
+ * Turns are counted the same way as countTurns (step-start markers).
+ */
+function collectTextParts(
+    state: SessionState,
+    messages: WithParts[],
+): Map<string, { turn: number; text: string }> {
+    const result = new Map<string, { turn: number; text: string }>()
+    let turn = 0
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg) || isSyntheticMessage(msg)) continue
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        parts.forEach((part, partIndex) => {
+            if (part.type === "step-start") {
+                turn++
+            } else if ((part.type === "text" || part.type === "reasoning") && part.text) {
+                result.set(`${msg.info.id}:${partIndex}`, { turn, text: part.text })
+            }
+        })
+    }
+
+    return result
+}
+
+/**
+ * Build the inventory of unpruned, in-context items, largest first.
+ */
+export function buildInventory(
+    state: SessionState,
+    messages: WithParts[],
+    config: PluginConfig,
+    workingDirectory?: string,
+): InventoryItem[] {
+    const cache = getPruneCache(state)
+    const protectedTools = new Set([
+        ...config.commands.protectedTools,
+        ...config.tools.settings.protectedTools,
+    ])
+    const relevance = scoreToolRelevance(state, messages)
+    const items: InventoryItem[] = []
+
+    for (const [hash, callId] of state.hashRegistry.calls) {
+        if (cache.prunedToolIds.has(callId)) continue
+        const metadata = state.toolParameters.get(callId)
+        const estimate = estimateTokensForItem(state, messages, callId)
+        if (!metadata || !estimate) continue
+
+        const target = extractParameterKey(metadata.tool, metadata.parameters)
+        items.push({
+            hash,
+            type: "tool",
+            name: metadata.tool,
+            target: shortenPath(target, workingDirectory),
+            turnAge: Math.max(0, state.currentTurn - metadata.turn),
+            estimatedTokens: estimate.estimatedTokens,
+            relevance: relevance.get(callId),
+            protection: isCallPinned(state, callId)
+                ? "pinned"
+                : protectedTools.has(metadata.tool)
+                  ? "tool"
+                  : findFileProtection(metadata.parameters, config.protectedFilePatterns)
+                    ? "file"
+                    : undefined,
+        })
+    }
+
+    const textParts = collectTextParts(state, messages)
+    const registries = [
+        { type: "message", name: "message", hashes: state.hashRegistry.messages },
+        { type: "reasoning", name: "thinking", hashes: state.hashRegistry.reasoning },
+    ] as const
+
+    for (const { type, name, hashes } of registries) {
+        const pruned =
+            type === "message" ? cache.prunedMessagePartIds : cache.prunedReasoningPartIds
+        for (const [hash, partId] of hashes) {
+            if (pruned.has(partId)) continue
+            const part = textParts.get(partId)
+            if (!part) continue
+
+            items.push({
+                hash,
+                type,
+                name,
+                target: firstLine(part.text),
+                turnAge: Math.max(0, state.currentTurn - part.turn),
+                estimatedTokens: countTokens(part.text),
+            })
+        }
+    }
+
+    return items.sort((a, b) => b.estimatedTokens - a.estimatedTokens)
+}
+
+function formatListMessage(items: InventoryItem[]): string {
+    const lines: string[] = []
+    const total = items.reduce((sum, item) => sum + item.estimatedTokens, 0)
+
+    lines.push(`ACP Inventory (${items.length} items, ~${formatTokenCount(total)} tokens)`)
+    lines.push("─".repeat(60))
+
+    if (items.length === 0) {
+        lines.push("  Nothing to prune.")
+        return lines.join("\n")
+    }
+
+    // Relevance is only known when there is a user message or todo to score against
+    const showScores = items.some((item) => item.relevance !== undefined)
+
+    lines.push(
+        `  ${"Hash".padEnd(10)}${"Item".padEnd(12)}${"Tokens".padStart(7)}  Age  ` +
+            `${showScores ? "Score  " : ""}Target`,
+    )
+    for (const item of items) {
+        const tokens = `~${formatTokenCount(item.estimatedTokens)}`.padStart(7)
+        const age = String(item.turnAge).padStart(3)
+        const score = showScores ? `${(item.relevance?.toFixed(1) ?? "-").padStart(5)}  ` : ""
+        const protection =
+            item.protection === "pinned"
+                ? "  [pinned]"
+                : item.protection
+                  ? `  [protected ${item.protection}]`
+                  : ""
+        lines.push(
+            `  ${item.hash.padEnd(10)}${item.name.padEnd(12)}${tokens}  ${age}  ${score}` +
+                `${truncate(item.target, MAX_TARGET_LENGTH)}${protection}`,
+        )
+    }
+    lines.push("")
+    if (showScores) {
+        lines.push("Score: BM25 relevance to the latest user message and open todos.")
+    }
+    lines.push("Prune with context_prune (discard) or /acp sweep.")
+
+    return lines.join("\n")
+}
+
+export async function handleListCommand(ctx: ListCommandContext): Promise<void> {
+    const { client, state, logger, sessionId, messages, config, workingDirectory } = ctx
+    const params = getCurrentParams(state, messages, logger)
+
+    const items = buildInventory(state, messages, config, workingDirectory)
+    await sendIgnoredMessage(client, sessionId, formatListMessage(items), params, logger)
+
+    logger.info("List command executed", { items: items.length })
+}
@@ -0,0 +1,89 @@
+/**
+ * ACP Migrate command handler.
+ * Rewrites config files that still use pre-3.0 settings, then reloads.
+ */
+
+import type { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import type { ConfigService } from "../config"
+import { formatLegacyChange, writeMigratedConfigFile, type LegacyChange } from "../config/migrate"
+import { sendIgnoredMessage } from "../ui/notification"
+import { getCurrentParams } from "../strategies/utils"
+
+export interface MigrateCommandContext {
+    client: any
+    state: SessionState
+    logger: Logger
+    sessionId: string
+    messages: WithParts[]
+    configService?: ConfigService
+}
+
+function formatMigrateMessage(migrated: Array<{ path: string; changes: LegacyChange[] }>): string {
+    const lines: string[] = []
+
+    lines.push("ACP config migration")
+    lines.push("─".repeat(60))
+
+    if (migrated.length === 0) {
+        lines.push("  No legacy settings found.")
+        return lines.join("\n")
+    }
+
+    for (const { path, changes } of migrated) {
+        lines.push(`${path}:`)
+        for (const change of changes) {
+            lines.push(`  ${formatLegacyChange(change)}`)
+        }
+        lines.push("")
+    }
+    lines.push("Config reloaded.")
+
+    return lines.join("\n")
+}
+
+export async function handleMigrateCommand(ctx: MigrateCommandContext): Promise<void> {
+    const { client, state, logger, sessionId, messages, configService } = ctx
+    const params = getCurrentParams(state, messages, logger)
+
+    if (!configService) {
+        await sendIgnoredMessage(
+            client,
+            sessionId,
+            "ACP config migration is not available",
+            params,
+            logger,
+        )
+        return
+    }
+
+    const filePaths = new Set(
+        configService
+            .getLayers()
+            .filter((layer) => layer.source !== "env")
+            .map((layer) => layer.path),
+    )
+
+    const migrated: Array<{ path: string; changes: LegacyChange[] }> = []
+    for (const path of filePaths) {
+        try {
+            const changes = writeMigratedConfigFile(path)
+            if (changes.length > 0) {
+                migrated.push({ path, changes })
+            }
+        } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : String(error)
+            logger.error("Failed to migrate config file", { path, error: errorMessage })
+        }
+    }
+
+    if (migrated.length > 0) {
+        configService.reload()
+    }
+
+    await sendIgnoredMessage(client, sessionId, formatMigrateMessage(migrated), params, logger)
+
+    logger.info("Migrate command executed", {
+        files: migrated.map((m) => m.path),
+    })
+}
@@ -0,0 +1,61 @@
+/**
+ * ACP Pin command handler.
+ * Protects tool calls from all pruning: /acp pin <hash> [hash...]
+ * and lifts the protection again: /acp unpin <hash> [hash...]
+ */
+
+import type { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { saveSessionState } from "../state/persistence"
+import { formatPinResult, setPinned } from "../strategies/pin"
+import { sendIgnoredMessage } from "../ui/notification"
+import { getCurrentParams } from "../strategies/utils"
+
+export interface PinCommandContext {
+    client: any
+    state: SessionState
+    logger: Logger
+    sessionId: string
+    messages: WithParts[]
+    args: string[]
+    pinned: boolean
+}
+
+export async function handlePinCommand(ctx: PinCommandContext): Promise<void> {
+    const { client, state, logger, sessionId, messages, args, pinned } = ctx
+    const params = getCurrentParams(state, messages, logger)
+    const subcommand = pinned ? "pin" : "unpin"
+
+    const hashes = args.map((arg) => arg.toLowerCase())
+    if (hashes.length === 0) {
+        await sendIgnoredMessage(
+            client,
+            sessionId,
+            `Usage: /acp ${subcommand} <hash> [hash...]\nSee /acp list for hashes.`,
+            params,
+            logger,
+        )
+        return
+    }
+
+    const result = setPinned(state, hashes, pinned)
+    await sendIgnoredMessage(
+        client,
+        sessionId,
+        `ACP ${subcommand}\n${"─".repeat(60)}\n${formatPinResult(result, pinned)}`,
+        params,
+        logger,
+    )
+
+    if (result.changed.length > 0) {
+        saveSessionState(state, logger).catch((err: Error) =>
+            logger.error("Failed to persist state", { error: err.message }),
+        )
+    }
+
+    logger.info("Pin command executed", {
+        pinned,
+        changed: result.changed,
+        unknown: result.unknown,
+    })
+}
@@ -0,0 +1,83 @@
+/**
+ * ACP Reload command handler.
+ * Re-reads all config files and reports which values changed.
+ */
+
+import type { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import type { ConfigDiagnostic, ConfigService, ConfigReloadResult, ConfigLayer } from "../config"
+import { formatConfigChange, formatConfigDiagnostics } from "../config"
+import { sendIgnoredMessage } from "../ui/notification"
+import { getCurrentParams } from "../strategies/utils"
+
+export interface ReloadCommandContext {
+    client: any
+    state: SessionState
+    logger: Logger
+    sessionId: string
+    messages: WithParts[]
+    configService?: ConfigService
+}
+
+function formatReloadMessage(
+    result: ConfigReloadResult,
+    layers: ConfigLayer[],
+    diagnostics: ConfigDiagnostic[],
+): string {
+    const lines: string[] = []
+
+    lines.push("ACP config reloaded")
+    lines.push("─".repeat(60))
+
+    if (layers.length === 0) {
+        lines.push("  No config files found, using defaults")
+    } else {
+        for (const layer of layers) {
+            lines.push(`  ${layer.source.padEnd(10)}${layer.path}`)
+        }
+    }
+    lines.push("")
+
+    if (result.changes.length === 0) {
+        lines.push("No changes.")
+    } else {
+        lines.push(`Changes (${result.changes.length}):`)
+        for (const change of result.changes) {
+            lines.push(`  ${formatConfigChange(change)}`)
+        }
+    }
+
+    if (diagnostics.length > 0) {
+        lines.push("")
+        lines.push(formatConfigDiagnostics(diagnostics))
+    }
+
+    return lines.join("\n")
+}
+
+export async function handleReloadCommand(ctx: ReloadCommandContext): Promise<void> {
+    const { client, state, logger, sessionId, messages, configService } = ctx
+    const params = getCurrentParams(state, messages, logger)
+
+    if (!configService) {
+        await sendIgnoredMessage(
+            client,
+            sessionId,
+            "ACP config reload is not available",
+            params,
+            logger,
+        )
+        return
+    }
+
+    const result = configService.reloadWithChanges()
+    const diagnostics = configService.takeUnreportedDiagnostics()
+    const message = formatReloadMessage(result, configService.getLayers(), diagnostics)
+
+    await sendIgnoredMessage(client, sessionId, message, params, logger)
+
+    logger.info("Reload command executed", {
+        changes: result.changes.map((c) => c.path),
+        warnings: diagnostics.length,
+    })
+}
@@ -0,0 +1,58 @@
+/**
+ * ACP Restore command handler.
+ * Un-prunes items by hash: /acp restore <hash> [hash...]
+ */
+
+import type { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { saveSessionState } from "../state/persistence"
+import { formatRestoreResult, restorePrunedItems } from "../strategies/restore"
+import { sendIgnoredMessage } from "../ui/notification"
+import { getCurrentParams } from "../strategies/utils"
+
+export interface RestoreCommandContext {
+    client: any
+    state: SessionState
+    logger: Logger
+    sessionId: string
+    messages: WithParts[]
+    args: string[]
+}
+
+export async function handleRestoreCommand(ctx: RestoreCommandContext): Promise<void> {
+    const { client, state, logger, sessionId, messages, args } = ctx
+    const params = getCurrentParams(state, messages, logger)
+
+    const hashes = args.map((arg) => arg.toLowerCase())
+    if (hashes.length === 0) {
+        await sendIgnoredMessage(
+            client,
+            sessionId,
+            "Usage: /acp restore <hash> [hash...]\nSee /acp list for hashes.",
+            params,
+            logger,
+        )
+        return
+    }
+
+    const result = restorePrunedItems(state, hashes)
+    await sendIgnoredMessage(
+        client,
+        sessionId,
+        `ACP restore\n${"─".repeat(60)}\n${formatRestoreResult(result)}`,
+        params,
+        logger,
+    )
+
+    if (result.restored.length > 0) {
+        saveSessionState(state, logger).catch((err: Error) =>
+            logger.error("Failed to persist state", { error: err.message }),
+        )
+    }
+
+    logger.info("Restore command executed", {
+        restored: result.restored,
+        notPruned: result.notPruned,
+        unknown: result.unknown,
+    })
+}
@@ -68,9 +68,33 @@ function formatStatsMessage(
             manualDiscard.tool.tokens,
     }
 
+    const supersedeRules = Object.entries(strategyStats.supersedeRules)
+    const supersedeRulesTotal = supersedeRules.reduce(
+        (total, [, data]) => ({
+            count: total.count + data.count,
+            tokens: total.tokens + data.tokens,
+        }),
+        { count: 0, tokens: 0 },
+    )
+
+    const decay = strategyStats.decay
+    const decayTotal = {
+        count: decay.excerpt.count + decay.digest.count + decay.remove.count,
+        tokens: decay.excerpt.tokens + decay.digest.tokens + decay.remove.tokens,
+    }
+
     const strategies = [
         { name: "Auto-Supersede", data: autoSupersedeTotal, breakdown: "autoSupersede" },
         { name: "Purge Errors", data: strategyStats.purgeErrors, breakdown: null },
+        { name: "Truncated Errors", data: strategyStats.truncatedErrors, breakdown: null },
+        { name: "Budget Eviction", data: strategyStats.budgetEviction, breakdown: null },
+        { name: "Output Window", data: strategyStats.outputWindow, breakdown: null },
+        { name: "User Code Blocks", data: strategyStats.userCodeBlocks, breakdown: null },
+        { name: "File Attachments", data: strategyStats.fileParts, breakdown: null },
+        { name: "Step Markers", data: strategyStats.stepMarkers, breakdown: null },
+        { name: "Run Summaries", data: strategyStats.runSummaries, breakdown: null },
+        { name: "Supersede Rules", data: supersedeRulesTotal, breakdown: "supersedeRules" },
+        { name: "Decay", data: decayTotal, breakdown: "decay" },
         { name: "Manual Discard", data: manualDiscardTotal, breakdown: "manualDiscard" },
         { name: "Distillation", data: strategyStats.distillation, breakdown: null },
     ]
@@ -109,6 +133,28 @@ function formatStatsMessage(
                 }
             }
 
+            // Show sub-breakdown per user-defined supersede rule
+            if (strat.breakdown === "supersedeRules") {
+                for (const [name, data] of supersedeRules) {
+                    if (data.count > 0) {
+                        lines.push(
+                            `    📊 ${name.padEnd(14)} ${data.count.toString().padStart(3)} prunes, ~${formatTokenCount(data.tokens)}`,
+                        )
+                    }
+                }
+            }
+
+            // Show sub-breakdown per decay tier
+            if (strat.breakdown === "decay") {
+                for (const tier of ["excerpt", "digest", "remove"] as const) {
+                    if (decay[tier].count > 0) {
+                        lines.push(
+                            `    ⏳ ${tier.padEnd(14)} ${decay[tier].count.toString().padStart(3)} prunes, ~${formatTokenCount(decay[tier].tokens)}`,
+                        )
+                    }
+                }
+            }
+
             // Show sub-breakdown for Manual Discard
             if (strat.breakdown === "manualDiscard") {
                 if (manualDiscard.message.count > 0) {
@@ -0,0 +1,227 @@
+/**
+ * ACP Sweep command handler.
+ * Prunes every unprotected tool output that matches the given filters:
+ *
+ *   /acp sweep [--older-than N] [--tool name] [--min-tokens N]
+ */
+
+import type { Logger } from "../logger"
+import type { SessionState, ToolParameterEntry, WithParts } from "../state"
+import type { PluginConfig } from "../config"
+import type { ItemizedPrunedItem } from "../ui/pruning-status"
+import { saveSessionState } from "../state/persistence"
+import { getPruneCache, isCallPinned, markToolForPruning, recordPrune } from "../state/utils"
+import { findFileProtection } from "../protected-file-patterns"
+import { sendIgnoredMessage, sendUnifiedNotification } from "../ui/notification"
+import { formatTokenCount } from "../ui/utils"
+import { calculateTokensSaved, estimateTokensForItem, getCurrentParams } from "../strategies/utils"
+
+export interface SweepCommandContext {
+    client: any
+    state: SessionState
+    logger: Logger
+    sessionId: string
+    messages: WithParts[]
+    config: PluginConfig
+    workingDirectory: string
+    args: string[]
+}
+
+export interface SweepOptions {
+    /** Only sweep calls at least this many turns old */
+    olderThan?: number
+    /** Only sweep calls of this tool */
+    tool?: string
+    /** Only sweep outputs of at least this many (estimated) tokens */
+    minTokens?: number
+}
+
+const SWEEP_FLAGS = ["--older-than", "--tool", "--min-tokens"]
+const SWEEP_USAGE = "Usage: /acp sweep [--older-than N] [--tool name] [--min-tokens N]"
+
+/**
+ * Parse sweep flags. Accepts both `--flag value` and `--flag=value`.
+ * Throws with a usage hint on unknown flags or invalid values.
+ */
+export function parseSweepArgs(args: string[]): SweepOptions {
+    const options: SweepOptions = {}
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i]!
+        const eq = arg.indexOf("=")
+        const flag = (eq === -1 ? arg : arg.slice(0, eq)).toLowerCase()
+        if (!SWEEP_FLAGS.includes(flag)) {
+            throw new Error(`Unknown option ${arg}\n${SWEEP_USAGE}`)
+        }
+
+        const value = eq === -1 ? args[++i] : arg.slice(eq + 1)
+
+        if (value === undefined || value === "") {
+            throw new Error(`Missing value for ${flag}\n${SWEEP_USAGE}`)
+        }
+
+        switch (flag) {
+            case "--older-than":
+                options.olderThan = parseCount(flag, value)
+                break
+            case "--min-tokens":
+                options.minTokens = parseCount(flag, value)
+                break
+            case "--tool":
+                options.tool = value
+                break
+        }
+    }
+
+    return options
+}
+
+function parseCount(flag: string, value: string): number {
+    const num = Number(value)
+    if (!Number.isInteger(num) || num < 0) {
+        throw new Error(`${flag} expects a non-negative integer, got "${value}"\n${SWEEP_USAGE}`)
+    }
+    return num
+}
+
+/**
+ * Find the call IDs a sweep would prune. Already pruned and pinned calls,
+ * protected tools, protected file paths and outputs no longer in context are
+ * skipped.
+ */
+export function findSweepCandidates(
+    state: SessionState,
+    messages: WithParts[],
+    config: PluginConfig,
+    options: SweepOptions,
+): string[] {
+    const { prunedToolIds } = getPruneCache(state)
+    const protectedTools = new Set([
+        ...config.commands.protectedTools,
+        ...config.tools.settings.protectedTools,
+    ])
+    const candidates: string[] = []
+
+    for (const [callId, metadata] of state.toolParameters) {
+        if (prunedToolIds.has(callId)) continue
+        if (protectedTools.has(metadata.tool)) continue
+        if (isCallPinned(state, callId)) continue
+        if (options.tool && metadata.tool !== options.tool) continue
+
+        if (findFileProtection(metadata.parameters, config.protectedFilePatterns)) continue
+
+        if (options.olderThan !== undefined) {
+            const turnAge = state.currentTurn - metadata.turn
+            if (turnAge < options.olderThan) continue
+        }
+
+        const estimate = estimateTokensForItem(state, messages, callId)
+        if (!estimate) continue
+        if (options.minTokens !== undefined && estimate.estimatedTokens < options.minTokens) {
+            continue
+        }
+
+        candidates.push(callId)
+    }
+
+    return candidates
+}
+
+function describeFilters(options: SweepOptions): string {
+    const filters: string[] = []
+    if (options.olderThan !== undefined) filters.push(`older than ${options.olderThan} turns`)
+    if (options.tool) filters.push(`tool ${options.tool}`)
+    if (options.minTokens !== undefined) filters.push(`at least ${options.minTokens} tokens`)
+    return filters.length > 0 ? filters.join(", ") : "no filters"
+}
+
+export async function handleSweepCommand(ctx: SweepCommandContext): Promise<void> {
+    const { client, state, logger, sessionId, messages, config, workingDirectory } = ctx
+    const params = getCurrentParams(state, messages, logger)
+
+    let options: SweepOptions
+    try {
+        options = parseSweepArgs(ctx.args)
+    } catch (error: any) {
+        await sendIgnoredMessage(client, sessionId, error.message, params, logger)
+        return
+    }
+
+    const callIds = findSweepCandidates(state, messages, config, options)
+    if (callIds.length === 0) {
+        await sendIgnoredMessage(
+            client,
+            sessionId,
+            `ACP sweep: no prunable tool outputs (${describeFilters(options)})`,
+            params,
+            logger,
+        )
+        logger.info("Sweep command executed", { swept: 0, ...options })
+        return
+    }
+
+    for (const callId of callIds) {
+        markToolForPruning(state, callId)
+    }
+
+    const toolMetadata = new Map<string, ToolParameterEntry>()
+    const itemizedPruned: ItemizedPrunedItem[] = []
+    const hashes: string[] = []
+    for (const callId of callIds) {
+        const metadata = state.toolParameters.get(callId)!
+        toolMetadata.set(callId, metadata)
+        itemizedPruned.push({ type: "tool", name: metadata.tool })
+        const hash = state.hashRegistry.callIds.get(callId)
+        if (hash) hashes.push(hash)
+    }
+
+    const tokensSaved = calculateTokensSaved(state, messages, callIds)
+    state.stats.pruneTokenCounter += tokensSaved
+    state.stats.pruneMessageCounter += callIds.length
+    recordPrune(state, callIds, "manualDiscard.tool", tokensSaved)
+    state.lastDiscardStats = { itemCount: callIds.length, tokensSaved }
+
+    state.discardHistory.push({
+        timestamp: Date.now(),
+        hashes,
+        tokensSaved,
+        reason: "manual",
+    })
+
+    const notified = await sendUnifiedNotification(
+        client,
+        logger,
+        config,
+        {
+            state,
+            pruneToolIds: callIds,
+            toolMetadata,
+            reason: "manual",
+            workingDirectory,
+            options: { simplified: true },
+            itemizedPruned,
+        },
+        sessionId,
+        params,
+    )
+
+    state.stats.pruneTokenCounter = 0
+    state.stats.pruneMessageCounter = 0
+
+    if (!notified) {
+        // Notifications are off; still confirm the explicit command
+        await sendIgnoredMessage(
+            client,
+            sessionId,
+            `ACP sweep: pruned ${callIds.length} tool output(s), ~${formatTokenCount(tokensSaved)} tokens`,
+            params,
+            logger,
+        )
+    }
+
+    saveSessionState(state, logger).catch((err: Error) =>
+        logger.error("Failed to persist state", { error: err.message }),
+    )
+
+    logger.info("Sweep command executed", { swept: callIds.length, tokensSaved, ...options })
+}
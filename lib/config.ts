@@ -3,9 +3,14 @@ export {
     ConfigService,
     getGlobalConfigService,
     resetGlobalConfigService,
+    readLiveConfig,
     loadConfigFromFile,
     loadConfig,
     validateConfig,
+    formatConfigDiagnostics,
+    formatConfigChange,
+    diffConfig,
+    getEffectiveConfig,
     DEFAULT_CONFIG,
 } from "./config/index.js"
 
@@ -18,4 +23,13 @@ export type {
     Tools,
     Commands,
     PurgeErrors,
+    ResolvedConfig,
+    ConfigLayer,
+    ConfigSource,
+    ConfigSources,
+    ConfigDiagnostic,
+    ConfigChange,
+    ConfigReloadResult,
+    LiveConfig,
+    OverrideTarget,
 } from "./config/index.js"
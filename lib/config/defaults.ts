@@ -80,17 +80,47 @@ export const DEFAULT_CONFIG: PluginConfig = {
             turns: 4,
             protectedTools: [],
         },
+        budgetEviction: {
+            enabled: false,
+            maxContextTokens: 100000,
+            highWaterMark: 0.85,
+            lowWaterMark: 0.6,
+            policy: "oldest",
+        },
+        decay: {
+            enabled: false,
+            tiers: [
+                { afterTurns: 5, tier: "excerpt" },
+                { afterTurns: 15, tier: "digest" },
+                { afterTurns: 30, tier: "remove" },
+            ],
+            excerptHeadLines: 10,
+            excerptTailLines: 5,
+        },
+        outputWindow: {
+            enabled: false,
+            maxOutputTokens: 10000,
+            tools: {},
+        },
+        supersedeRules: [],
         aggressivePruning: {
             pruneSourceUrls: true,
             pruneFiles: true,
+            keepLatestAttachments: 1,
             pruneSnapshots: true,
             pruneStepMarkers: true,
             pruneToolInputs: true,
             pruneRetryParts: true,
             pruneUserCodeBlocks: true,
+            userCodeBlockTurns: 5,
             aggressiveFilePrune: true,
+            editReadMode: "supersede",
             stateQuerySupersede: true,
+            runSupersede: true,
+            digestMaxTokens: 80,
             truncateOldErrors: true,
+            errorTruncateTurns: 2,
         },
     },
+    overrides: {},
 }
@@ -0,0 +1,42 @@
+import { collectConfigPaths, getConfigValue } from "./sources.js"
+
+/**
+ * Config change detection, used to report what a reload changed.
+ */
+
+export interface ConfigChange {
+    /** Dotted path of the changed value */
+    path: string
+    before: unknown
+    after: unknown
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * List every leaf value that differs between two configs, sorted by path.
+ */
+export function diffConfig(before: unknown, after: unknown): ConfigChange[] {
+    const paths = new Set([...collectConfigPaths(before), ...collectConfigPaths(after)])
+    const changes: ConfigChange[] = []
+
+    for (const path of [...paths].sort()) {
+        const beforeValue = getConfigValue(before, path)
+        const afterValue = getConfigValue(after, path)
+        if (!sameValue(beforeValue, afterValue)) {
+            changes.push({ path, before: beforeValue, after: afterValue })
+        }
+    }
+
+    return changes
+}
+
+/**
+ * Format a single change as "path: before → after"
+ */
+export function formatConfigChange(change: ConfigChange): string {
+    const show = (value: unknown) => (value === undefined ? "(unset)" : JSON.stringify(value))
+    return `${change.path}: ${show(change.before)} → ${show(change.after)}`
+}
@@ -0,0 +1,147 @@
+import { z } from "zod"
+import { PluginConfigSchema } from "./schema.js"
+import type { ConfigLayer } from "./sources.js"
+import type { ConfigDiagnostic } from "./validation.js"
+
+/**
+ * Environment-variable config layer.
+ *
+ * `ACP_*` variables map onto PluginConfigSchema paths: `__` separates nested
+ * keys and each key is matched case-insensitively with underscores ignored.
+ *
+ *   ACP_ENABLED=0                                   → enabled: false
+ *   ACP_PRUNE_NOTIFICATION=off                      → pruneNotification: "off"
+ *   ACP_STRATEGIES__AGGRESSIVE_PRUNING__PRESET=compact
+ *                                                   → strategies.aggressivePruning.preset
+ *
+ * Values are coerced from strings by the schema type at that path; the layer
+ * is then validated like any config file.
+ */
+
+export const ENV_PREFIX = "ACP_"
+export const ENV_LAYER_PATH = "ACP_* environment variables"
+
+const TRUE_VALUES = new Set(["1", "true", "yes", "on"])
+const FALSE_VALUES = new Set(["0", "false", "no", "off"])
+
+function unwrap(schema: z.ZodType): z.ZodType {
+    let current = schema
+    while (current instanceof z.ZodDefault || current instanceof z.ZodOptional) {
+        current = current.unwrap() as z.ZodType
+    }
+    return current
+}
+
+function normalizeKey(key: string): string {
+    return key.replaceAll("_", "").toLowerCase()
+}
+
+/**
+ * Resolve `FOO__BAR_BAZ` segments to schema keys. Returns null when any
+ * segment does not name a key in the schema.
+ */
+function resolveEnvPath(segments: string[]): { path: string[]; schema: z.ZodType } | null {
+    let schema: z.ZodType = PluginConfigSchema
+    const path: string[] = []
+
+    for (const segment of segments) {
+        const node = unwrap(schema)
+        if (!(node instanceof z.ZodObject)) return null
+
+        const shape = node.shape as Record<string, z.ZodType>
+        const key = Object.keys(shape).find((k) => normalizeKey(k) === normalizeKey(segment))
+        if (!key) return null
+
+        path.push(key)
+        schema = shape[key]!
+    }
+
+    return path.length > 0 ? { path, schema: unwrap(schema) } : null
+}
+
+function parseJson(raw: string): unknown {
+    try {
+        return JSON.parse(raw)
+    } catch {
+        return raw
+    }
+}
+
+/**
+ * Convert a raw env string to the type expected by the schema. Values that
+ * cannot be converted are returned unchanged so validation reports them.
+ */
+function coerceEnvValue(raw: string, schema: z.ZodType): unknown {
+    const value = raw.trim()
+
+    if (schema instanceof z.ZodBoolean) {
+        const lower = value.toLowerCase()
+        if (TRUE_VALUES.has(lower)) return true
+        if (FALSE_VALUES.has(lower)) return false
+        return raw
+    }
+
+    if (schema instanceof z.ZodNumber) {
+        const num = Number(value)
+        return value !== "" && Number.isFinite(num) ? num : raw
+    }
+
+    if (schema instanceof z.ZodArray) {
+        if (value.startsWith("[")) return parseJson(value)
+        return value
+            .split(",")
+            .map((item) => item.trim())
+            .filter(Boolean)
+    }
+
+    if (schema instanceof z.ZodObject || schema instanceof z.ZodRecord) {
+        return parseJson(value)
+    }
+
+    return value
+}
+
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+    let current = target
+    for (const key of path.slice(0, -1)) {
+        const next = current[key]
+        if (typeof next !== "object" || next === null || Array.isArray(next)) {
+            current[key] = {}
+        }
+        current = current[key] as Record<string, unknown>
+    }
+    current[path[path.length - 1]!] = value
+}
+
+/**
+ * Build the env config layer from `ACP_*` variables.
+ * Returns null when no variable is set. Unknown variables are reported.
+ */
+export function loadEnvLayer(
+    env: NodeJS.ProcessEnv = process.env,
+    diagnostics: ConfigDiagnostic[] = [],
+): ConfigLayer | null {
+    const config: Record<string, unknown> = {}
+    let found = false
+
+    for (const name of Object.keys(env).sort()) {
+        const raw = env[name]
+        if (!name.startsWith(ENV_PREFIX) || raw === undefined) continue
+
+        const segments = name.slice(ENV_PREFIX.length).split("__").filter(Boolean)
+        const resolved = resolveEnvPath(segments)
+        if (!resolved) {
+            diagnostics.push({
+                path: "",
+                message: `Unknown environment variable ${name} ignored`,
+                file: ENV_LAYER_PATH,
+            })
+            continue
+        }
+
+        setPath(config, resolved.path, coerceEnvValue(raw, resolved.schema))
+        found = true
+    }
+
+    return found ? { source: "env", path: ENV_LAYER_PATH, config } : null
+}
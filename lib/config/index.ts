@@ -1,7 +1,30 @@
-import { ConfigService, getGlobalConfigService, resetGlobalConfigService } from "./service.js"
+import {
+    ConfigService,
+    getGlobalConfigService,
+    resetGlobalConfigService,
+    readLiveConfig,
+} from "./service.js"
 import { DEFAULT_CONFIG } from "./defaults.js"
-import { loadConfigFromFile, loadConfigFromDir, validateConfig } from "./loader.js"
+import {
+    loadConfigFromFile,
+    loadConfigFromDir,
+    loadConfigLayers,
+    loadResolvedConfig,
+    resolveConfig,
+    resolveLayeredConfig,
+    validateConfig,
+} from "./loader.js"
+import { applyPruningPreset } from "./presets.js"
+import { formatConfigDiagnostics } from "./validation.js"
+import { diffConfig, formatConfigChange } from "./diff.js"
+import { getEffectiveConfig } from "./overrides.js"
+import type { ResolvedConfig } from "./loader.js"
 import type { PluginConfig } from "./schema.js"
+import type { ConfigLayer, ConfigSource, ConfigSources } from "./sources.js"
+import type { ConfigDiagnostic } from "./validation.js"
+import type { ConfigChange } from "./diff.js"
+import type { ConfigReloadResult, LiveConfig } from "./service.js"
+import type { OverrideTarget } from "./overrides.js"
 
 // Re-export everything for backward compatibility and new patterns
 export {
@@ -9,17 +32,42 @@ export {
     ConfigService,
     getGlobalConfigService,
     resetGlobalConfigService,
+    readLiveConfig,
 
     // Legacy loader functions
     loadConfigFromFile,
     loadConfigFromDir as loadConfig,
     validateConfig,
 
+    // Resolution with provenance
+    loadConfigLayers,
+    loadResolvedConfig,
+    resolveConfig,
+    resolveLayeredConfig,
+    applyPruningPreset,
+    formatConfigDiagnostics,
+    diffConfig,
+    formatConfigChange,
+
+    // Per-agent / per-model overrides
+    getEffectiveConfig,
+
     // Constants
     DEFAULT_CONFIG,
 }
 
-export type { PluginConfig }
+export type {
+    PluginConfig,
+    ResolvedConfig,
+    ConfigLayer,
+    ConfigSource,
+    ConfigSources,
+    ConfigDiagnostic,
+    ConfigChange,
+    ConfigReloadResult,
+    LiveConfig,
+    OverrideTarget,
+}
 
 // Legacy type aliases for backward compatibility
 export type DiscardTool = import("./schema.js").DiscardTool
@@ -1,7 +1,20 @@
 import { readFileSync, existsSync } from "fs"
-import { z } from "zod"
-import { PluginConfigSchema, type PluginConfig } from "./schema.js"
+import { homedir } from "os"
+import { join } from "path"
+import { parse as parseJsonc, printParseErrorCode, type ParseError } from "jsonc-parser"
+import type { PluginConfig } from "./schema.js"
 import { DEFAULT_CONFIG } from "./defaults.js"
+import {
+    buildConfigSources,
+    type ConfigLayer,
+    type ConfigLayerSource,
+    type ConfigSources,
+} from "./sources.js"
+import { validateLayersLeniently, type ConfigDiagnostic } from "./validation.js"
+import { validateOverrides } from "./overrides.js"
+import { loadEnvLayer } from "./env.js"
+import { formatLegacyDiagnostic, migrateLegacyConfig } from "./migrate.js"
+import { isPlainObject } from "../utils/object.js"
 import { Logger } from "../logger.js"
 
 const logger = new Logger(false)
@@ -9,54 +22,211 @@ const logger = new Logger(false)
 /**
  * Configuration loader with validation
  * Extracted from config.ts
+ *
+ * Layers are deep-merged in order, later layers winning:
+ *   defaults → ~/.config/opencode/acp.jsonc → .opencode/acp.jsonc
+ *            → opencode.json → ACP_* env variables
  */
 
 const CONFIG_FILE_NAME = "opencode.json"
+const ACP_CONFIG_FILE_NAME = "acp.jsonc"
 
 let configCache: PluginConfig | null = null
 
 /**
- * Load and validate configuration from a file path
+ * Validated configuration together with the provenance of each value
  */
-export function loadConfigFromFile(configPath: string): PluginConfig {
+export interface ResolvedConfig {
+    config: PluginConfig
+    sources: ConfigSources
+    /** Config files that were found and parsed, in merge order */
+    layers: ConfigLayer[]
+    /** Problems found while reading or validating config files */
+    diagnostics: ConfigDiagnostic[]
+}
+
+/**
+ * Candidate config file locations for a workspace, in merge order.
+ * Files that do not exist are skipped when loading.
+ */
+export function getConfigLayerPaths(
+    workspaceRoot: string,
+): Array<{ source: ConfigLayerSource; path: string }> {
+    return [
+        { source: "global", path: join(homedir(), ".config", "opencode", ACP_CONFIG_FILE_NAME) },
+        { source: "project", path: join(workspaceRoot, ".opencode", ACP_CONFIG_FILE_NAME) },
+        { source: "project", path: join(workspaceRoot, CONFIG_FILE_NAME) },
+    ]
+}
+
+/**
+ * Read a JSON/JSONC config file. Comments and trailing commas are allowed,
+ * and pre-3.0 legacy keys are migrated. Returns null when the file is missing, unparseable, or not an object;
+ * problems with existing files are appended to `diagnostics`.
+ */
+export function readConfigFile(
+    configPath: string,
+    diagnostics: ConfigDiagnostic[] = [],
+): Record<string, unknown> | null {
     try {
         if (!existsSync(configPath)) {
-            return DEFAULT_CONFIG
+            return null
         }
 
         const content = readFileSync(configPath, "utf-8")
-        const rawConfig = JSON.parse(content)
-        return validateConfig(rawConfig)
+        const errors: ParseError[] = []
+        const rawConfig: unknown = parseJsonc(content, errors, { allowTrailingComma: true })
+
+        if (errors.length > 0) {
+            const details = errors
+                .map((e) => `${printParseErrorCode(e.error)} at offset ${e.offset}`)
+                .join(", ")
+            logger.warn(`Failed to parse config ${configPath}: ${details}`)
+            diagnostics.push({ path: "", message: `File ignored, ${details}`, file: configPath })
+            return null
+        }
+
+        if (!isPlainObject(rawConfig)) {
+            logger.warn(`Config ${configPath} is not an object, ignoring`)
+            diagnostics.push({
+                path: "",
+                message: "File ignored, expected a JSON object",
+                file: configPath,
+            })
+            return null
+        }
+
+        // Legacy keys are migrated in memory; /acp migrate rewrites the file
+        const migration = migrateLegacyConfig(rawConfig)
+        for (const change of migration.changes) {
+            diagnostics.push({
+                path: change.from.join("."),
+                message: `${formatLegacyDiagnostic(change)}; run /acp migrate to update the file`,
+                file: configPath,
+            })
+        }
+
+        return migration.config
     } catch {
-        logger.warn(`Failed to load config from ${configPath}, using defaults`)
-        return DEFAULT_CONFIG
+        logger.warn(`Failed to load config from ${configPath}`)
+        diagnostics.push({ path: "", message: "File could not be read", file: configPath })
+        return null
+    }
+}
+
+/**
+ * Read all existing config layers for a workspace, in merge order.
+ * ACP_* environment variables form the last, highest-priority layer.
+ */
+export function loadConfigLayers(
+    workspaceRoot: string,
+    diagnostics: ConfigDiagnostic[] = [],
+    env: NodeJS.ProcessEnv = process.env,
+): ConfigLayer[] {
+    const layers: ConfigLayer[] = []
+    for (const { source, path } of getConfigLayerPaths(workspaceRoot)) {
+        const config = readConfigFile(path, diagnostics)
+        if (config) {
+            layers.push({ source, path, config })
+        }
+    }
+
+    const envLayer = loadEnvLayer(env, diagnostics)
+    if (envLayer) {
+        layers.push(envLayer)
     }
+
+    return layers
+}
+
+/**
+ * Load, resolve and validate all config layers for a workspace
+ */
+export function loadResolvedConfig(workspaceRoot: string): ResolvedConfig {
+    const fileDiagnostics: ConfigDiagnostic[] = []
+    const layers = loadConfigLayers(workspaceRoot, fileDiagnostics)
+    return withDiagnostics(resolveLayeredConfig(layers), fileDiagnostics)
+}
+
+/**
+ * Load, resolve and validate configuration from a single file path
+ */
+export function loadResolvedConfigFromFile(configPath: string): ResolvedConfig {
+    const fileDiagnostics: ConfigDiagnostic[] = []
+    const config = readConfigFile(configPath, fileDiagnostics)
+    const layers: ConfigLayer[] = config ? [{ source: "project", path: configPath, config }] : []
+    return withDiagnostics(resolveLayeredConfig(layers), fileDiagnostics)
+}
+
+function withDiagnostics(
+    resolved: ResolvedConfig,
+    diagnostics: ConfigDiagnostic[],
+): ResolvedConfig {
+    if (diagnostics.length === 0) return resolved
+    return { ...resolved, diagnostics: [...diagnostics, ...resolved.diagnostics] }
+}
+
+/**
+ * Load and validate configuration from a file path
+ */
+export function loadConfigFromFile(configPath: string): PluginConfig {
+    return loadResolvedConfigFromFile(configPath).config
 }
 
 /**
  * Load configuration from a directory
  */
 export function loadConfigFromDir(workspaceRoot: string): PluginConfig {
-    const configPath = `${workspaceRoot}/${CONFIG_FILE_NAME}`
-    return loadConfigFromFile(configPath)
+    return loadResolvedConfig(workspaceRoot).config
 }
 
 /**
  * Validate raw configuration against schema
  */
 export function validateConfig(rawConfig: unknown): PluginConfig {
-    try {
-        return PluginConfigSchema.parse(rawConfig)
-    } catch (error) {
-        if (error instanceof z.ZodError) {
-            const issues = error.issues
-                .map((e: z.ZodIssue) => `${e.path.join(".")}: ${e.message}`)
-                .join(", ")
-            logger.warn(`Config validation failed: ${issues}`)
-        } else {
-            logger.warn(`Config validation failed: ${String(error)}`)
-        }
-        return DEFAULT_CONFIG
+    return resolveConfig(rawConfig).config
+}
+
+/**
+ * Resolve and validate a single raw configuration object
+ */
+export function resolveConfig(
+    rawConfig: unknown,
+    source: ConfigLayerSource = "project",
+): ResolvedConfig {
+    if (!isPlainObject(rawConfig)) {
+        logger.warn(`Config validation failed: expected an object`)
+        return withDiagnostics(resolveLayeredConfig([]), [
+            { path: "", message: "Config ignored, expected an object" },
+        ])
+    }
+    return resolveLayeredConfig([{ source, path: "", config: rawConfig }])
+}
+
+/**
+ * Merge config layers, resolve the pruning preset, then validate against schema.
+ * The preset is resolved against the merged user layers only, so explicitly
+ * set aggressivePruning flags override preset values, which override defaults.
+ * Invalid keys fall back to their defaults and are reported as diagnostics;
+ * every valid setting is kept.
+ */
+export function resolveLayeredConfig(layers: ConfigLayer[]): ResolvedConfig {
+    const validated = validateLayersLeniently(layers)
+    const { config, diagnostics: overrideDiagnostics } = validateOverrides(
+        validated.config,
+        validated.layers,
+    )
+    const diagnostics = [...validated.diagnostics, ...overrideDiagnostics]
+
+    for (const diagnostic of diagnostics) {
+        logger.warn(`Config validation: ${diagnostic.path || "config"}: ${diagnostic.message}`)
+    }
+
+    return {
+        config,
+        sources: buildConfigSources(config, validated.layers, validated.flagSources),
+        layers,
+        diagnostics,
     }
 }
 
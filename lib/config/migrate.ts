@@ -0,0 +1,270 @@
+import { readFileSync, writeFileSync } from "fs"
+import { applyEdits, modify, parse as parseJsonc, type ParseError } from "jsonc-parser"
+import { isPlainObject } from "../utils/object.js"
+
+/**
+ * Legacy (pre-3.0) config migration.
+ *
+ * Older releases kept settings under a `contextPruning` namespace (nested or
+ * as flat dotted keys) and supported options that have since been removed.
+ * Without migration those keys are stripped by validation and users silently
+ * get defaults. Settings with a current equivalent are moved; dropped ones
+ * are removed and reported.
+ */
+
+const LEGACY_NAMESPACE = "contextPruning"
+
+export interface LegacyChange {
+    /** Key path in the original config */
+    from: string[]
+    /** New key path, when the setting still has an equivalent */
+    to?: string[]
+    message: string
+}
+
+export interface LegacyMigration {
+    config: Record<string, unknown>
+    changes: LegacyChange[]
+}
+
+interface LegacyRule {
+    path: string[]
+    to?: string[]
+    message: string
+}
+
+const LEGACY_RULES: LegacyRule[] = [
+    {
+        path: ["tools", "extract"],
+        to: ["tools", "distill"],
+        message: "The extract tool was renamed to distill in 2.0.0",
+    },
+    {
+        path: ["tools", "settings", "nudgeEnabled"],
+        message: "Removed in 2.0.0 together with the nudge system",
+    },
+    {
+        path: ["tools", "settings", "nudgeFrequency"],
+        message: "Removed in 2.0.0 together with the nudge system",
+    },
+    {
+        path: ["tools", "settings", "postUserNudgeEnabled"],
+        message: "Removed in 2.0.0 together with the nudge system",
+    },
+    {
+        path: ["strategies", "truncation"],
+        message: "Removed in 3.0.0; large outputs are now handled by hash-based supersede",
+    },
+    {
+        path: ["strategies", "thinkingCompression"],
+        message: "Removed in 3.0.0; use the context_prune distill action on reasoning blocks",
+    },
+    {
+        path: ["turnProtection"],
+        message: "Removed in 3.0.0; it conflicted with aggressive supersede",
+    },
+    {
+        path: ["autoPruneAfterTool"],
+        message: "Removed in 3.0.0; strategies already run after every tool",
+    },
+]
+
+function getPath(value: unknown, path: string[]): unknown {
+    let current = value
+    for (const key of path) {
+        if (!isPlainObject(current) || !Object.hasOwn(current, key)) return undefined
+        current = current[key]
+    }
+    return current
+}
+
+function hasPath(value: unknown, path: string[]): boolean {
+    const parent = getPath(value, path.slice(0, -1))
+    return isPlainObject(parent) && Object.hasOwn(parent, path[path.length - 1]!)
+}
+
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+    let current = target
+    for (const key of path.slice(0, -1)) {
+        if (!isPlainObject(current[key])) {
+            current[key] = {}
+        }
+        current = current[key] as Record<string, unknown>
+    }
+    current[path[path.length - 1]!] = value
+}
+
+function removePath(target: Record<string, unknown>, path: string[]): void {
+    const parent = getPath(target, path.slice(0, -1))
+    if (isPlainObject(parent)) {
+        Reflect.deleteProperty(parent, path[path.length - 1]!)
+    }
+}
+
+/**
+ * Writes needed to move `value` to `path` without overwriting current
+ * settings. Objects are merged key by key, so a legacy block still fills in
+ * whatever the current block at its destination leaves unset.
+ */
+function collectMoveWrites(
+    config: Record<string, unknown>,
+    path: string[],
+    value: unknown,
+): Array<[string[], unknown]> {
+    if (!hasPath(config, path)) {
+        return [[path, value]]
+    }
+    const existing = getPath(config, path)
+    if (!isPlainObject(existing) || !isPlainObject(value)) {
+        return []
+    }
+    return Object.entries(value).flatMap(([key, nested]) =>
+        collectMoveWrites(config, [...path, key], nested),
+    )
+}
+
+/**
+ * Apply a single change to a (mutable) config object. A moved value never
+ * overwrites a setting that already exists at its new location.
+ */
+function applyChange(config: Record<string, unknown>, change: LegacyChange): void {
+    const value = getPath(config, change.from)
+    const writes = change.to ? collectMoveWrites(config, change.to, value) : []
+    removePath(config, change.from)
+    for (const [path, nested] of writes) {
+        setPath(config, path, nested)
+    }
+}
+
+/**
+ * Namespace changes: flat `contextPruning.a.b` keys and a nested
+ * `contextPruning` object both move to the top level.
+ */
+function collectNamespaceChanges(config: Record<string, unknown>): LegacyChange[] {
+    const changes: LegacyChange[] = []
+    const prefix = `${LEGACY_NAMESPACE}.`
+
+    for (const key of Object.keys(config)) {
+        if (key.startsWith(prefix)) {
+            changes.push({
+                from: [key],
+                to: key.slice(prefix.length).split("."),
+                message: `Flat "${LEGACY_NAMESPACE}." keys are no longer read`,
+            })
+        }
+    }
+
+    const namespace = config[LEGACY_NAMESPACE]
+    if (isPlainObject(namespace)) {
+        for (const key of Object.keys(namespace)) {
+            changes.push({
+                from: [LEGACY_NAMESPACE, key],
+                to: [key],
+                message: `Settings are no longer nested under "${LEGACY_NAMESPACE}"`,
+            })
+        }
+    }
+
+    return changes
+}
+
+function collectRuleChanges(config: Record<string, unknown>): LegacyChange[] {
+    return LEGACY_RULES.filter((rule) => hasPath(config, rule.path)).map((rule) => ({
+        from: rule.path,
+        to: rule.to,
+        message: rule.message,
+    }))
+}
+
+/**
+ * Detect and migrate legacy keys in a raw config object.
+ * Returns a migrated copy; the input is never mutated.
+ */
+export function migrateLegacyConfig(rawConfig: Record<string, unknown>): LegacyMigration {
+    const config = structuredClone(rawConfig)
+
+    const namespaceChanges = collectNamespaceChanges(config)
+    for (const change of namespaceChanges) {
+        applyChange(config, change)
+    }
+    if (isPlainObject(config[LEGACY_NAMESPACE])) {
+        // Emptied by the moves above
+        Reflect.deleteProperty(config, LEGACY_NAMESPACE)
+    }
+
+    const ruleChanges = collectRuleChanges(config)
+    for (const change of ruleChanges) {
+        applyChange(config, change)
+    }
+
+    return { config, changes: [...namespaceChanges, ...ruleChanges] }
+}
+
+/**
+ * Format a change for display, e.g. "tools.extract → tools.distill (…)"
+ */
+export function formatLegacyChange(change: LegacyChange): string {
+    const from = change.from.join(".")
+    return change.to
+        ? `${from} → ${change.to.join(".")} (${change.message})`
+        : `${from} removed (${change.message})`
+}
+
+/**
+ * Describe a change as a config diagnostic for the key it came from
+ */
+export function formatLegacyDiagnostic(change: LegacyChange): string {
+    return change.to
+        ? `Legacy setting read as ${change.to.join(".")} (${change.message})`
+        : `Legacy setting ignored (${change.message})`
+}
+
+/**
+ * Rewrite a config file with legacy keys migrated. Edits are applied to the
+ * original text, so comments and formatting elsewhere in the file are kept.
+ * Returns the applied changes; the file is left untouched when there are none
+ * or when it cannot be parsed.
+ */
+export function writeMigratedConfigFile(configPath: string): LegacyChange[] {
+    let text = readFileSync(configPath, "utf-8")
+    const errors: ParseError[] = []
+    const rawConfig: unknown = parseJsonc(text, errors, { allowTrailingComma: true })
+    if (errors.length > 0 || !isPlainObject(rawConfig)) {
+        return []
+    }
+
+    const { changes } = migrateLegacyConfig(rawConfig)
+    if (changes.length === 0) {
+        return []
+    }
+
+    // Replay the changes against the text, tracking the object to know
+    // whether a moved value's destination already exists
+    const working = structuredClone(rawConfig)
+    const options = { formattingOptions: { insertSpaces: true, tabSize: 4 } }
+    const edit = (path: string[], value: unknown) => {
+        text = applyEdits(text, modify(text, path, value, options))
+    }
+
+    for (const change of changes) {
+        const value = getPath(working, change.from)
+        if (change.to) {
+            for (const [path, nested] of collectMoveWrites(working, change.to, value)) {
+                edit(path, nested)
+            }
+        }
+        edit(change.from, undefined)
+        applyChange(working, change)
+
+        if (change.from[0] === LEGACY_NAMESPACE && change.from.length === 2) {
+            const namespace = working[LEGACY_NAMESPACE]
+            if (isPlainObject(namespace) && Object.keys(namespace).length === 0) {
+                edit([LEGACY_NAMESPACE], undefined)
+                Reflect.deleteProperty(working, LEGACY_NAMESPACE)
+            }
+        }
+    }
+
+    writeFileSync(configPath, text)
+    return changes
+}
@@ -0,0 +1,139 @@
+import type { PluginConfig } from "./schema.js"
+import { applyPruningPreset } from "./presets.js"
+import type { ConfigLayer } from "./sources.js"
+import { validateLayersLeniently, type ConfigDiagnostic } from "./validation.js"
+import { matchesGlob } from "../protected-file-patterns.js"
+import { deepMerge, isPlainObject } from "../utils/object.js"
+
+/**
+ * Per-agent and per-model config overrides.
+ *
+ * `overrides` keys are either an agent name ("plan") or a `provider/model`
+ * glob ("anthropic/claude-*"). Matching model overrides are applied first,
+ * then the agent override, each deep-merged over the base config.
+ */
+
+export interface OverrideTarget {
+    agent?: string
+    providerId?: string
+    modelId?: string
+}
+
+type Overrides = PluginConfig["overrides"]
+
+const effectiveConfigCache = new WeakMap<PluginConfig, Map<string, PluginConfig>>()
+
+export function isModelOverrideKey(key: string): boolean {
+    return key.includes("/")
+}
+
+/**
+ * Keys of all overrides that apply to a target, in application order.
+ */
+export function matchOverrideKeys(overrides: Overrides, target: OverrideTarget): string[] {
+    const keys = Object.keys(overrides)
+    const model =
+        target.providerId && target.modelId ? `${target.providerId}/${target.modelId}` : undefined
+
+    const modelKeys = model
+        ? keys.filter((key) => isModelOverrideKey(key) && matchesGlob(model, key))
+        : []
+    const agentKeys = target.agent
+        ? keys.filter((key) => !isModelOverrideKey(key) && key === target.agent)
+        : []
+
+    return [...modelKeys, ...agentKeys]
+}
+
+/**
+ * Resolve an override's own preset so that e.g. `{ preset: "compact" }`
+ * sets every aggressivePruning flag rather than only the preset name.
+ * Nested `overrides` are not allowed and are dropped.
+ */
+function prepareOverride(override: Record<string, unknown>): Record<string, unknown> {
+    const withoutNested = Object.fromEntries(
+        Object.entries(override).filter(([key]) => key !== "overrides"),
+    )
+    const { rawConfig } = applyPruningPreset(withoutNested)
+    return isPlainObject(rawConfig) ? rawConfig : withoutNested
+}
+
+/**
+ * Get the config that applies to the given agent and model.
+ * Returns the base config itself when no override matches.
+ * Results are cached per base config object, so a reload starts fresh.
+ */
+export function getEffectiveConfig(config: PluginConfig, target: OverrideTarget): PluginConfig {
+    const overrides = config.overrides ?? {}
+    const keys = matchOverrideKeys(overrides, target)
+    if (keys.length === 0) {
+        return config
+    }
+
+    let cache = effectiveConfigCache.get(config)
+    if (!cache) {
+        cache = new Map()
+        effectiveConfigCache.set(config, cache)
+    }
+
+    const cacheKey = keys.join("\n")
+    const cached = cache.get(cacheKey)
+    if (cached) {
+        return cached
+    }
+
+    let effective = config
+    for (const key of keys) {
+        effective = deepMerge(effective, prepareOverride(overrides[key]!))
+    }
+    effective = { ...effective, overrides }
+
+    cache.set(cacheKey, effective)
+    return effective
+}
+
+function findOverrideFile(layers: ConfigLayer[], key: string): string | undefined {
+    for (let i = layers.length - 1; i >= 0; i--) {
+        const overrides = layers[i]!.config.overrides
+        if (isPlainObject(overrides) && Object.hasOwn(overrides, key)) {
+            return layers[i]!.path || undefined
+        }
+    }
+    return undefined
+}
+
+/**
+ * Validate each override against the base config. Invalid keys inside an
+ * override are dropped (the base value applies) and reported as diagnostics.
+ */
+export function validateOverrides(
+    config: PluginConfig,
+    layers: ConfigLayer[],
+): { config: PluginConfig; diagnostics: ConfigDiagnostic[] } {
+    const overrides = config.overrides ?? {}
+    const diagnostics: ConfigDiagnostic[] = []
+    const validated: Overrides = {}
+
+    for (const [key, override] of Object.entries(overrides)) {
+        const file = findOverrideFile(layers, key)
+        const result = validateLayersLeniently([
+            { source: "project", path: "", config: { ...config, overrides: {} } },
+            { source: "project", path: file ?? "", config: prepareOverride(override) },
+        ])
+
+        const sanitized = result.layers[1]?.config ?? {}
+        if (Object.keys(sanitized).length > 0) {
+            validated[key] = sanitized
+        }
+
+        for (const diagnostic of result.diagnostics) {
+            diagnostics.push({
+                ...diagnostic,
+                path: diagnostic.path ? `overrides["${key}"].${diagnostic.path}` : "",
+                file,
+            })
+        }
+    }
+
+    return { config: { ...config, overrides: validated }, diagnostics }
+}
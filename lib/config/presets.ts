@@ -0,0 +1,69 @@
+import { PRUNING_PRESETS, type AggressivePruning, type PruningPreset } from "./schema.js"
+import { isPlainObject } from "../utils/object.js"
+
+/**
+ * Pruning preset resolution.
+ *
+ * A preset provides the base value for every aggressivePruning flag.
+ * Flags set explicitly in the user config are applied on top of it.
+ */
+
+export type AggressivePruningFlag = Exclude<keyof AggressivePruning, "preset">
+
+/** Where a resolved aggressivePruning flag got its value from */
+export type PresetFlagSource = "preset" | "user"
+
+export interface PresetResolution {
+    /** Raw config with preset values filled in for flags the user did not set */
+    rawConfig: unknown
+    /** Preset that was applied, if any */
+    preset: PruningPreset | undefined
+    /** Source of each flag touched by preset resolution */
+    flagSources: Partial<Record<AggressivePruningFlag, PresetFlagSource>>
+}
+
+function isPruningPreset(value: unknown): value is PruningPreset {
+    return typeof value === "string" && Object.hasOwn(PRUNING_PRESETS, value)
+}
+
+/**
+ * Apply `strategies.aggressivePruning.preset` to a raw (unvalidated) config.
+ * Returns a copy of the config; the input is never mutated.
+ * Unknown preset names are left untouched so schema validation can report them.
+ */
+export function applyPruningPreset(rawConfig: unknown): PresetResolution {
+    if (!isPlainObject(rawConfig) || !isPlainObject(rawConfig.strategies)) {
+        return { rawConfig, preset: undefined, flagSources: {} }
+    }
+
+    const aggressivePruning = rawConfig.strategies.aggressivePruning
+    if (!isPlainObject(aggressivePruning)) {
+        return { rawConfig, preset: undefined, flagSources: {} }
+    }
+
+    const preset = aggressivePruning.preset
+    if (!isPruningPreset(preset)) {
+        return { rawConfig, preset: undefined, flagSources: {} }
+    }
+
+    const resolved: Record<string, unknown> = { ...aggressivePruning }
+    const flagSources: PresetResolution["flagSources"] = {}
+
+    for (const [flag, presetValue] of Object.entries(PRUNING_PRESETS[preset])) {
+        if (aggressivePruning[flag] === undefined) {
+            resolved[flag] = presetValue
+            flagSources[flag as AggressivePruningFlag] = "preset"
+        } else {
+            flagSources[flag as AggressivePruningFlag] = "user"
+        }
+    }
+
+    return {
+        rawConfig: {
+            ...rawConfig,
+            strategies: { ...rawConfig.strategies, aggressivePruning: resolved },
+        },
+        preset,
+        flagSources,
+    }
+}
@@ -139,6 +139,155 @@ export const PurgeErrorsSchema = z.object({
         .describe("Tool names excluded from error purging"),
 })
 
+export const BudgetEvictionSchema = z
+    .object({
+        enabled: z
+            .boolean()
+            .default(false)
+            .describe(
+                "Evict unprotected tool outputs when the estimated context exceeds the high-water mark",
+            ),
+        maxContextTokens: z
+            .number()
+            .positive()
+            .default(100000)
+            .describe("Context token budget that the water marks are fractions of"),
+        highWaterMark: z
+            .number()
+            .gt(0)
+            .max(1)
+            .default(0.85)
+            .describe("Fraction of maxContextTokens above which eviction starts"),
+        lowWaterMark: z
+            .number()
+            .gt(0)
+            .max(1)
+            .default(0.6)
+            .describe("Fraction of maxContextTokens that eviction brings usage down to"),
+        policy: z
+            .enum(["oldest", "largest", "lru", "relevance"])
+            .default("oldest")
+            .describe(
+                "Eviction order: oldest (earliest turn first), largest (most tokens first), lru (least recently referenced target first), relevance (lowest BM25 score against the latest user message and open todos first)",
+            ),
+    })
+    .refine((budget) => budget.lowWaterMark < budget.highWaterMark, {
+        message: "lowWaterMark must be below highWaterMark",
+        path: ["lowWaterMark"],
+    })
+
+export const DecayTierSchema = z.object({
+    afterTurns: z
+        .number()
+        .int()
+        .positive()
+        .describe("Age in turns at which a tool output enters this tier"),
+    tier: z
+        .enum(["excerpt", "digest", "remove"])
+        .describe(
+            "excerpt keeps the first and last lines, digest keeps a one-line structural digest, remove prunes the output",
+        ),
+})
+
+export const DecaySchema = z.object({
+    enabled: z
+        .boolean()
+        .default(false)
+        .describe("Shrink unprotected tool outputs in tiers as they age instead of all at once"),
+    tiers: z
+        .array(DecayTierSchema)
+        .default([
+            { afterTurns: 5, tier: "excerpt" },
+            { afterTurns: 15, tier: "digest" },
+            { afterTurns: 30, tier: "remove" },
+        ])
+        .refine(
+            (tiers) =>
+                tiers.every((tier, i) => i === 0 || tier.afterTurns > tiers[i - 1]!.afterTurns),
+            "tiers must be ordered by increasing afterTurns",
+        )
+        .describe("Decay tiers; outputs younger than the first tier stay in full"),
+    excerptHeadLines: z
+        .number()
+        .int()
+        .min(0)
+        .default(10)
+        .describe("Lines kept from the start of an output in the excerpt tier"),
+    excerptTailLines: z
+        .number()
+        .int()
+        .min(0)
+        .default(5)
+        .describe("Lines kept from the end of an output in the excerpt tier"),
+})
+
+export const OutputWindowSchema = z.object({
+    enabled: z
+        .boolean()
+        .default(false)
+        .describe(
+            "Keep only the head and tail of tool outputs over maxOutputTokens; the full output is saved to a side store",
+        ),
+    maxOutputTokens: z
+        .number()
+        .int()
+        .positive()
+        .default(10000)
+        .describe("Largest tool output kept in full, in tokens"),
+    tools: z
+        .record(z.string(), z.number().int().min(0))
+        .default({})
+        .describe(
+            "Per-tool maxOutputTokens, keyed by tool name (e.g. { bash: 4000 }); 0 never windows the tool",
+        ),
+})
+
+function isValidRegex(pattern: string): boolean {
+    try {
+        new RegExp(pattern)
+        return true
+    } catch {
+        return false
+    }
+}
+
+export const SupersedeRuleSchema = z.object({
+    name: z
+        .string()
+        .regex(/^[\w-]+$/, "name may only contain letters, digits, _ and -")
+        .describe("Rule name, shown in /acp stats"),
+    pattern: z
+        .string()
+        .refine(isValidRegex, "pattern must be a valid regular expression")
+        .describe("Regular expression matched against the bash command"),
+    key: z
+        .string()
+        .default("{cmd}")
+        .describe(
+            "Key template; matching calls with the same key supersede each other. Placeholders: {command}, {cmd}, {arg1}..{argN} (words after the command), {1}..{N} (regex groups)",
+        ),
+    keepLatest: z
+        .number()
+        .int()
+        .positive()
+        .default(1)
+        .describe("Number of latest calls per key kept in context"),
+    exitStatus: z
+        .union([z.enum(["any", "success", "failure"]), z.number().int()])
+        .default("any")
+        .describe(
+            'Only apply the rule to calls whose exit status matches: "any", "success" (0), "failure" (non-zero) or an exact code',
+        ),
+})
+
+export const SupersedeRulesSchema = z
+    .array(SupersedeRuleSchema)
+    .default([])
+    .refine((rules) => new Set(rules.map((rule) => rule.name)).size === rules.length, {
+        message: "supersede rule names must be unique",
+    })
+    .describe("User-defined supersede rules for bash commands, checked in order")
+
 /**
  * Pruning preset definitions.
  * - compact: Maximum cleanup for long sessions
@@ -156,6 +305,7 @@ export const PRUNING_PRESETS = {
         pruneUserCodeBlocks: true,
         aggressiveFilePrune: true,
         stateQuerySupersede: true,
+        runSupersede: true,
         truncateOldErrors: true,
     },
     balanced: {
@@ -168,6 +318,7 @@ export const PRUNING_PRESETS = {
         pruneUserCodeBlocks: false,
         aggressiveFilePrune: true,
         stateQuerySupersede: true,
+        runSupersede: true,
         truncateOldErrors: false,
     },
     verbose: {
@@ -180,6 +331,7 @@ export const PRUNING_PRESETS = {
         pruneUserCodeBlocks: false,
         aggressiveFilePrune: false,
         stateQuerySupersede: false,
+        runSupersede: false,
         truncateOldErrors: false,
     },
 } as const
@@ -204,6 +356,15 @@ export const AggressivePruningSchema = z.object({
         .boolean()
         .default(true)
         .describe("Prune file attachment parts (images, documents) from old messages"),
+    /** Number of most recent attachments left unmasked */
+    keepLatestAttachments: z
+        .number()
+        .int()
+        .min(0)
+        .default(1)
+        .describe(
+            "Number of most recent file attachments kept verbatim when pruneFiles masks older ones",
+        ),
     /** Prune snapshot parts, keeping only the latest */
     pruneSnapshots: z
         .boolean()
@@ -231,6 +392,15 @@ export const AggressivePruningSchema = z.object({
         .boolean()
         .default(true)
         .describe("Truncate large code blocks in old user messages to save tokens"),
+    /** Age in turns after which user code blocks are truncated */
+    userCodeBlockTurns: z
+        .number()
+        .int()
+        .positive()
+        .default(5)
+        .describe(
+            "Number of turns after which fenced code blocks in user messages are truncated (requires pruneUserCodeBlocks)",
+        ),
     /** One-file-one-view: any file op supersedes ALL previous ops on same file */
     aggressiveFilePrune: z
         .boolean()
@@ -238,6 +408,13 @@ export const AggressivePruningSchema = z.object({
         .describe(
             "One-file-one-view: any file operation supersedes ALL previous operations on the same file",
         ),
+    /** How an edit treats the earlier read of the same file */
+    editReadMode: z
+        .enum(["supersede", "refresh"])
+        .default("supersede")
+        .describe(
+            "How an edit treats the earlier read of the same file: supersede prunes the read, refresh applies the edit to the cached read output and collapses the edit input",
+        ),
     /** State query supersede: ls, find, pwd, git status - keep only latest */
     stateQuerySupersede: z
         .boolean()
@@ -245,15 +422,46 @@ export const AggressivePruningSchema = z.object({
         .describe(
             "State query supersede: ls, find, pwd, git status - keep only the latest execution",
         ),
-    /** Truncate old error outputs to first line only */
+    /** Test/build run supersede: older runs collapse to a pass/fail summary */
+    runSupersede: z
+        .boolean()
+        .default(true)
+        .describe(
+            "Test/build run supersede: keep the latest full test and build run, collapse older runs to a pass/fail summary with failing test names",
+        ),
+    /** Token cap of the structural digest left in place of pruned tool outputs */
+    digestMaxTokens: z
+        .number()
+        .int()
+        .min(0)
+        .default(80)
+        .describe(
+            "Token cap of the structural digest (read outline, grep counts, glob tree, bash exit and last line) left in place of pruned or superseded tool outputs. 0 disables digests",
+        ),
+    /** Truncate old error outputs to first line plus innermost project frame */
     truncateOldErrors: z
         .boolean()
         .default(true)
-        .describe("Truncate old error outputs to first line only, removing stack traces"),
+        .describe(
+            "Truncate old error outputs to the first line plus the innermost project stack frame",
+        ),
+    /** Age in turns after which error outputs are truncated */
+    errorTruncateTurns: z
+        .number()
+        .int()
+        .positive()
+        .default(2)
+        .describe(
+            "Number of turns after which error outputs are reduced to their first line and innermost project frame (requires truncateOldErrors)",
+        ),
 })
 
 export const StrategiesSchema = z.object({
     purgeErrors: PurgeErrorsSchema,
+    budgetEviction: BudgetEvictionSchema,
+    decay: DecaySchema,
+    outputWindow: OutputWindowSchema,
+    supersedeRules: SupersedeRulesSchema,
     aggressivePruning: AggressivePruningSchema,
 })
 
@@ -288,6 +496,12 @@ export const PluginConfigSchema = z.object({
         ),
     tools: ToolsSchema,
     strategies: StrategiesSchema,
+    overrides: z
+        .record(z.string(), z.record(z.string(), z.unknown()))
+        .default({})
+        .describe(
+            "Partial config applied per agent (key is the agent name, e.g. 'plan') or per model (key is a 'provider/model' glob, e.g. 'anthropic/claude-*'). Model overrides apply first, then agent overrides",
+        ),
 })
 
 export type DiscardTool = z.infer<typeof DiscardToolSchema>
@@ -298,6 +512,10 @@ export type AutomataMode = z.infer<typeof AutomataModeSchema>
 export type Tools = z.infer<typeof ToolsSchema>
 export type Commands = z.infer<typeof CommandsSchema>
 export type PurgeErrors = z.infer<typeof PurgeErrorsSchema>
+export type BudgetEviction = z.infer<typeof BudgetEvictionSchema>
+export type Decay = z.infer<typeof DecaySchema>
+export type OutputWindow = z.infer<typeof OutputWindowSchema>
+export type SupersedeRule = z.infer<typeof SupersedeRuleSchema>
 export type AggressivePruning = z.infer<typeof AggressivePruningSchema>
 export type Strategies = z.infer<typeof StrategiesSchema>
 export type PluginConfig = z.infer<typeof PluginConfigSchema>
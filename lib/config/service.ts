@@ -1,6 +1,29 @@
+import { unwatchFile, watchFile, type Stats } from "fs"
 import { DEFAULT_CONFIG } from "./defaults.js"
-import { loadConfigFromFile } from "./loader.js"
+import { diffConfig, type ConfigChange } from "./diff.js"
+import { getConfigLayerPaths, loadResolvedConfig } from "./loader.js"
 import type { PluginConfig } from "./schema.js"
+import type { ConfigLayer, ConfigSource, ConfigSources } from "./sources.js"
+import type { ConfigDiagnostic } from "./validation.js"
+
+/**
+ * Config as accepted by hook factories: either a fixed object or a getter
+ * that returns the latest loaded config on every call.
+ */
+export type LiveConfig = PluginConfig | (() => PluginConfig)
+
+export function readLiveConfig(config: LiveConfig): PluginConfig {
+    return typeof config === "function" ? config() : config
+}
+
+export interface ConfigReloadResult {
+    config: PluginConfig
+    /** Values that differ from the previously loaded config */
+    changes: ConfigChange[]
+}
+
+// Poll interval for config file watching (fs.watchFile also notices files created later)
+const CONFIG_WATCH_INTERVAL_MS = 2000
 
 /**
  * Configuration Service with explicit lifecycle management.
@@ -9,7 +32,8 @@ import type { PluginConfig } from "./schema.js"
  * - Loading configuration from files
  * - Caching loaded configuration
  * - Providing access to current configuration
- * - Supporting hot-reload scenarios
+ * - Tracking where each value came from (default, preset or a config file layer)
+ * - Watching config files and hot-reloading them
  *
  * Usage:
  * ```typescript
@@ -20,17 +44,28 @@ import type { PluginConfig } from "./schema.js"
  */
 export class ConfigService {
     private config: PluginConfig | null = null
+    private sources: ConfigSources = {}
+    private layers: ConfigLayer[] = []
+    private diagnostics: ConfigDiagnostic[] = []
+    private diagnosticsReported = false
     private workspaceRoot: string | null = null
+    private watchedPaths: string[] = []
+    private watchListener: ((curr: Stats, prev: Stats) => void) | null = null
 
     /**
      * Load configuration from workspace directory.
-     * Loads and merges global + project configs with defaults.
+     * Loads and merges global + project configs and ACP_* environment
+     * variables (highest priority) with defaults.
      */
     load(workspaceRoot: string): PluginConfig {
         this.workspaceRoot = workspaceRoot
-        const configPath = `${workspaceRoot}/opencode.json`
 
-        this.config = loadConfigFromFile(configPath)
+        const resolved = loadResolvedConfig(workspaceRoot)
+        this.config = resolved.config
+        this.sources = resolved.sources
+        this.layers = resolved.layers
+        this.diagnostics = resolved.diagnostics
+        this.diagnosticsReported = false
 
         return this.config
     }
@@ -54,6 +89,56 @@ export class ConfigService {
         return this.config ?? DEFAULT_CONFIG
     }
 
+    /**
+     * Get the provenance of every resolved config value, keyed by dotted path.
+     */
+    getSources(): ConfigSources {
+        return this.sources
+    }
+
+    /**
+     * Get where a single config value came from.
+     * Example: getSource("strategies.aggressivePruning.pruneFiles") → "preset"
+     */
+    getSource(path: string): ConfigSource {
+        return this.sources[path] ?? "default"
+    }
+
+    /**
+     * Get the config files that contributed to the current configuration, in merge order.
+     */
+    getLayers(): ConfigLayer[] {
+        return this.layers
+    }
+
+    /**
+     * Get problems found while reading or validating config files.
+     * Invalid keys have already been replaced by their defaults.
+     */
+    getDiagnostics(): ConfigDiagnostic[] {
+        return this.diagnostics
+    }
+
+    /**
+     * Return diagnostics that have not been shown to the user yet, then mark
+     * them as reported. A later load() makes its diagnostics reportable again.
+     */
+    takeUnreportedDiagnostics(): ConfigDiagnostic[] {
+        if (this.diagnosticsReported) {
+            return []
+        }
+        this.diagnosticsReported = true
+        return this.diagnostics
+    }
+
+    /**
+     * Getter that always returns the latest loaded config.
+     * Pass this to hook factories so reloads take effect on the next turn.
+     */
+    getter(): () => PluginConfig {
+        return () => this.getOrDefault()
+    }
+
     /**
      * Check if configuration has been loaded.
      */
@@ -72,12 +157,68 @@ export class ConfigService {
         return this.load(this.workspaceRoot)
     }
 
+    /**
+     * Reload configuration from disk and report which values changed.
+     */
+    reloadWithChanges(): ConfigReloadResult {
+        const before = this.getOrDefault()
+        const config = this.reload()
+        return { config, changes: diffConfig(before, config) }
+    }
+
+    /**
+     * Watch all config layer files and reload when any of them changes.
+     * Files that do not exist yet are watched too, so creating one is picked up.
+     * Returns a function that stops watching.
+     */
+    watch(onReload?: (result: ConfigReloadResult) => void): () => void {
+        if (!this.workspaceRoot) {
+            throw new Error("ConfigService: Cannot watch - workspace root not set")
+        }
+
+        this.unwatch()
+
+        const listener = (curr: Stats, prev: Stats) => {
+            if (curr.mtimeMs === prev.mtimeMs) {
+                return
+            }
+            const result = this.reloadWithChanges()
+            onReload?.(result)
+        }
+
+        this.watchedPaths = getConfigLayerPaths(this.workspaceRoot).map((p) => p.path)
+        this.watchListener = listener
+        for (const path of this.watchedPaths) {
+            watchFile(path, { persistent: false, interval: CONFIG_WATCH_INTERVAL_MS }, listener)
+        }
+
+        return () => this.unwatch()
+    }
+
+    /**
+     * Stop watching config files.
+     */
+    unwatch(): void {
+        if (this.watchListener) {
+            for (const path of this.watchedPaths) {
+                unwatchFile(path, this.watchListener)
+            }
+        }
+        this.watchedPaths = []
+        this.watchListener = null
+    }
+
     /**
      * Reset to unloaded state.
      * Useful for testing.
      */
     reset(): void {
+        this.unwatch()
         this.config = null
+        this.sources = {}
+        this.layers = []
+        this.diagnostics = []
+        this.diagnosticsReported = false
         this.workspaceRoot = null
     }
 }
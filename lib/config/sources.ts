@@ -0,0 +1,89 @@
+import type { AggressivePruningFlag, PresetResolution } from "./presets.js"
+import { isPlainObject } from "../utils/object.js"
+
+/**
+ * Configuration provenance tracking.
+ * Records where each resolved config value came from, keyed by dotted path
+ * (e.g. "strategies.aggressivePruning.pruneFiles").
+ */
+
+/** Config layers, in merge order (later layers win) */
+export type ConfigLayerSource = "global" | "project" | "env"
+
+export type ConfigSource = "default" | "preset" | ConfigLayerSource
+
+export type ConfigSources = Record<string, ConfigSource>
+
+/**
+ * A single parsed config file, or the ACP_* environment variables.
+ */
+export interface ConfigLayer {
+    source: ConfigLayerSource
+    path: string
+    config: Record<string, unknown>
+}
+
+/**
+ * Collect dotted paths of all leaf values in a config object.
+ * Arrays are treated as leaves (they are replaced, never merged).
+ */
+export function collectConfigPaths(value: unknown, prefix = ""): string[] {
+    if (!isPlainObject(value)) {
+        return prefix ? [prefix] : []
+    }
+
+    const paths: string[] = []
+    for (const [key, child] of Object.entries(value)) {
+        const path = prefix ? `${prefix}.${key}` : key
+        paths.push(...collectConfigPaths(child, path))
+    }
+    return paths
+}
+
+/**
+ * Read a value from an object by dotted path. Returns undefined when any
+ * segment is missing.
+ */
+export function getConfigValue(value: unknown, path: string): unknown {
+    let current = value
+    for (const segment of path.split(".")) {
+        if (!isPlainObject(current)) return undefined
+        current = current[segment]
+    }
+    return current
+}
+
+/**
+ * Build the provenance map for a resolved config.
+ * A path belongs to the last layer that set it, to "preset" when preset
+ * resolution filled it in, and to "default" otherwise.
+ */
+export function buildConfigSources(
+    config: unknown,
+    layers: ConfigLayer[],
+    flagSources: PresetResolution["flagSources"] = {},
+): ConfigSources {
+    const sources: ConfigSources = {}
+    const presetPrefix = "strategies.aggressivePruning."
+
+    for (const path of collectConfigPaths(config)) {
+        if (path.startsWith(presetPrefix)) {
+            const flag = path.slice(presetPrefix.length) as AggressivePruningFlag
+            if (flagSources[flag] === "preset") {
+                sources[path] = "preset"
+                continue
+            }
+        }
+
+        sources[path] = "default"
+        for (let i = layers.length - 1; i >= 0; i--) {
+            const layer = layers[i]!
+            if (getConfigValue(layer.config, path) !== undefined) {
+                sources[path] = layer.source
+                break
+            }
+        }
+    }
+
+    return sources
+}
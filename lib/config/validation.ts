@@ -0,0 +1,147 @@
+import { PluginConfigSchema, type PluginConfig } from "./schema.js"
+import { DEFAULT_CONFIG } from "./defaults.js"
+import { applyPruningPreset, type PresetResolution } from "./presets.js"
+import { getConfigValue, type ConfigLayer } from "./sources.js"
+import { deepMerge, isPlainObject } from "../utils/object.js"
+
+/**
+ * Lenient, field-by-field config validation.
+ *
+ * Instead of rejecting the whole config when one key is invalid, each
+ * offending key is dropped from the layer that set it so its default applies,
+ * and a diagnostic is recorded for the user.
+ */
+
+export interface ConfigDiagnostic {
+    /** Dotted path of the offending key ("" for file-level problems) */
+    path: string
+    message: string
+    /** Config file the problem came from, when known */
+    file?: string
+}
+
+export interface LenientValidationResult {
+    config: PluginConfig
+    /** Layers with invalid keys removed */
+    layers: ConfigLayer[]
+    flagSources: PresetResolution["flagSources"]
+    diagnostics: ConfigDiagnostic[]
+}
+
+// Each pass removes at least one key, so this only guards against pathological schemas
+const MAX_VALIDATION_PASSES = 25
+
+function mergeLayers(layers: ConfigLayer[]): Record<string, unknown> {
+    return layers.reduce<Record<string, unknown>>(
+        (merged, layer) => deepMerge(merged, layer.config),
+        {},
+    )
+}
+
+/**
+ * Map a zod issue path to the user key that should be dropped.
+ * Paths into arrays are cut at the array so the whole list falls back,
+ * then shortened until they name a key the user actually set.
+ */
+function toRemovalPath(userConfig: Record<string, unknown>, issuePath: PropertyKey[]): string[] {
+    const path: string[] = []
+    for (const segment of issuePath) {
+        if (typeof segment !== "string") break
+        path.push(segment)
+    }
+
+    while (path.length > 0 && getConfigValue(userConfig, path.join(".")) === undefined) {
+        path.pop()
+    }
+    return path
+}
+
+function omitPath(value: Record<string, unknown>, path: string[]): Record<string, unknown> {
+    const [head, ...rest] = path
+    if (head === undefined || !Object.hasOwn(value, head)) {
+        return value
+    }
+
+    const child = value[head]
+    if (rest.length > 0 && isPlainObject(child)) {
+        return { ...value, [head]: omitPath(child, rest) }
+    }
+    return Object.fromEntries(Object.entries(value).filter(([key]) => key !== head))
+}
+
+/** Index of the last layer that sets `path`, i.e. the one whose value wins */
+function findSettingLayer(layers: ConfigLayer[], path: string): number {
+    for (let i = layers.length - 1; i >= 0; i--) {
+        if (getConfigValue(layers[i]!.config, path) !== undefined) {
+            return i
+        }
+    }
+    return -1
+}
+
+/**
+ * Validate config layers, dropping invalid keys until the merged config parses.
+ * Presets are resolved against the merged user layers before defaults are applied.
+ */
+export function validateLayersLeniently(layers: ConfigLayer[]): LenientValidationResult {
+    const diagnostics: ConfigDiagnostic[] = []
+    let current = layers
+
+    for (let pass = 0; pass < MAX_VALIDATION_PASSES; pass++) {
+        const userConfig = mergeLayers(current)
+        const { rawConfig, flagSources } = applyPruningPreset(userConfig)
+        const result = PluginConfigSchema.safeParse(deepMerge(DEFAULT_CONFIG, rawConfig))
+
+        if (result.success) {
+            return { config: result.data, layers: current, flagSources, diagnostics }
+        }
+
+        const removals = new Map<string, { path: string[]; layerIndex: number }>()
+        for (const issue of result.error.issues) {
+            const removal = toRemovalPath(userConfig, issue.path)
+            const key = removal.join(".")
+            if (removal.length === 0 || removals.has(key)) continue
+
+            const layerIndex = findSettingLayer(current, key)
+            removals.set(key, { path: removal, layerIndex })
+            diagnostics.push({
+                path: key,
+                message: issue.message,
+                file: current[layerIndex]?.path || undefined,
+            })
+        }
+
+        if (removals.size === 0) {
+            break
+        }
+
+        // Drop the value only from the layer that set it; a value from an
+        // earlier layer then applies and is validated on the next pass
+        current = current.map((layer, index) => {
+            let config = layer.config
+            for (const removal of removals.values()) {
+                if (removal.layerIndex === index) {
+                    config = omitPath(config, removal.path)
+                }
+            }
+            return { ...layer, config }
+        })
+    }
+
+    diagnostics.push({ path: "", message: "Config could not be validated, using defaults" })
+    return { config: DEFAULT_CONFIG, layers: [], flagSources: {}, diagnostics }
+}
+
+/**
+ * Format diagnostics as a user-facing message
+ */
+export function formatConfigDiagnostics(diagnostics: ConfigDiagnostic[]): string {
+    const lines = diagnostics.map((d) => {
+        const where = d.file ? ` (${d.file})` : ""
+        return d.path ? `  • ${d.path}: ${d.message}${where}` : `  • ${d.message}${where}`
+    })
+    return [
+        "ACP config warnings — invalid settings were ignored and defaults used instead:",
+        ...lines,
+    ].join("\n")
+}
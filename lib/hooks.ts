@@ -1,9 +1,17 @@
 import type { SessionState, WithParts, ToolParameterEntry } from "./state"
 import type { Logger } from "./logger"
-import type { PluginConfig } from "./config"
+import type { ConfigDiagnostic, ConfigService, LiveConfig, PluginConfig } from "./config"
+import { formatConfigDiagnostics, getEffectiveConfig, readLiveConfig } from "./config"
 import type { OpenCodeClient } from "./client"
 import { syncSessionState } from "./state/index"
-import { purgeErrors } from "./strategies"
+import {
+    budgetEviction,
+    decayToolOutputs,
+    pruneUserCodeBlocks,
+    purgeErrors,
+    truncateOldErrors,
+    windowToolOutputs,
+} from "./strategies"
 import {
     prune,
     injectHashesIntoToolOutputs,
@@ -16,11 +24,20 @@ import {
     stripAllHashTagsFromMessages,
     scanAndRegisterHashTags,
     applyPatternReplacements,
+    maskFileParts,
+    filterStepMarkers,
 } from "./messages"
 import { loadPrompt } from "./prompts"
 import { handleStatsCommand } from "./commands/stats"
+import { handleReloadCommand } from "./commands/reload"
+import { handleMigrateCommand } from "./commands/migrate"
+import { handleSweepCommand } from "./commands/sweep"
+import { handleListCommand } from "./commands/list"
+import { handleRestoreCommand } from "./commands/restore"
+import { handlePinCommand } from "./commands/pin"
+import { handleConfigCommand } from "./commands/config"
 import { safeExecute } from "./safe-execute"
-import { sendUnifiedNotification } from "./ui/notification"
+import { sendIgnoredMessage, sendUnifiedNotification } from "./ui/notification"
 import { getCurrentParams } from "./strategies/utils"
 import { saveSessionState } from "./state/persistence"
 import { isSyntheticMessage } from "./shared-utils"
@@ -34,21 +51,52 @@ type Strategy = (
 
 const PRUNE_STRATEGIES: Record<string, Strategy> = {
     purgeErrors,
+    truncateOldErrors,
+    pruneUserCodeBlocks,
+    decayToolOutputs,
+    budgetEviction,
     prune,
 }
 
+type DecayCounts = Record<keyof SessionState["stats"]["strategyStats"]["decay"], number>
+
+/** Transition counts per decay tier, to find the tiers a strategy run reached */
+function getDecayCounts(state: SessionState): DecayCounts {
+    const { excerpt, digest, remove } = state.stats.strategyStats.decay
+    return { excerpt: excerpt.count, digest: digest.count, remove: remove.count }
+}
+
 const INTERNAL_AGENT_SIGNATURES = [
     "You are a title generator",
     "You are a helpful AI assistant tasked with summarizing conversations",
     "Summarize what was done in this conversation",
 ]
 
+/**
+ * Pick the config for the agent and model of the current turn, applying any
+ * matching `overrides`. Values missing from `params` fall back to the ones
+ * cached by the chat.message hook.
+ */
+export function getTurnConfig(
+    liveConfig: LiveConfig,
+    state: SessionState,
+    params: { agent?: string; providerId?: string; modelId?: string } = {},
+): PluginConfig {
+    return getEffectiveConfig(readLiveConfig(liveConfig), {
+        agent: params.agent ?? state.agent,
+        providerId: params.providerId ?? state.model?.providerID,
+        modelId: params.modelId ?? state.model?.modelID,
+    })
+}
+
 export function createSystemPromptHandler(
     state: SessionState,
     logger: Logger,
-    config: PluginConfig,
+    liveConfig: LiveConfig,
 ): (_input: unknown, output: { system: string[] }) => Promise<void> {
     return async (_input: unknown, output: { system: string[] }): Promise<void> => {
+        const config = getTurnConfig(liveConfig, state)
+
         if (state.isSubAgent) {
             return
         }
@@ -72,12 +120,22 @@ export function createChatMessageTransformHandler(
     client: OpenCodeClient,
     state: SessionState,
     logger: Logger,
-    config: PluginConfig,
+    liveConfig: LiveConfig,
 ): (_input: Record<string, unknown>, output: { messages: WithParts[] }) => Promise<void> {
     return async (
         _input: Record<string, unknown>,
         output: { messages: WithParts[] },
     ): Promise<void> => {
+        // Read once per turn so a reloaded config applies from the next turn on
+        const config = getTurnConfig(
+            liveConfig,
+            state,
+            getCurrentParams(state, output.messages, logger),
+        )
+        if (!config.enabled) {
+            return
+        }
+
         await syncSessionState(client, state, config, logger, output.messages)
 
         if (state.isSubAgent) {
@@ -106,6 +164,13 @@ export function createChatMessageTransformHandler(
             )
         }
 
+        // Cap oversized tool outputs (before hashes, so the hash tag stays last)
+        safeExecute(
+            () => windowToolOutputs(state, logger, config, output.messages),
+            logger,
+            "windowToolOutputs",
+        )
+
         // Inject hashes into tool outputs (before any pruning)
         safeExecute(
             () => injectHashesIntoToolOutputs(state, config, output.messages, logger),
@@ -140,6 +205,13 @@ export function createChatMessageTransformHandler(
             safeExecute(() => strategy(state, logger, config, output.messages), logger, name)
         }
 
+        // Mask all but the latest file attachments
+        safeExecute(
+            () => maskFileParts(output.messages, config, logger, state),
+            logger,
+            "maskFileParts",
+        )
+
         // Apply pattern-based replacements (stored in state.prune.replacements)
         safeExecute(
             () => {
@@ -171,6 +243,14 @@ export function createChatMessageTransformHandler(
             "injectAutomataReflection",
         )
 
+        // Filter step markers last: countTurns and the turn-based strategies
+        // above count step-start parts
+        safeExecute(
+            () => filterStepMarkers(output.messages, config, logger, state),
+            logger,
+            "filterStepMarkers",
+        )
+
         // CRITICAL: Strip all hash tags before output to prevent leakage
         // Hash tags are for internal tracking only - must never reach users/LLM
         safeExecute(
@@ -198,18 +278,64 @@ export function createChatMessageTransformHandler(
     }
 }
 
+export interface ChatMessageInput {
+    sessionID: string
+    agent?: string
+    model?: { providerID: string; modelID: string }
+    messageID?: string
+    variant?: string
+}
+
+export function createChatMessageHandler(
+    client: OpenCodeClient,
+    state: SessionState,
+    logger: Logger,
+    takeConfigDiagnostics: () => ConfigDiagnostic[],
+): (input: ChatMessageInput) => Promise<void> {
+    return async (input: ChatMessageInput): Promise<void> => {
+        // Cache variant from real user messages (not synthetic)
+        // This avoids scanning all messages to find variant
+        state.variant = input.variant
+        logger.debug("Cached variant from chat.message hook", { variant: input.variant })
+
+        // Cache agent and model so handlers can apply per-agent/per-model overrides
+        state.agent = input.agent
+        state.model = input.model
+
+        // Report ignored config settings once per (re)load, in the next session turn
+        const configDiagnostics = takeConfigDiagnostics()
+        if (configDiagnostics.length > 0) {
+            await sendIgnoredMessage(
+                client,
+                input.sessionID,
+                formatConfigDiagnostics(configDiagnostics),
+                {
+                    agent: input.agent,
+                    variant: input.variant,
+                    providerId: input.model?.providerID,
+                    modelId: input.model?.modelID,
+                },
+                logger,
+            )
+        }
+    }
+}
+
 export function createCommandExecuteHandler(
     client: OpenCodeClient,
     state: SessionState,
     logger: Logger,
-    config: PluginConfig,
+    liveConfig: LiveConfig,
     workingDirectory: string,
+    configService?: ConfigService,
 ): (input: { command: string; sessionID: string; arguments: string }) => Promise<void> {
     return async (input: {
         command: string
         sessionID: string
         arguments: string
     }): Promise<void> => {
+        const config = readLiveConfig(liveConfig)
+
         if (!config.commands.enabled) {
             return
         }
@@ -217,7 +343,7 @@ export function createCommandExecuteHandler(
         if (input.command === "acp") {
             const args = (input.arguments || "").trim().split(/\s+/).filter(Boolean)
             const subcommand = args[0]?.toLowerCase() || ""
-            const _subArgs = args.slice(1)
+            const subArgs = args.slice(1)
 
             const messagesResponse = await client.session.messages({
                 path: { id: input.sessionID },
@@ -235,6 +361,94 @@ export function createCommandExecuteHandler(
                 throw new Error("__ACP_STATS_HANDLED__")
             }
 
+            if (subcommand === "config") {
+                await handleConfigCommand({
+                    client,
+                    state,
+                    logger,
+                    sessionId: input.sessionID,
+                    messages,
+                    configService,
+                })
+                throw new Error("__ACP_CONFIG_HANDLED__")
+            }
+
+            if (subcommand === "reload") {
+                await handleReloadCommand({
+                    client,
+                    state,
+                    logger,
+                    sessionId: input.sessionID,
+                    messages,
+                    configService,
+                })
+                throw new Error("__ACP_RELOAD_HANDLED__")
+            }
+
+            if (subcommand === "migrate") {
+                await handleMigrateCommand({
+                    client,
+                    state,
+                    logger,
+                    sessionId: input.sessionID,
+                    messages,
+                    configService,
+                })
+                throw new Error("__ACP_MIGRATE_HANDLED__")
+            }
+
+            if (subcommand === "sweep") {
+                await handleSweepCommand({
+                    client,
+                    state,
+                    logger,
+                    sessionId: input.sessionID,
+                    messages,
+                    config,
+                    workingDirectory,
+                    args: subArgs,
+                })
+                throw new Error("__ACP_SWEEP_HANDLED__")
+            }
+
+            if (subcommand === "list") {
+                await handleListCommand({
+                    client,
+                    state,
+                    logger,
+                    sessionId: input.sessionID,
+                    messages,
+                    config,
+                    workingDirectory,
+                })
+                throw new Error("__ACP_LIST_HANDLED__")
+            }
+
+            if (subcommand === "restore") {
+                await handleRestoreCommand({
+                    client,
+                    state,
+                    logger,
+                    sessionId: input.sessionID,
+                    messages,
+                    args: subArgs,
+                })
+                throw new Error("__ACP_RESTORE_HANDLED__")
+            }
+
+            if (subcommand === "pin" || subcommand === "unpin") {
+                await handlePinCommand({
+                    client,
+                    state,
+                    logger,
+                    sessionId: input.sessionID,
+                    messages,
+                    args: subArgs,
+                    pinned: subcommand === "pin",
+                })
+                throw new Error("__ACP_PIN_HANDLED__")
+            }
+
             // Unknown subcommand - show stats anyway
             await handleStatsCommand({
                 client,
@@ -252,11 +466,12 @@ export function createToolExecuteAfterHandler(
     client: OpenCodeClient,
     state: SessionState,
     logger: Logger,
-    config: PluginConfig,
+    liveConfig: LiveConfig,
     workingDirectory: string,
 ): (input: { tool: string; sessionID: string; callID: string }) => Promise<void> {
     return async (input: { tool: string; sessionID: string; callID: string }): Promise<void> => {
-        if (!config.enabled) {
+        // The chat.message hook has cached the agent and model of this turn
+        if (!getTurnConfig(liveConfig, state).enabled) {
             return
         }
 
@@ -272,12 +487,15 @@ export function createToolExecuteAfterHandler(
                 path: { id: sessionId },
             })
             const messages: WithParts[] = (messagesResponse.data || messagesResponse) as WithParts[]
+            const currentParams = getCurrentParams(state, messages, logger)
+            const config = getTurnConfig(liveConfig, state, currentParams)
 
             // Sync session and tool cache
             await syncSessionState(client, state, config, logger, messages)
 
-            // Store initial prune count to detect changes
+            // Store initial prune and decay counts to detect changes
             const initialPruneCount = state.prune.toolIds.length + state.prune.messagePartIds.length
+            const initialDecayCounts = getDecayCounts(state)
 
             // Run strategies in pipeline
             for (const [name, strategy] of Object.entries(PRUNE_STRATEGIES)) {
@@ -287,10 +505,16 @@ export function createToolExecuteAfterHandler(
             // Check if anything was pruned
             const newPruneCount = state.prune.toolIds.length + state.prune.messagePartIds.length
             const newlyPrunedCount = newPruneCount - initialPruneCount
+            // Excerpt and digest transitions rewrite outputs without pruning them
+            const decayCounts = getDecayCounts(state)
+            const decayTier = (["remove", "digest", "excerpt"] as const).find(
+                (tier) => decayCounts[tier] > initialDecayCounts[tier],
+            )
 
-            if (newlyPrunedCount > 0) {
+            if (newlyPrunedCount > 0 || decayTier) {
                 // Get the newly pruned IDs
-                const newlyPrunedIds = state.prune.toolIds.slice(-newlyPrunedCount)
+                const newlyPrunedIds =
+                    newlyPrunedCount > 0 ? state.prune.toolIds.slice(-newlyPrunedCount) : []
 
                 // Collect metadata for notification
                 const toolMetadata = new Map<string, ToolParameterEntry>()
@@ -301,7 +525,9 @@ export function createToolExecuteAfterHandler(
                     }
                 }
 
-                const currentParams = getCurrentParams(state, messages, logger)
+                const budgetEvicted = newlyPrunedIds.some(
+                    (callId) => state.pruneRecords.get(callId)?.bucket === "budgetEviction",
+                )
 
                 // Send simplified notification
                 await sendUnifiedNotification(
@@ -310,6 +536,11 @@ export function createToolExecuteAfterHandler(
                     config,
                     {
                         state,
+                        reason: budgetEvicted
+                            ? "budget"
+                            : decayTier
+                              ? `decay.${decayTier}`
+                              : undefined,
                         pruneToolIds: newlyPrunedIds,
                         toolMetadata,
                         workingDirectory,
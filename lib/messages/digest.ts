@@ -0,0 +1,214 @@
+/**
+ * Structural digests of tool outputs, used as the placeholder text of pruned
+ * and superseded tool calls so the model keeps the gist of what it saw.
+ * Digests are built locally from the output; tools without a digest keep the
+ * plain placeholder.
+ */
+
+import type { PluginConfig } from "../config"
+import { countTokens } from "../strategies/utils"
+import { truncate } from "../utils/string"
+import { NUMBERED_LINE_PATTERN } from "../state/read-ranges"
+import { stripHashTags } from "../state/hash-registry"
+
+/** Digest token cap when aggressivePruning.digestMaxTokens is not set */
+const DEFAULT_DIGEST_MAX_TOKENS = 80
+
+/** Output left by supersedeToolCall, optionally followed by its digest */
+const SUPERSEDED_OUTPUT_PATTERN = /^\[auto-superseded: [^\n]*\](?:\n([\s\S]+))?$/
+
+/** Exported top-level symbols: [pattern, kind group, name group] */
+const SYMBOL_PATTERNS: [RegExp, number, number][] = [
+    [
+        /^export\s+(?:default\s+)?(?:declare\s+)?(?:async\s+)?(function\*?|abstract class|class|const|let|var|interface|type|enum|namespace)\s+([\w$]+)/,
+        1,
+        2,
+    ],
+    [/^(def|class)\s+([A-Za-z]\w*)/, 1, 2],
+    [/^(func)\s+(?:\([^)]*\)\s*)?([A-Z]\w*)/, 1, 2],
+    [/^(type)\s+([A-Z]\w*)/, 1, 2],
+    [/^pub\s+(?:async\s+)?(fn|struct|enum|trait|type|const|mod)\s+(\w+)/, 1, 2],
+]
+
+/** Lines with no letters or digits (separators, box drawing) */
+const DECORATION_PATTERN = /^[^\p{L}\p{N}]*$/u
+
+export interface ToolPartLike {
+    tool: string
+    state: {
+        status: string
+        input?: Record<string, unknown>
+        output?: string
+        metadata?: Record<string, unknown>
+    }
+}
+
+/**
+ * Join a header and a list of items, dropping items from the end (counted as
+ * "+N more") until the digest fits in maxTokens. Returns null when even the
+ * header does not fit.
+ */
+function fitDigest(header: string, items: string[], maxTokens: number): string | null {
+    for (let kept = items.length; kept >= 0; kept--) {
+        const shown = items.slice(0, kept)
+        if (kept < items.length) shown.push(`+${items.length - kept} more`)
+        const digest = shown.length > 0 ? `${header}\n${shown.join(", ")}` : header
+        if (countTokens(digest) <= maxTokens) return digest
+    }
+    return null
+}
+
+function stringParam(input: Record<string, unknown> | undefined, key: string): string {
+    const value = input?.[key]
+    return typeof value === "string" ? value : ""
+}
+
+/**
+ * read: line count and the exported symbols with their line numbers.
+ */
+export function digestRead(filePath: string, output: string, maxTokens: number): string | null {
+    const symbols: string[] = []
+    let lineCount = 0
+    for (const line of output.split("\n")) {
+        const numbered = line.match(NUMBERED_LINE_PATTERN)
+        if (!numbered) continue
+        const lineNumber = Number(numbered[1])
+        lineCount = Math.max(lineCount, lineNumber)
+        for (const [pattern, kindGroup, nameGroup] of SYMBOL_PATTERNS) {
+            const match = numbered[3]!.match(pattern)
+            if (match) {
+                symbols.push(`${match[kindGroup]} ${match[nameGroup]}:${lineNumber}`)
+                break
+            }
+        }
+    }
+    if (lineCount === 0) return null
+
+    const total = output.match(/total (\d+) lines/)
+    const lines = total ? Number(total[1]) : lineCount
+    const header = `${filePath || "file"} · ${lines} lines${symbols.length > 0 ? " · exports:" : ""}`
+    return fitDigest(header, symbols, maxTokens)
+}
+
+/**
+ * grep: match counts per file, most matches first.
+ */
+export function digestGrep(pattern: string, output: string, maxTokens: number): string | null {
+    const counts = new Map<string, number>()
+    let current: string | null = null
+    for (const line of output.split("\n")) {
+        const header = line.match(/^(\S.*):$/)
+        if (header) {
+            current = header[1]!
+            continue
+        }
+        if (current && /^\s+Line \d+:/.test(line)) {
+            counts.set(current, (counts.get(current) ?? 0) + 1)
+            continue
+        }
+        const inline = line.match(/^(.+?):\d+:/)
+        if (inline) {
+            counts.set(inline[1]!, (counts.get(inline[1]!) ?? 0) + 1)
+        }
+    }
+    if (counts.size === 0) return null
+
+    const files = [...counts].sort((a, b) => b[1] - a[1])
+    const total = files.reduce((sum, [, count]) => sum + count, 0)
+    return fitDigest(
+        `grep "${truncate(pattern, 40)}" · ${total} matches in ${files.length} files:`,
+        files.map(([file, count]) => `${file} (${count})`),
+        maxTokens,
+    )
+}
+
+/**
+ * glob: the matched files collapsed to their directories, with file counts.
+ */
+export function digestGlob(pattern: string, output: string, maxTokens: number): string | null {
+    const paths = output
+        .split("\n")
+        .map((line) => line.trim())
+        .filter((line) => line && !line.startsWith("(") && !/^no files found/i.test(line))
+    if (paths.length === 0) return null
+
+    const dirs = new Map<string, number>()
+    for (const path of paths) {
+        const slash = path.lastIndexOf("/")
+        const dir = slash === -1 ? "." : path.slice(0, slash + 1)
+        dirs.set(dir, (dirs.get(dir) ?? 0) + 1)
+    }
+
+    // Show directories relative to their common parent
+    const sorted = [...dirs.keys()].sort()
+    let root = sorted[0]!
+    for (const dir of sorted) {
+        while (!dir.startsWith(root)) {
+            root = root.slice(0, root.slice(0, -1).lastIndexOf("/") + 1)
+        }
+    }
+
+    return fitDigest(
+        `glob "${truncate(pattern, 40)}" · ${paths.length} files${root ? ` under ${root}` : ""}:`,
+        sorted.map((dir) => `${dir.slice(root.length) || "./"} (${dirs.get(dir)})`),
+        maxTokens,
+    )
+}
+
+/**
+ * bash: exit status and the last meaningful output line.
+ */
+export function digestBash(
+    command: string,
+    output: string,
+    exit: number | undefined,
+    maxTokens: number,
+): string | null {
+    const lastLine = output
+        .split("\n")
+        .map((line) => line.trim())
+        .reverse()
+        .find((line) => !DECORATION_PATTERN.test(line))
+    const status = exit === undefined ? "exit ?" : `exit ${exit}`
+    const header = `$ ${truncate(command, 60)} · ${status}`
+    return fitDigest(header, lastLine ? [truncate(lastLine, 120)] : [], maxTokens)
+}
+
+export function getDigestMaxTokens(config: PluginConfig): number {
+    return config.strategies?.aggressivePruning?.digestMaxTokens ?? DEFAULT_DIGEST_MAX_TOKENS
+}
+
+/**
+ * Digest of a tool call's output within maxTokens, or null when the tool has
+ * no digest, the output has no structure to summarize, or maxTokens is 0.
+ * An output already replaced by supersedeToolCall yields the digest it carries.
+ */
+export function createToolDigest(part: ToolPartLike, maxTokens: number): string | null {
+    const { input, metadata } = part.state
+    if (maxTokens <= 0 || part.state.status !== "completed" || !part.state.output) return null
+
+    const output = stripHashTags(part.state.output)
+
+    const superseded = output.match(SUPERSEDED_OUTPUT_PATTERN)
+    if (superseded) return superseded[1] ?? null
+
+    switch (part.tool) {
+        case "read":
+            return digestRead(stringParam(input, "filePath"), output, maxTokens)
+        case "grep":
+            return digestGrep(stringParam(input, "pattern"), output, maxTokens)
+        case "glob":
+            return digestGlob(stringParam(input, "pattern"), output, maxTokens)
+        case "bash": {
+            const exit = metadata?.exit
+            return digestBash(
+                stringParam(input, "command"),
+                output,
+                typeof exit === "number" ? exit : undefined,
+                maxTokens,
+            )
+        }
+        default:
+            return null
+    }
+}
@@ -5,6 +5,8 @@ export {
     injectHashesIntoReasoningBlocks,
     ensureReasoningContentSync,
     stripAllHashTagsFromMessages,
+    maskFileParts,
+    filterStepMarkers,
 } from "./prune"
 export { stripHashTags } from "../state/hash-registry"
 export { applyPatternReplacements } from "../strategies/replace"
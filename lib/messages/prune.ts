@@ -1,41 +1,52 @@
 import type { SessionState, WithParts, ReplacementEntry } from "../state"
-import type { Part } from "@opencode-ai/sdk/v2"
+import type { FilePart, Part } from "@opencode-ai/sdk/v2"
 import type { Logger } from "../logger"
 import type { PluginConfig } from "../config"
 import { isMessageCompacted, isMessageCompleted } from "../shared-utils"
 import { generatePartHash } from "../utils/hash"
-import { getPruneCache } from "../state/utils"
+import { getPruneCache, recordRewriteOnce } from "../state/utils"
+import { countTokens } from "../strategies/utils"
 import { findInternalTags } from "./utils"
 import { stripHashTags, stripHashTagsSelective } from "../state/hash-registry"
+import { createToolDigest, getDigestMaxTokens } from "./digest"
 
 /**
  * Filter out step-start and step-finish parts from messages.
  * These are structural markers that consume tokens but provide no semantic value.
  * Should be called during context rendering when pruneStepMarkers is enabled.
+ *
+ * countTurns and the turn-based strategies count step-start parts, so this must
+ * run after them. The stats show the markers filtered from the current
+ * messages; markers are not recorded one by one.
  */
 export const filterStepMarkers = (
     messages: WithParts[],
     config: PluginConfig,
     logger: Logger,
+    state: SessionState,
 ): void => {
     if (!config.strategies.aggressivePruning?.pruneStepMarkers) {
         return
     }
 
     let totalRemoved = 0
+    let removedTokens = 0
     for (const msg of messages) {
         const parts = Array.isArray(msg.parts) ? msg.parts : []
-        const originalLength = parts.length
 
         msg.parts = parts.filter((part) => {
-            if (part.type === "step-start" || part.type === "step-finish") {
-                return false
+            if (part.type !== "step-start" && part.type !== "step-finish") {
+                return true
             }
-            return true
+
+            totalRemoved++
+            removedTokens += countTokens(JSON.stringify(part))
+            return false
         })
     }
 
     if (totalRemoved > 0) {
+        state.stats.strategyStats.stepMarkers = { count: totalRemoved, tokens: removedTokens }
         logger.debug(`Filtered ${totalRemoved} step marker parts`)
     }
 }
@@ -62,11 +73,12 @@ function createPrunedPlaceholder(originalText: string): string {
 }
 
 /**
- * Create a pruned tool placeholder showing tool name for layout consistency.
- * Format: "[read() output pruned]" or "[glob() output pruned]"
+ * Create a pruned tool placeholder showing tool name for layout consistency,
+ * followed by the structural digest of the output when there is one.
+ * Format: "[read() output pruned]" or "[glob() output pruned]\n<digest>"
  */
-function createPrunedToolPlaceholder(toolName: string): string {
-    return `[${toolName}() output pruned]`
+function createPrunedToolPlaceholder(toolName: string, digest: string | null = null): string {
+    return digest ? `[${toolName}() output pruned]\n${digest}` : `[${toolName}() output pruned]`
 }
 /** Self-closing hash reference: \n<acp:type prunable_hash="x"/> */
 const createHashRef = (type: string, hash: string): string =>
@@ -79,43 +91,83 @@ const hasHashTag = (content: string, type: string, hash: string): boolean => {
     return regex.test(content)
 }
 
+/** Rough token cost of an image attachment; the real cost depends on its size */
+const IMAGE_TOKEN_ESTIMATE = 1500
+
+interface AttachmentRef {
+    file: FilePart
+    /** Replace the attachment with its breadcrumb */
+    mask: (breadcrumb: string) => void
+}
+
 /**
- * Check if a part is a file attachment part.
- * File parts contain binary or large data that can be masked.
+ * Collect file attachments in message order: user file parts and the
+ * attachments of completed tool calls.
  */
-function isFilePart(part: Part): boolean {
-    return (
-        part.type === "file" ||
-        (part.type === "tool" &&
-            part.state?.status === "completed" &&
-            (part.state as any).attachments !== undefined)
-    )
+function collectAttachments(state: SessionState, messages: WithParts[]): AttachmentRef[] {
+    const refs: AttachmentRef[] = []
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) continue
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        parts.forEach((part, index) => {
+            if (part.type === "file") {
+                refs.push({
+                    file: part,
+                    mask: (breadcrumb) => {
+                        parts[index] = {
+                            id: part.id,
+                            sessionID: part.sessionID,
+                            messageID: part.messageID,
+                            type: "text",
+                            text: breadcrumb,
+                        }
+                    },
+                })
+            } else if (part.type === "tool" && part.state?.status === "completed") {
+                const completed = part.state
+                for (const file of completed.attachments ?? []) {
+                    refs.push({
+                        file,
+                        mask: (breadcrumb) => {
+                            completed.attachments = completed.attachments?.filter((f) => f !== file)
+                            completed.output = `${completed.output}\n${breadcrumb}`
+                        },
+                    })
+                }
+            }
+        })
+    }
+    return refs
 }
 
 /**
- * Create a breadcrumb for a file part.
- * Returns a short summary like "[File: image.png, 12KB]" or "[2 attachments]"
+ * Create a breadcrumb for a file attachment.
+ * Returns a short summary like "[File: image.png, image/png]"
  */
-function createFilePartBreadcrumb(part: Part): string {
-    if (part.type === "file") {
-        const filePart = part as any
-        const name = filePart.name || filePart.url || "unnamed"
-        const size = filePart.size ? `${Math.round(filePart.size / 1024)}KB` : "unknown size"
-        return `[File: ${name}, ${size}]`
-    }
+function createFilePartBreadcrumb(file: FilePart): string {
+    const name = file.filename || (file.url.startsWith("data:") ? "unnamed" : file.url)
+    return `[File: ${name}, ${file.mime}]`
+}
 
-    if (part.type === "tool" && (part.state as any)?.attachments) {
-        const attachments = (part.state as any).attachments
-        const count = Array.isArray(attachments) ? attachments.length : 1
-        return `[${count} file attachment${count > 1 ? "s" : ""}]`
+/**
+ * Estimate the tokens an attachment costs. Images get a flat estimate, other
+ * data URLs are estimated from their decoded size.
+ */
+function estimateFilePartTokens(file: FilePart): number {
+    if (file.mime.startsWith("image/")) {
+        return IMAGE_TOKEN_ESTIMATE
     }
-
-    return "[file]"
+    if (!file.url.startsWith("data:")) {
+        return 0
+    }
+    const base64Length = file.url.length - file.url.indexOf(",") - 1
+    return Math.round((base64Length * 0.75) / 4)
 }
 
 /**
  * Mask file parts in messages to save context.
- * Replaces file attachments with breadcrumbs.
+ * Replaces all but the latest `keepLatestAttachments` attachments with
+ * breadcrumbs. Tool calls keep their output; only the attachment is removed.
  * Should be called during context rendering when pruneFiles is enabled.
  */
 export const maskFileParts = (
@@ -124,35 +176,31 @@ export const maskFileParts = (
     logger: Logger,
     state: SessionState,
 ): void => {
-    if (!config.strategies.aggressivePruning?.pruneFiles) {
+    const aggressive = config.strategies.aggressivePruning
+    if (!aggressive?.pruneFiles) {
         return
     }
 
-    let totalMasked = 0
-    for (const msg of messages) {
-        const parts = Array.isArray(msg.parts) ? msg.parts : []
-        for (let i = 0; i < parts.length; i++) {
-            const part = parts[i]
-            if (part && isFilePart(part)) {
-                const breadcrumb = createFilePartBreadcrumb(part)
-                const hash = generatePartHash(JSON.stringify(part))
+    const attachments = collectAttachments(state, messages)
+    const toMask = attachments.slice(
+        0,
+        Math.max(0, attachments.length - aggressive.keepLatestAttachments),
+    )
 
-                // Store the masked part hash in registry
-                state.hashRegistry.fileParts.set(hash, breadcrumb)
+    for (const { file, mask } of toMask) {
+        const breadcrumb = createFilePartBreadcrumb(file)
+        const hash = generatePartHash(file.url)
 
-                // Replace with breadcrumb part
-                parts[i] = {
-                    type: "text" as const,
-                    text: breadcrumb,
-                } as any
+        // Store the masked part hash in registry
+        state.hashRegistry.fileParts.set(hash, breadcrumb)
 
-                totalMasked++
-            }
-        }
+        recordRewriteOnce(state, "file:", hash, "fileParts", estimateFilePartTokens(file))
+
+        mask(breadcrumb)
     }
 
-    if (totalMasked > 0) {
-        logger.debug(`Masked ${totalMasked} file parts`)
+    if (toMask.length > 0) {
+        logger.debug(`Masked ${toMask.length} file parts`)
     }
 }
 
@@ -718,7 +766,10 @@ export const prune = (
             // Handle pruned tool parts - replace with placeholder for layout consistency
             if (part.type === "tool" && part.callID && prunedToolIds.has(part.callID)) {
                 const toolName = part.tool || "tool"
-                const placeholder = createPrunedToolPlaceholder(toolName)
+                const placeholder = createPrunedToolPlaceholder(
+                    toolName,
+                    createToolDigest(part, getDigestMaxTokens(config)),
+                )
                 // Replace the tool part with a text placeholder part
                 parts[partIndex] = {
                     type: "text" as const,
@@ -2,7 +2,7 @@ import type { SessionState, WithParts } from "../state/types"
 import type { PluginConfig } from "../config"
 import type { Logger } from "../logger"
 import { isMessageCompacted } from "../shared-utils"
-import { calculateTotalContextTokens } from "../strategies/utils"
+import { calculateTotalContextTokens, rankPruningCandidates } from "../strategies/utils"
 
 /**
  * Format token count for display (e.g., 1234 -> "1.2K", 12345 -> "12.3K")
@@ -22,7 +22,7 @@ I've noticed your todo list hasn't been updated for {turns} turns. Before contin
 ### 2. Update — Call \`todowrite\` to sync progress
 ### 3. Prune — Call \`context\` to discard/distill noise
 Use prunable_hash values from \`<acp:tool>\`, \`<acp:message>\`, \`<acp:reasoning>\` tags to target content.
-{stuck_task_guidance}
+{prunable_outputs}{stuck_task_guidance}
 ---
 `
 
@@ -43,6 +43,19 @@ Use \`todowrite\` to split the task or update its status.
 const REMINDER_REGEX =
     /(?:^|\n)(?:::synth::\n)?---\n## 🔖 Checkpoint\n\nI've noticed your todo list hasn't been updated for \d+ turns\. Before continuing:\n\n### 1\. Reflect — What changed\? Any new risks or blockers\?\n### 2\. Update — Call `todowrite` to sync progress\n### 3\. Prune — Call `context` to discard\/distill noise\n(?:\n\*\*Prunable Outputs:\*\*\n(?:[a-z]+: [^\n]+\n)+)?\n?(?:### ⚠️ Stuck Task Detected\n\nI've noticed a task has been in progress for \d+ turns\. If you're finding it difficult to complete, consider:\n- Breaking it into smaller, more specific subtasks\n- Identifying blockers or dependencies that need resolution first\n- Marking it as blocked and moving to another task\n\nUse `todowrite` to split the task or update its status\.\n)?---\n?/g
 
+/**
+ * Format ranked candidates as the reminder's "Prunable Outputs" section,
+ * one "tool: target (~size tokens) → hash" line each. Empty without candidates.
+ */
+function formatPrunableOutputs(candidates: ReturnType<typeof rankPruningCandidates>): string {
+    if (candidates.length === 0) return ""
+    const lines = candidates.map(
+        (c) =>
+            `${c.toolName}: ${c.target ?? "output"} (~${formatTokens(c.estimatedTokens)} tokens) → ${c.hash}`,
+    )
+    return `\n**Prunable Outputs:**\n${lines.join("\n")}\n`
+}
+
 /**
  * Remove any todo reminder from messages.
  * Called when todowrite is detected to clean up the reminder.
@@ -150,6 +163,11 @@ export function injectTodoReminder(
     const pressurePercent = Math.min(100, Math.round((currentTokens / maxTokens) * 100))
     const contextPressure = `\n⚡ **Context: ${pressurePercent}%** (${formatTokens(currentTokens)}/${formatTokens(maxTokens)} tokens)\n`
 
+    // Suggest the largest outputs that can still be pruned
+    const prunableOutputs = formatPrunableOutputs(
+        rankPruningCandidates(state, messages, config.tools.settings?.protectedTools ?? []),
+    )
+
     // Detect stuck tasks (in_progress for too long)
     const stuckTaskTurns = config.tools.todoReminder.stuckTaskTurns ?? 12
     const stuckTasks = state.todos.filter(
@@ -174,6 +192,7 @@ export function injectTodoReminder(
     // Create reminder content
     const reminderContent = REMINDER_TEMPLATE.replace("{turns}", String(turnsSinceTodo))
         .replace("{context_pressure}", contextPressure)
+        .replace("{prunable_outputs}", prunableOutputs)
         .replace("{stuck_task_guidance}", stuckTaskSection)
 
     // Create a new user message with the reminder
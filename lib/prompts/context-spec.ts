@@ -8,6 +8,8 @@ Manage conversation context. Remove noise, preserve essentials.
 | discard | Remove entirely | [["hash"], ...] |
 | distill | Replace with summary | [["hash", "summary"], ...] |
 | replace | Replace by pattern | [["start", "end", "replacement"], ...] |
+| restore | Undo a discard/distill, or show an elided output in full | [["hash"], ...] |
+| pin / unpin | Keep a tool output safe from all pruning | [["hash"], ...] |
 
 ## Hash Locations
 
@@ -49,21 +51,25 @@ All hash types use the same 6-char hex format (e.g., \`a1b2c3\`). Use any hash w
   context_prune({ action: "discard", targets: [["a1b2c3"], ["d4e5f6"], ["fed987"]] })
   context_prune({ action: "replace", targets: [["Detailed findings from analysis:", "End of detailed findings.", "[analysis complete]"]] })
 
-**AFTER (~150 tokens):**
+**AFTER (~200 tokens):**
 
   User: Analyze this codebase
 
   Assistant: Here is my analysis...
 
   [glob() output pruned]
+  glob "src/**/*.ts" · 42 files under src/:
+  ./ (3), auth/ (12), db/ (27)
 
   [read() output pruned]
+  src/auth.ts · 180 lines · exports:
+  function login:12, class Session:40
 
   [analysis complete]
 
   Recommendations: Use JWT for auth.
 
-**Result: Saved ~3350 tokens (96% reduction)**
+**Result: Saved ~3300 tokens (94% reduction)**
 
 ## Batching Strategy
 
@@ -18,20 +18,24 @@ The following elements are automatically pruned based on configuration:
 | Tool inputs | Stripped to metadata on supersede | pruneToolInputs | true |
 | Step markers | Filtered entirely | pruneStepMarkers | true |
 | Source URLs | Supersede old fetches | pruneSourceUrls | true |
-| File attachments | Masked with breadcrumb | pruneFiles | true |
+| File attachments | Masked with breadcrumb (latest kept) | pruneFiles | true |
 | Snapshots | Keep only latest | pruneSnapshots | true |
 | Retry failures | Auto-prune on success | pruneRetryParts | true |
-| User code blocks | Truncate old (>5 turns) | pruneUserCodeBlocks | true |
-| Error outputs | Truncate to first line | truncateOldErrors | true |
+| User code blocks | Head/tail excerpt (>5 turns) | pruneUserCodeBlocks | true |
+| Error outputs | First line + innermost project frame | truncateOldErrors | true |
 | File operations | One-file-one-view | aggressiveFilePrune | true |
 | State queries | Keep only latest | stateQuerySupersede | true |
+| Test/build runs | Latest full, older as summary | runSupersede | true |
 
 ONE-FILE-ONE-VIEW
-Any file operation (read/write/edit) supersedes ALL previous operations on the same file. Context only contains the latest known state.
+Any write/edit supersedes ALL previous operations on the same file. A read supersedes only the line ranges it covers: older reads are pruned when fully covered and trimmed to their uncovered lines otherwise. Context only contains the latest known state.
 
 STATE QUERIES
 Commands like ls, find, pwd, git status - only the latest execution is retained.
 
+TEST/BUILD RUNS
+Only the latest test run and build run keep their full output. Older runs collapse to a pass/fail line with the failing test names.
+
 SUPERSEDE STRATEGIES
 - Hash-based: Duplicate tool calls by content hash
 - File-based: Same file path operations
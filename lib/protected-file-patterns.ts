@@ -74,9 +74,78 @@ export function getFilePathFromParameters(parameters: unknown): string | undefin
     return typeof filePath === "string" && filePath.length > 0 ? filePath : undefined
 }
 
+/** Parameter keys that hold a path for file, glob and grep tools */
+const PATH_PARAMETER_KEYS = ["filePath", "path"] as const
+
+/**
+ * Split a shell command into the words that could name a file.
+ * Options, operators and redirections are dropped; quotes are stripped.
+ */
+function extractCommandPaths(command: string): string[] {
+    return command
+        .split(/[\s;|&<>()]+/)
+        .map((word) => word.replace(/^["']|["']$/g, ""))
+        .filter((word) => word.length > 0 && !word.startsWith("-") && !word.startsWith("$"))
+}
+
+/**
+ * Collect every path a tool call touches: `filePath`, glob/grep `path`, and
+ * the words of a bash `command`.
+ */
+export function getFilePathsFromParameters(parameters: unknown): string[] {
+    if (typeof parameters !== "object" || parameters === null) {
+        return []
+    }
+
+    const params = parameters as Record<string, unknown>
+    const paths: string[] = []
+
+    for (const key of PATH_PARAMETER_KEYS) {
+        const value = params[key]
+        if (typeof value === "string" && value.length > 0) {
+            paths.push(value)
+        }
+    }
+
+    if (typeof params.command === "string") {
+        paths.push(...extractCommandPaths(params.command))
+    }
+
+    return paths
+}
+
 export function isProtectedFilePath(filePath: string | undefined, patterns: string[]): boolean {
     if (!filePath) return false
     if (!patterns || patterns.length === 0) return false
 
     return patterns.some((pattern) => matchesGlob(filePath, pattern))
 }
+
+/** The path and the protectedFilePatterns entry that protect a tool call */
+export interface FileProtection {
+    path: string
+    pattern: string
+}
+
+/**
+ * Find the first path of a tool call that matches protectedFilePatterns.
+ * Every prune decision (supersede, purge, discard, distill, sweep) goes
+ * through this check.
+ */
+export function findFileProtection(
+    parameters: unknown,
+    patterns: string[] | undefined,
+): FileProtection | undefined {
+    if (!patterns || patterns.length === 0) return undefined
+
+    for (const path of getFilePathsFromParameters(parameters)) {
+        if (!isProtectedFilePath(path, patterns)) continue
+        const pattern = patterns.find((candidate) => matchesGlob(path, candidate))!
+        return { path, pattern }
+    }
+    return undefined
+}
+
+export function formatFileProtection(protection: FileProtection): string {
+    return `"${protection.path}" matches protectedFilePatterns entry "${protection.pattern}"`
+}
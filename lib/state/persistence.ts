@@ -10,8 +10,17 @@ import * as fs from "fs/promises"
 import { existsSync } from "fs"
 import { homedir } from "os"
 import { join } from "path"
-import type { SessionState, SessionStats, Prune, DiscardStats, TodoItem } from "./types"
+import type {
+    SessionState,
+    SessionStats,
+    Prune,
+    DiscardStats,
+    PruneRecord,
+    TodoItem,
+} from "./types"
 import type { Logger } from "../logger"
+import type { LineRange } from "./read-ranges"
+import type { ReadEdit } from "./read-refresh"
 
 export interface PersistedSessionState {
     sessionName?: string
@@ -37,6 +46,8 @@ export interface PersistedSessionState {
         }
         files: {
             pathToCallIds: Record<string, string[]>
+            keptReadRanges?: Record<string, LineRange[]>
+            refreshedReads?: Record<string, ReadEdit[]>
         }
     }
 
@@ -52,6 +63,9 @@ export interface PersistedSessionState {
     }
 
     discardHistory?: DiscardStats[]
+    pruneRecords?: Record<string, PruneRecord>
+    pinnedCallIds?: string[]
+    expandedCallIds?: string[]
     todos?: TodoItem[]
 
     // Legacy fields for migration check
@@ -160,9 +174,14 @@ export async function saveSessionState(
                             ([k, v]) => [k, Array.from(v)],
                         ),
                     ),
+                    keptReadRanges: Object.fromEntries(sessionState.cursors.files.keptReadRanges),
+                    refreshedReads: Object.fromEntries(sessionState.cursors.files.refreshedReads),
                 },
             },
             discardHistory: sessionState.discardHistory,
+            pruneRecords: Object.fromEntries(sessionState.pruneRecords),
+            pinnedCallIds: Array.from(sessionState.pinnedCallIds),
+            expandedCallIds: Array.from(sessionState.expandedCallIds),
             todos: sessionState.todos,
         }
 
@@ -265,3 +284,40 @@ export async function loadAllSessionStats(logger: Logger): Promise<AggregatedSta
 
     return result
 }
+
+/**
+ * Side store for the full text of tool outputs capped by strategies.outputWindow.
+ * Storage location: ~/.local/share/opencode/storage/plugin/acp/outputs/{sessionId}/{callId}.txt
+ */
+const OUTPUT_STORE_DIR = join(STORAGE_DIR, "outputs")
+
+export function getStoredOutputPath(sessionId: string, callId: string): string {
+    return join(OUTPUT_STORE_DIR, sessionId, `${callId}.txt`)
+}
+
+/**
+ * Save the full output of a tool call to the side store, unless already saved.
+ */
+export async function storeFullOutput(
+    sessionId: string,
+    callId: string,
+    output: string,
+    logger: Logger,
+): Promise<void> {
+    const filePath = getStoredOutputPath(sessionId, callId)
+    try {
+        if (existsSync(filePath)) {
+            return
+        }
+        await fs.mkdir(join(OUTPUT_STORE_DIR, sessionId), { recursive: true })
+        await withWriteLock(filePath, async () => {
+            await atomicWriteFile(filePath, output)
+        })
+        logger.debug("Stored full tool output", { callId, path: filePath })
+    } catch (error: any) {
+        logger.error("Failed to store full tool output", {
+            callId,
+            error: error?.message,
+        })
+    }
+}
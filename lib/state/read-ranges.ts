@@ -0,0 +1,104 @@
+/**
+ * Line-range helpers for range-aware read supersede.
+ * Ranges are 0-based and end-exclusive, matching the read tool's offset/limit.
+ */
+
+/** Lines returned by the read tool when no limit is given */
+export const DEFAULT_READ_LIMIT = 2000
+
+export interface LineRange {
+    start: number
+    end: number
+}
+
+/** Numbered content line of a read output: "00042| code" or "42: code" */
+export const NUMBERED_LINE_PATTERN = /^(\d+)(\| |: )(.*)$/
+
+/** Marker left in place of lines cut by trimReadOutput */
+const TRIM_MARKER_PATTERN = /^\[\.\.\. lines (\d+)-(\d+) covered by newer reads \.\.\.\]$/
+
+/**
+ * Line range covered by a read call.
+ */
+export function getReadRange(params: Record<string, unknown>): LineRange {
+    const offset = typeof params.offset === "number" ? Math.max(0, params.offset) : 0
+    const limit = typeof params.limit === "number" ? params.limit : DEFAULT_READ_LIMIT
+    return { start: offset, end: offset + Math.max(0, limit) }
+}
+
+/**
+ * Remove the covering ranges from each range. Returns the uncovered parts,
+ * in order; an empty result means the ranges are fully covered.
+ */
+export function subtractRanges(ranges: LineRange[], covering: LineRange[]): LineRange[] {
+    let remaining = ranges
+    for (const cover of covering) {
+        remaining = remaining.flatMap((range) => {
+            if (cover.end <= range.start || cover.start >= range.end) {
+                return [range]
+            }
+            const parts: LineRange[] = []
+            if (cover.start > range.start) {
+                parts.push({ start: range.start, end: cover.start })
+            }
+            if (cover.end < range.end) {
+                parts.push({ start: cover.end, end: range.end })
+            }
+            return parts
+        })
+    }
+    return remaining
+}
+
+export function rangesEqual(a: LineRange[], b: LineRange[]): boolean {
+    return (
+        a.length === b.length &&
+        a.every((range, i) => range.start === b[i]!.start && range.end === b[i]!.end)
+    )
+}
+
+/**
+ * Drop numbered lines outside the kept ranges from a read output. Each run of
+ * dropped lines becomes a single marker; unnumbered lines are kept as is.
+ * Trimming an already trimmed output gives the same result as trimming the
+ * original.
+ */
+export function trimReadOutput(output: string, keep: LineRange[]): string {
+    const result: string[] = []
+    let cut: LineRange | null = null
+
+    const flush = () => {
+        if (cut) {
+            result.push(`[... lines ${cut.start + 1}-${cut.end} covered by newer reads ...]`)
+            cut = null
+        }
+    }
+    const extendCut = (start: number, end: number) => {
+        cut = cut
+            ? { start: Math.min(cut.start, start), end: Math.max(cut.end, end) }
+            : { start, end }
+    }
+
+    for (const line of output.split("\n")) {
+        const marker = line.match(TRIM_MARKER_PATTERN)
+        if (marker) {
+            extendCut(Number(marker[1]) - 1, Number(marker[2]))
+            continue
+        }
+
+        const numbered = line.match(NUMBERED_LINE_PATTERN)
+        if (numbered) {
+            const index = Number(numbered[1]) - 1
+            if (!keep.some((range) => index >= range.start && index < range.end)) {
+                extendCut(index, index + 1)
+                continue
+            }
+        }
+
+        flush()
+        result.push(line)
+    }
+    flush()
+
+    return result.join("\n")
+}
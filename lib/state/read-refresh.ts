@@ -0,0 +1,92 @@
+/**
+ * Apply edit tool calls to a cached read output, so the read stays an
+ * accurate view of the file instead of being superseded by the edit.
+ */
+
+import { NUMBERED_LINE_PATTERN } from "./read-ranges"
+
+export interface ReadEdit {
+    /** Call ID of the edit */
+    callId: string
+    oldString: string
+    newString: string
+    replaceAll?: boolean
+}
+
+/** Note appended to a refreshed read output */
+const REFRESH_NOTE_PATTERN = /^\[view updated by (\d+) later edits?\]$/
+
+function formatRefreshNote(count: number): string {
+    return `[view updated by ${count} later edit${count === 1 ? "" : "s"}]`
+}
+
+/**
+ * Read the edit strings out of edit tool parameters. Returns null when the
+ * parameters are not a plain string replacement.
+ */
+export function getReadEdit(callId: string, params: Record<string, unknown>): ReadEdit | null {
+    const { oldString, newString, replaceAll } = params
+    if (typeof oldString !== "string" || typeof newString !== "string" || oldString === "") {
+        return null
+    }
+    return { callId, oldString, newString, replaceAll: replaceAll === true }
+}
+
+/**
+ * Apply one edit to a line-numbered read output and renumber the lines.
+ * Returns null when the output has no numbered lines or the edited text is
+ * not in the read window, or is ambiguous for a single replacement.
+ */
+export function applyEditToReadOutput(output: string, edit: ReadEdit): string | null {
+    const lines = output.split("\n")
+    let noteCount = 0
+    const last = lines[lines.length - 1]?.match(REFRESH_NOTE_PATTERN)
+    if (last) {
+        noteCount = Number(last[1])
+        lines.pop()
+    }
+
+    const first = lines.findIndex((line) => NUMBERED_LINE_PATTERN.test(line))
+    if (first === -1) return null
+    let end = first
+    while (end < lines.length && NUMBERED_LINE_PATTERN.test(lines[end]!)) end++
+
+    const numbered = lines.slice(first, end).map((line) => line.match(NUMBERED_LINE_PATTERN)!)
+    const startNumber = Number(numbered[0]![1])
+    const width = numbered[0]![1]!.length
+    const separator = numbered[0]![2]!
+    const content = numbered.map((match) => match[3]).join("\n")
+
+    const occurrences = content.split(edit.oldString).length - 1
+    if (occurrences === 0 || (occurrences > 1 && !edit.replaceAll)) {
+        return null
+    }
+
+    const updated = edit.replaceAll
+        ? content.split(edit.oldString).join(edit.newString)
+        : content.replace(edit.oldString, () => edit.newString)
+    const renumbered = updated.split("\n").map((text, i) => {
+        const number = String(startNumber + i)
+        const padded = separator === "| " ? number.padStart(width, "0") : number
+        return `${padded}${separator}${text}`
+    })
+
+    return [
+        ...lines.slice(0, first),
+        ...renumbered,
+        ...lines.slice(end),
+        formatRefreshNote(noteCount + 1),
+    ].join("\n")
+}
+
+/**
+ * Apply a series of edits in order. Returns null if any edit does not apply.
+ */
+export function applyEditsToReadOutput(output: string, edits: ReadEdit[]): string | null {
+    let result: string | null = output
+    for (const edit of edits) {
+        if (result === null) return null
+        result = applyEditToReadOutput(result, edit)
+    }
+    return result
+}
@@ -0,0 +1,227 @@
+/**
+ * Local BM25 index of tool outputs, scored against the current goal: the
+ * latest real user message and the open todo items. Documents are added and
+ * removed per call ID as calls complete and get pruned.
+ */
+
+import type { SessionState, WithParts } from "./types"
+import { getLastUserMessage, isMessageCompacted } from "../shared-utils"
+import { extractParameterKey } from "../messages/utils"
+import { stripHashTags } from "./hash-registry"
+import { getPruneCache } from "./utils"
+
+/** BM25 term frequency saturation */
+const K1 = 1.2
+/** BM25 document length normalization */
+const B = 0.75
+
+const STOP_WORDS = new Set([
+    "a",
+    "an",
+    "and",
+    "are",
+    "as",
+    "at",
+    "be",
+    "by",
+    "can",
+    "do",
+    "for",
+    "from",
+    "how",
+    "if",
+    "in",
+    "is",
+    "it",
+    "me",
+    "my",
+    "no",
+    "not",
+    "of",
+    "on",
+    "or",
+    "please",
+    "so",
+    "that",
+    "the",
+    "then",
+    "this",
+    "to",
+    "we",
+    "what",
+    "when",
+    "with",
+    "you",
+])
+
+/**
+ * Lowercased terms of a text. Identifiers are indexed whole and split at
+ * camelCase and snake_case boundaries, so "getUserName" also matches "user".
+ * Stop words, single characters and plain numbers are dropped.
+ */
+export function tokenize(text: string): string[] {
+    const terms: string[] = []
+    for (const word of text.match(/[\p{L}\p{N}_]+/gu) ?? []) {
+        const pieces = word.split(/_+|(?<=\p{Ll})(?=\p{Lu})/u)
+        for (const piece of pieces.length > 1 ? [word, ...pieces] : [word]) {
+            const term = piece.toLowerCase()
+            if (term.length < 2 || STOP_WORDS.has(term) || /^\d+$/.test(term)) continue
+            terms.push(term)
+        }
+    }
+    return terms
+}
+
+interface IndexedDocument {
+    termFrequencies: Map<string, number>
+    length: number
+}
+
+export class RelevanceIndex {
+    private documents = new Map<string, IndexedDocument>()
+    private documentFrequencies = new Map<string, number>()
+    private totalLength = 0
+
+    get size(): number {
+        return this.documents.size
+    }
+
+    has(callId: string): boolean {
+        return this.documents.has(callId)
+    }
+
+    add(callId: string, text: string): void {
+        if (this.documents.has(callId)) return
+
+        const termFrequencies = new Map<string, number>()
+        const terms = tokenize(text)
+        for (const term of terms) {
+            termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1)
+        }
+        for (const term of termFrequencies.keys()) {
+            this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1)
+        }
+        this.documents.set(callId, { termFrequencies, length: terms.length })
+        this.totalLength += terms.length
+    }
+
+    remove(callId: string): void {
+        const document = this.documents.get(callId)
+        if (!document) return
+
+        for (const term of document.termFrequencies.keys()) {
+            const frequency = (this.documentFrequencies.get(term) ?? 1) - 1
+            if (frequency > 0) {
+                this.documentFrequencies.set(term, frequency)
+            } else {
+                this.documentFrequencies.delete(term)
+            }
+        }
+        this.documents.delete(callId)
+        this.totalLength -= document.length
+    }
+
+    /**
+     * BM25 score of a document for the query terms; 0 for unknown call IDs.
+     */
+    score(callId: string, queryTerms: string[]): number {
+        const document = this.documents.get(callId)
+        if (!document || document.length === 0) return 0
+
+        const averageLength = this.totalLength / this.documents.size
+        let score = 0
+        for (const term of new Set(queryTerms)) {
+            const frequency = document.termFrequencies.get(term)
+            if (!frequency) continue
+            const documentFrequency = this.documentFrequencies.get(term) ?? 0
+            const idf = Math.log(
+                1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5),
+            )
+            score +=
+                (idf * frequency * (K1 + 1)) /
+                (frequency + K1 * (1 - B + (B * document.length) / averageLength))
+        }
+        return score
+    }
+}
+
+/**
+ * Get or create the session's relevance index.
+ * Transient like the prune cache; rebuilt from the messages after a restart.
+ */
+export function getRelevanceIndex(state: SessionState): RelevanceIndex {
+    if (!state._relevanceIndex) {
+        state._relevanceIndex = new RelevanceIndex()
+    }
+    return state._relevanceIndex
+}
+
+/**
+ * Query terms of the current goal: the latest real user message and the
+ * pending and in-progress todo items.
+ */
+export function getGoalTerms(state: SessionState, messages: WithParts[]): string[] {
+    const texts: string[] = []
+
+    const userMessage = getLastUserMessage(messages)
+    for (const part of userMessage?.parts ?? []) {
+        if (part.type === "text" && part.text) texts.push(part.text)
+    }
+    for (const todo of state.todos) {
+        if (todo.status === "pending" || todo.status === "in_progress") texts.push(todo.content)
+    }
+
+    return tokenize(texts.join("\n"))
+}
+
+/**
+ * Index the completed tool outputs not indexed yet and drop pruned ones.
+ * Each document is the tool name, its main parameter and its output.
+ */
+export function updateRelevanceIndex(state: SessionState, messages: WithParts[]): RelevanceIndex {
+    const index = getRelevanceIndex(state)
+    const { prunedToolIds } = getPruneCache(state)
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) continue
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+
+        for (const part of parts) {
+            if (part.type !== "tool" || part.state?.status !== "completed") continue
+            if (prunedToolIds.has(part.callID)) {
+                index.remove(part.callID)
+                continue
+            }
+            if (index.has(part.callID)) continue
+
+            const target = extractParameterKey(part.tool, part.state.input ?? {})
+            index.add(
+                part.callID,
+                `${part.tool} ${target}\n${stripHashTags(part.state.output ?? "")}`,
+            )
+        }
+    }
+
+    return index
+}
+
+/**
+ * Relevance of each unpruned tool output to the current goal, by call ID.
+ * Empty when there is no goal to score against.
+ */
+export function scoreToolRelevance(
+    state: SessionState,
+    messages: WithParts[],
+): Map<string, number> {
+    const scores = new Map<string, number>()
+    const queryTerms = getGoalTerms(state, messages)
+    if (queryTerms.length === 0) return scores
+
+    const index = updateRelevanceIndex(state, messages)
+    const { prunedToolIds } = getPruneCache(state)
+    for (const [callId] of state.toolParameters) {
+        if (prunedToolIds.has(callId) || !index.has(callId)) continue
+        scores.set(callId, index.score(callId, queryTerms))
+    }
+    return scores
+}
@@ -0,0 +1,112 @@
+/**
+ * Recognize test and build commands and collapse their older runs to the
+ * one-line summary of formatTestOutput / formatBuildOutput.
+ */
+
+import { formatBuildOutput, formatTestOutput } from "../ui/minimal-notifications"
+
+export type RunKind = "test" | "build"
+
+/** Prefix for pruneRecords keys of collapsed runs, so restore can find them */
+export const RUN_SUMMARY_RECORD_PREFIX = "run:"
+
+/** Package runners a tool can be started through, e.g. `npx vitest` */
+const RUNNER = String.raw`(?:(?:npx|bunx|pnpm\s+(?:exec|dlx)|pnpm|yarn|npm\s+(?:run|exec))\s+)?`
+
+/** End of a command word: whitespace or the end of the segment */
+const END = String.raw`(?=\s|$)`
+
+/** Matched against each command segment, from its start */
+const TEST_COMMAND_PATTERNS = [
+    new RegExp(String.raw`^(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?test${END}`),
+    new RegExp(String.raw`^${RUNNER}(?:vitest|jest|mocha|pytest)${END}`),
+    new RegExp(String.raw`^python3?\s+-m\s+pytest${END}`),
+    new RegExp(String.raw`^(?:go|cargo)\s+test${END}`),
+] as const
+
+const BUILD_COMMAND_PATTERNS = [
+    new RegExp(String.raw`^${RUNNER}tsc${END}`),
+    new RegExp(String.raw`^(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?(?:build|typecheck)${END}`),
+    new RegExp(String.raw`^(?:go|cargo)\s+(?:build|check)${END}`),
+] as const
+
+/**
+ * Failing test lines of vitest, jest, pytest, go test and cargo test, most
+ * specific first. Runners print some failures twice (jest lists the file on a
+ * FAIL line and each test on a ● line), so only the first pattern that
+ * matches anything is used.
+ */
+const FAILING_TEST_PATTERNS = [
+    /^\s*●\s+(.+?)\s*$/,
+    /^\s*FAIL\s+(.+ > .+?)\s*$/,
+    /^FAILED\s+(\S+)/,
+    /^\s*--- FAIL:\s+(\S+)/,
+    /^test\s+(\S+)\s+\.\.\.\s+FAILED$/,
+    /^\s*[×✗]\s+(.+?)(\s+\d+ms)?$/,
+    /^\s*FAIL\s+(.+?)\s*$/,
+] as const
+
+/** Failing test names listed in a summary before "+N more" */
+const MAX_FAILING_TESTS = 10
+
+/**
+ * The commands of a shell line: split at &&, ||, ; and |, with leading
+ * environment assignments (`CI=1 npm test`) removed.
+ */
+function splitCommandSegments(command: string): string[] {
+    return command
+        .split(/&&|\|\||;|\|/)
+        .map((segment) => segment.trim().replace(/^(?:\w+=\S*\s+)+/, ""))
+        .filter(Boolean)
+}
+
+/**
+ * Classify a bash command as a test run, a build run or neither. Tools only
+ * count in command position, so `cat jest.config.js` or `npm install -D
+ * vitest` are neither. Test patterns win for `npm run build && npm test`.
+ */
+export function getRunKind(command: string): RunKind | null {
+    const segments = splitCommandSegments(command)
+    const matches = (patterns: readonly RegExp[]) =>
+        segments.some((segment) => patterns.some((pattern) => pattern.test(segment)))
+
+    if (matches(TEST_COMMAND_PATTERNS)) return "test"
+    if (matches(BUILD_COMMAND_PATTERNS)) return "build"
+    return null
+}
+
+/**
+ * Names of the failing tests in a test runner output, deduplicated, in order.
+ */
+export function extractFailingTests(output: string): string[] {
+    const lines = output.split("\n")
+    for (const pattern of FAILING_TEST_PATTERNS) {
+        const names = new Set<string>()
+        for (const line of lines) {
+            const match = line.match(pattern)
+            if (match) names.add(match[1]!)
+        }
+        if (names.size > 0) return [...names]
+    }
+    return []
+}
+
+/**
+ * One-line pass/fail summary of a run, followed by the failing test names.
+ */
+export function summarizeRunOutput(kind: RunKind, output: string): string {
+    if (kind === "build") {
+        return `${formatBuildOutput(output)}\n[full output superseded by a newer build]`
+    }
+
+    const failing = extractFailingTests(output)
+    const lines = [formatTestOutput(output)]
+    for (const name of failing.slice(0, MAX_FAILING_TESTS)) {
+        lines.push(`✗ ${name}`)
+    }
+    if (failing.length > MAX_FAILING_TESTS) {
+        lines.push(`+${failing.length - MAX_FAILING_TESTS} more failing`)
+    }
+    lines.push("[full output superseded by a newer test run]")
+    return lines.join("\n")
+}
@@ -70,6 +70,19 @@ export function createSessionState(): SessionState {
                     retry: { count: 0, tokens: 0 },
                 },
                 purgeErrors: { count: 0, tokens: 0 },
+                truncatedErrors: { count: 0, tokens: 0 },
+                budgetEviction: { count: 0, tokens: 0 },
+                outputWindow: { count: 0, tokens: 0 },
+                userCodeBlocks: { count: 0, tokens: 0 },
+                fileParts: { count: 0, tokens: 0 },
+                stepMarkers: { count: 0, tokens: 0 },
+                runSummaries: { count: 0, tokens: 0 },
+                decay: {
+                    excerpt: { count: 0, tokens: 0 },
+                    digest: { count: 0, tokens: 0 },
+                    remove: { count: 0, tokens: 0 },
+                },
+                supersedeRules: {},
                 manualDiscard: {
                     message: { count: 0, tokens: 0 },
                     thinking: { count: 0, tokens: 0 },
@@ -96,6 +109,9 @@ export function createSessionState(): SessionState {
             segments: new Map(),
         },
         discardHistory: [],
+        pruneRecords: new Map(),
+        pinnedCallIds: new Set(),
+        expandedCallIds: new Set(),
         cursors: {
             todo: {
                 lastTurn: 0,
@@ -113,12 +129,15 @@ export function createSessionState(): SessionState {
             },
             files: {
                 pathToCallIds: new Map(),
+                keptReadRanges: new Map(),
+                refreshedReads: new Map(),
             },
             urls: {
                 urlToCallIds: new Map(),
             },
             stateQueries: {
                 queryToCallIds: new Map(),
+                runSummaries: new Map(),
             },
             snapshots: {
                 allCallIds: new Set(),
@@ -136,6 +155,7 @@ export function resetSessionState(state: SessionState): void {
     const fresh = createSessionState()
     Object.assign(state, fresh)
     state.toolParameters.clear()
+    state._relevanceIndex = undefined
 }
 
 /**
@@ -155,6 +175,19 @@ function migrateStrategyStats(persisted: any): SessionState["stats"]["strategySt
             retry: { count: 0, tokens: 0 },
         },
         purgeErrors: { count: 0, tokens: 0 },
+        truncatedErrors: { count: 0, tokens: 0 },
+        budgetEviction: { count: 0, tokens: 0 },
+        outputWindow: { count: 0, tokens: 0 },
+        userCodeBlocks: { count: 0, tokens: 0 },
+        fileParts: { count: 0, tokens: 0 },
+        stepMarkers: { count: 0, tokens: 0 },
+        runSummaries: { count: 0, tokens: 0 },
+        decay: {
+            excerpt: { count: 0, tokens: 0 },
+            digest: { count: 0, tokens: 0 },
+            remove: { count: 0, tokens: 0 },
+        },
+        supersedeRules: {},
         manualDiscard: {
             message: { count: 0, tokens: 0 },
             thinking: { count: 0, tokens: 0 },
@@ -173,6 +206,15 @@ function migrateStrategyStats(persisted: any): SessionState["stats"]["strategySt
     return {
         autoSupersede: persisted.autoSupersede || defaultStats.autoSupersede,
         purgeErrors: persisted.purgeErrors || defaultStats.purgeErrors,
+        truncatedErrors: persisted.truncatedErrors || defaultStats.truncatedErrors,
+        budgetEviction: persisted.budgetEviction || defaultStats.budgetEviction,
+        outputWindow: persisted.outputWindow || defaultStats.outputWindow,
+        userCodeBlocks: persisted.userCodeBlocks || defaultStats.userCodeBlocks,
+        fileParts: persisted.fileParts || defaultStats.fileParts,
+        stepMarkers: persisted.stepMarkers || defaultStats.stepMarkers,
+        runSummaries: persisted.runSummaries || defaultStats.runSummaries,
+        decay: persisted.decay || defaultStats.decay,
+        supersedeRules: persisted.supersedeRules || defaultStats.supersedeRules,
         manualDiscard: isOldFormat
             ? {
                   // Migrate old flat format: assign all to 'tool' category
@@ -262,6 +304,18 @@ export async function ensureSessionInitialized(
         state.discardHistory = persisted.discardHistory
     }
 
+    if (persisted.pruneRecords) {
+        state.pruneRecords = new Map(Object.entries(persisted.pruneRecords))
+    }
+
+    if (persisted.pinnedCallIds) {
+        state.pinnedCallIds = new Set(persisted.pinnedCallIds)
+    }
+
+    if (persisted.expandedCallIds) {
+        state.expandedCallIds = new Set(persisted.expandedCallIds)
+    }
+
     // Restore cursors
     if (persisted.cursors) {
         state.cursors.todo = persisted.cursors.todo || state.cursors.todo
@@ -275,6 +329,16 @@ export async function ensureSessionInitialized(
                 ]),
             )
         }
+        if (persisted.cursors.files?.keptReadRanges) {
+            state.cursors.files.keptReadRanges = new Map(
+                Object.entries(persisted.cursors.files.keptReadRanges),
+            )
+        }
+        if (persisted.cursors.files?.refreshedReads) {
+            state.cursors.files.refreshedReads = new Map(
+                Object.entries(persisted.cursors.files.refreshedReads),
+            )
+        }
     }
 
     state.todos = persisted.todos ?? []
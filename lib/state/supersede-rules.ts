@@ -0,0 +1,75 @@
+/**
+ * Matching for user-defined bash supersede rules (strategies.supersedeRules).
+ */
+
+import type { PluginConfig } from "../config"
+
+export type SupersedeRule = PluginConfig["strategies"]["supersedeRules"][number]
+
+export interface SupersedeRuleMatch {
+    rule: SupersedeRule
+    /** Supersede key, prefixed with the rule name */
+    key: string
+}
+
+const compiledPatterns = new Map<string, RegExp>()
+
+function compilePattern(pattern: string): RegExp {
+    let regex = compiledPatterns.get(pattern)
+    if (!regex) {
+        regex = new RegExp(pattern)
+        compiledPatterns.set(pattern, regex)
+    }
+    return regex
+}
+
+/**
+ * Check a bash exit status against a rule's exitStatus option. An unknown
+ * exit status only matches "any".
+ */
+export function matchesExitStatus(
+    expected: SupersedeRule["exitStatus"],
+    exit: number | undefined,
+): boolean {
+    if (expected === "any") return true
+    if (exit === undefined) return false
+    if (expected === "success") return exit === 0
+    if (expected === "failure") return exit !== 0
+    return exit === expected
+}
+
+/**
+ * Fill a key template from the command and the regex match.
+ * {command} is the whole command, {cmd} its first word, {argN} the Nth word
+ * after it and {N} the Nth regex group. Missing values become empty.
+ */
+export function renderKeyTemplate(
+    template: string,
+    command: string,
+    match: RegExpMatchArray,
+): string {
+    const words = command.split(/\s+/)
+    return template.replace(/\{(command|cmd|arg\d+|\d+)\}/g, (_, name: string) => {
+        if (name === "command") return command
+        if (name === "cmd") return words[0] ?? ""
+        if (name.startsWith("arg")) return words[Number(name.slice(3))] ?? ""
+        return match[Number(name)] ?? ""
+    })
+}
+
+/**
+ * Find the first rule matching a bash command and exit status.
+ */
+export function matchSupersedeRule(
+    rules: SupersedeRule[],
+    command: string,
+    exit: number | undefined,
+): SupersedeRuleMatch | null {
+    const trimmed = command.trim()
+    for (const rule of rules) {
+        const match = trimmed.match(compilePattern(rule.pattern))
+        if (!match || !matchesExitStatus(rule.exitStatus, exit)) continue
+        return { rule, key: `rule:${rule.name}:${renderKeyTemplate(rule.key, trimmed, match)}` }
+    }
+    return null
+}
@@ -6,6 +6,18 @@ import { generateToolHash } from "../messages/utils"
 import { removeTodoReminder } from "../messages/todo-reminder"
 import { removeAutomataReflection } from "../messages/automata-mode"
 import { countTokens } from "../strategies/utils"
+import { createToolDigest, getDigestMaxTokens } from "../messages/digest"
+import { isCallPinned, recordPrune, recordRewriteOnce } from "./utils"
+import { findFileProtection, formatFileProtection } from "../protected-file-patterns"
+import { getReadRange, rangesEqual, subtractRanges, trimReadOutput } from "./read-ranges"
+import { applyEditToReadOutput, applyEditsToReadOutput, getReadEdit } from "./read-refresh"
+import { matchSupersedeRule, type SupersedeRuleMatch } from "./supersede-rules"
+import {
+    getRunKind,
+    RUN_SUMMARY_RECORD_PREFIX,
+    summarizeRunOutput,
+    type RunKind,
+} from "./run-summary"
 
 const MAX_TOOL_CACHE_SIZE = 1000
 
@@ -147,6 +159,7 @@ function isWriteTool(tool: string): boolean {
  */
 function supersedeToolCall(
     state: SessionState,
+    config: PluginConfig,
     callId: string,
     messages: WithParts[],
     logger: Logger,
@@ -165,9 +178,13 @@ function supersedeToolCall(
                     part.state?.status === "completed" ? ((part.state as any).output ?? "") : ""
                 tokensSaved = countTokens(inputStr) + countTokens(outputStr)
 
-                // Clear the output to free memory
+                // Replace the output with its digest to free memory
                 if (part.state?.status === "completed") {
-                    ;(part.state as any).output = `[auto-superseded: ${reason}]`
+                    const digest = createToolDigest(part, getDigestMaxTokens(config))
+                    ;(part.state as any).output = digest
+                        ? `[auto-superseded: ${reason}]\n${digest}`
+                        : `[auto-superseded: ${reason}]`
+                    tokensSaved = Math.max(0, tokensSaved - countTokens(digest ?? ""))
                 }
 
                 // FIX INPUT LEAK: Strip input to metadata-only
@@ -202,74 +219,286 @@ interface SupersedeContext {
     turnCounter: number
 }
 
-/** Hash-based supersede: if same hash exists for a different callID, supersede the old one */
+/**
+ * Check whether an older call must survive supersede: pinned calls and calls
+ * touching a protectedFilePatterns path are never superseded.
+ */
+function isSupersedeBlocked(ctx: SupersedeContext, oldCallId: string): boolean {
+    const { state, config, logger } = ctx
+    if (isCallPinned(state, oldCallId)) return true
+
+    const protection = findFileProtection(
+        state.toolParameters.get(oldCallId)?.parameters,
+        config.protectedFilePatterns,
+    )
+    if (protection) {
+        logger.debug(`Not superseding ${oldCallId}: ${formatFileProtection(protection)}`)
+        return true
+    }
+    return false
+}
+
+/**
+ * Hash-based supersede: if same hash exists for a different callID, supersede
+ * the old one. The hash then names the new call, so the old call's entry is
+ * dropped even when another strategy (or a pin) handles it instead.
+ */
 function processHashSupersede(ctx: SupersedeContext): void {
-    const { state, messages, logger, part, baseHash, turnCounter } = ctx
-    if (
-        state.hashRegistry.calls.has(baseHash) &&
-        state.hashRegistry.calls.get(baseHash) !== part.callID
-    ) {
-        const oldCallId = state.hashRegistry.calls.get(baseHash)!
+    const { state, config, messages, logger, part, baseHash, turnCounter } = ctx
+    const oldCallId = state.hashRegistry.calls.get(baseHash)
+    if (oldCallId !== undefined && oldCallId !== part.callID) {
         const oldParams = state.toolParameters.get(oldCallId)
-        if (oldParams && oldParams.status === "completed" && oldParams.turn < turnCounter) {
+        // Rule matches and test/build runs are handled by processRuleSupersede
+        // and processRunSupersede instead
+        if (
+            oldParams &&
+            oldParams.status === "completed" &&
+            oldParams.turn < turnCounter &&
+            !getRuleMatch(ctx) &&
+            !getRunCommandKind(ctx) &&
+            !isSupersedeBlocked(ctx, oldCallId)
+        ) {
             const tokensSaved = supersedeToolCall(
                 state,
+                config,
                 oldCallId,
                 messages,
                 logger,
                 "hash duplicate",
             )
-            state.stats.strategyStats.autoSupersede.hash.count++
-            state.stats.strategyStats.autoSupersede.hash.tokens += tokensSaved
+            recordPrune(state, [oldCallId], "autoSupersede.hash", tokensSaved)
             logger.info(
                 `[auto-supersede] 🔄 hash ${baseHash.slice(0, 7)}: ${oldCallId} → ${part.callID}`,
             )
-            state.hashRegistry.calls.delete(baseHash)
-            state.hashRegistry.callIds.delete(oldCallId)
         }
+        state.hashRegistry.callIds.delete(oldCallId)
     }
     state.hashRegistry.calls.set(baseHash, part.callID!)
     state.hashRegistry.callIds.set(part.callID!, baseHash)
 }
 
-/** File-based supersede (one-file-one-view): any file op supersedes all previous on same file */
+/**
+ * Rewrite the output of a partially superseded read so it only shows the
+ * line ranges no newer view covers.
+ */
+function trimReadCall(
+    state: SessionState,
+    callId: string,
+    messages: WithParts[],
+    logger: Logger,
+): void {
+    const keep = state.cursors.files.keptReadRanges.get(callId)
+    if (!keep || state.expandedCallIds.has(callId)) return
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) continue
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool" || part.callID !== callId) continue
+            if (part.state?.status !== "completed") return
+
+            part.state.output = trimReadOutput(part.state.output, keep)
+            logger.debug(`Trimmed read ${callId} to ${keep.length} uncovered range(s)`)
+            return
+        }
+    }
+}
+
+/** Drop the trim and refresh bookkeeping of a read that left the context or was restored */
+export function forgetReadView(state: SessionState, callId: string): void {
+    state.cursors.files.keptReadRanges.delete(callId)
+    state.cursors.files.refreshedReads.delete(callId)
+}
+
+/**
+ * Re-apply the recorded edits to a refreshed read after messages are reloaded.
+ */
+function refreshReadCall(state: SessionState, part: any, logger: Logger): void {
+    const edits = state.cursors.files.refreshedReads.get(part.callID)
+    if (!edits || part.state?.status !== "completed" || state.expandedCallIds.has(part.callID)) {
+        return
+    }
+
+    const refreshed = applyEditsToReadOutput(part.state.output, edits)
+    if (refreshed === null) {
+        logger.warn(`Could not re-apply ${edits.length} edit(s) to read ${part.callID}`)
+        return
+    }
+    part.state.output = refreshed
+}
+
+/**
+ * Refresh mode for edits: apply the edit to the latest read of the file, so
+ * that read stays an accurate view, and collapse the edit input to metadata.
+ * Returns the refreshed read's call ID, or null when no read could be updated
+ * and the edit should supersede as usual.
+ */
+function processEditRefresh(ctx: SupersedeContext, existingCallIds: string[]): string | null {
+    const { state, messages, logger, part } = ctx
+    const edit = getReadEdit(part.callID, part.state?.input ?? {})
+    if (!edit) return null
+
+    const { keptReadRanges, refreshedReads } = state.cursors.files
+    const readId = [...existingCallIds]
+        .reverse()
+        .find((id) => state.toolParameters.get(id)?.tool === "read")
+    if (
+        !readId ||
+        state.toolParameters.get(readId)?.status !== "completed" ||
+        keptReadRanges.has(readId) ||
+        state.expandedCallIds.has(readId) ||
+        isSupersedeBlocked(ctx, readId)
+    ) {
+        return null
+    }
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) continue
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        const readPart = parts.find(
+            (p: any) => p.type === "tool" && p.callID === readId && p.state?.status === "completed",
+        ) as any
+        if (!readPart) continue
+
+        const refreshed = applyEditToReadOutput(readPart.state.output, edit)
+        if (refreshed === null) {
+            logger.debug(`Edit ${part.callID} does not apply to read ${readId}, superseding`)
+            return null
+        }
+
+        readPart.state.output = refreshed
+        refreshedReads.set(readId, [...(refreshedReads.get(readId) ?? []), edit])
+        part.state.input = stripInputToMetadata(part.tool, part.state.input)
+        logger.info(`[auto-supersede] 📁 read ${readId} refreshed with edit ${part.callID}`)
+        return readId
+    }
+    return null
+}
+
+/**
+ * Range-aware supersede for a new read: each older read of the same file
+ * loses the lines covered by newer reads. Fully covered reads are superseded,
+ * partially covered ones are trimmed. Returns the call IDs still in view.
+ */
+function processReadRangeSupersede(ctx: SupersedeContext, existingCallIds: string[]): string[] {
+    const { state, config, messages, logger, part, turnCounter } = ctx
+    const { keptReadRanges } = state.cursors.files
+    const remaining: string[] = []
+
+    existingCallIds.forEach((oldCallId, index) => {
+        const oldParams = state.toolParameters.get(oldCallId)
+        if (
+            !oldParams ||
+            oldParams.tool !== "read" ||
+            oldParams.status !== "completed" ||
+            oldParams.turn >= turnCounter ||
+            state.expandedCallIds.has(oldCallId) ||
+            isSupersedeBlocked(ctx, oldCallId)
+        ) {
+            remaining.push(oldCallId)
+            return
+        }
+
+        // Newer views: later reads still tracked for the file, plus this one
+        const covering = [
+            ...existingCallIds
+                .slice(index + 1)
+                .map((id) => state.toolParameters.get(id))
+                .filter((params) => params?.tool === "read")
+                .map((params) => getReadRange(params!.parameters)),
+            getReadRange(part.state?.input ?? {}),
+        ]
+        const current = keptReadRanges.get(oldCallId) ?? [getReadRange(oldParams.parameters)]
+        const uncovered = subtractRanges(current, covering)
+
+        if (uncovered.length === 0) {
+            const tokensSaved = supersedeToolCall(
+                state,
+                config,
+                oldCallId,
+                messages,
+                logger,
+                "read range covered by newer reads",
+            )
+            recordPrune(state, [oldCallId], "autoSupersede.file", tokensSaved)
+            forgetReadView(state, oldCallId)
+            logger.info(`[auto-supersede] 📁 read ${oldCallId} covered by ${part.callID}`)
+            return
+        }
+
+        if (!rangesEqual(uncovered, current)) {
+            keptReadRanges.set(oldCallId, uncovered)
+            trimReadCall(state, oldCallId, messages, logger)
+        }
+        remaining.push(oldCallId)
+    })
+
+    return remaining
+}
+
+/**
+ * File-based supersede (one-file-one-view): a write or edit supersedes all
+ * previous ops on the same file, a read supersedes the parts of earlier reads
+ * it covers (and earlier writes/edits).
+ */
 function processFileSupersede(ctx: SupersedeContext): void {
     const { state, config, messages, logger, part, turnCounter } = ctx
     const fileKey = extractFileKey(part.tool, part.state?.input ?? {})
     if (!fileKey || part.state?.status !== "completed") return
 
     const aggressiveFilePrune = config.strategies.aggressivePruning?.aggressiveFilePrune ?? true
-    const existingCallIds = state.cursors.files.pathToCallIds.get(fileKey)
-    if (existingCallIds) {
+    const { pathToCallIds } = state.cursors.files
+    let existingCallIds = [...(pathToCallIds.get(fileKey) ?? [])].filter((id) => id !== part.callID)
+
+    if (part.tool === "read" && aggressiveFilePrune) {
+        existingCallIds = processReadRangeSupersede(ctx, existingCallIds)
+    }
+
+    const refreshedReadId =
+        part.tool === "edit" && config.strategies.aggressivePruning?.editReadMode === "refresh"
+            ? processEditRefresh(ctx, existingCallIds)
+            : null
+
+    if (aggressiveFilePrune || isWriteTool(part.tool)) {
+        const kept: string[] = []
         for (const oldCallId of existingCallIds) {
-            if (oldCallId === part.callID) continue
             const oldParams = state.toolParameters.get(oldCallId)
-            if (oldParams && oldParams.status === "completed" && oldParams.turn < turnCounter) {
-                if (aggressiveFilePrune || isWriteTool(part.tool)) {
-                    const tokensSaved = supersedeToolCall(
-                        state,
-                        oldCallId,
-                        messages,
-                        logger,
-                        `file superseded by ${part.tool}`,
-                    )
-                    state.stats.strategyStats.autoSupersede.file.count++
-                    state.stats.strategyStats.autoSupersede.file.tokens += tokensSaved
-                    logger.info(
-                        `[auto-supersede] 📁 file ${fileKey}: ${oldParams.tool} ${oldCallId} superseded by ${part.tool}`,
-                    )
-                }
+            // Reads of the file are handled by range above unless the file changed;
+            // a refreshed read stays as the current view of the file
+            if (
+                (part.tool === "read" && oldParams?.tool === "read") ||
+                oldCallId === refreshedReadId
+            ) {
+                kept.push(oldCallId)
+                continue
             }
+            if (
+                !oldParams ||
+                oldParams.status !== "completed" ||
+                oldParams.turn >= turnCounter ||
+                isSupersedeBlocked(ctx, oldCallId)
+            ) {
+                continue
+            }
+
+            const tokensSaved = supersedeToolCall(
+                state,
+                config,
+                oldCallId,
+                messages,
+                logger,
+                `file superseded by ${part.tool}`,
+            )
+            recordPrune(state, [oldCallId], "autoSupersede.file", tokensSaved)
+            forgetReadView(state, oldCallId)
+            logger.info(
+                `[auto-supersede] 📁 file ${fileKey}: ${oldParams.tool} ${oldCallId} superseded by ${part.tool}`,
+            )
         }
-        if (aggressiveFilePrune || isWriteTool(part.tool)) {
-            existingCallIds.clear()
-        }
+        existingCallIds = kept
     }
 
-    if (!state.cursors.files.pathToCallIds.has(fileKey)) {
-        state.cursors.files.pathToCallIds.set(fileKey, new Set())
-    }
-    state.cursors.files.pathToCallIds.get(fileKey)!.add(part.callID!)
+    pathToCallIds.set(fileKey, new Set([...existingCallIds, part.callID!]))
 }
 
 /** URL-based supersede: supersede older webfetch/websearch calls for the same URL/query */
@@ -285,16 +514,21 @@ function processUrlSupersede(ctx: SupersedeContext): void {
         for (const oldCallId of existingUrlCallIds) {
             if (oldCallId === part.callID) continue
             const oldParams = state.toolParameters.get(oldCallId)
-            if (oldParams && oldParams.status === "completed" && oldParams.turn < turnCounter) {
+            if (
+                oldParams &&
+                oldParams.status === "completed" &&
+                oldParams.turn < turnCounter &&
+                !isSupersedeBlocked(ctx, oldCallId)
+            ) {
                 const tokensSaved = supersedeToolCall(
                     state,
+                    config,
                     oldCallId,
                     messages,
                     logger,
                     `URL superseded by ${part.tool}`,
                 )
-                state.stats.strategyStats.autoSupersede.url.count++
-                state.stats.strategyStats.autoSupersede.url.tokens += tokensSaved
+                recordPrune(state, [oldCallId], "autoSupersede.url", tokensSaved)
                 logger.info(
                     `[auto-supersede] 🔗 URL ${urlKey.slice(0, 50)}: ${oldParams.tool} ${oldCallId} superseded by ${part.tool}`,
                 )
@@ -323,16 +557,21 @@ function processStateQuerySupersede(ctx: SupersedeContext): void {
         for (const oldCallId of existingQueryCallIds) {
             if (oldCallId === part.callID) continue
             const oldParams = state.toolParameters.get(oldCallId)
-            if (oldParams && oldParams.status === "completed" && oldParams.turn < turnCounter) {
+            if (
+                oldParams &&
+                oldParams.status === "completed" &&
+                oldParams.turn < turnCounter &&
+                !isSupersedeBlocked(ctx, oldCallId)
+            ) {
                 const tokensSaved = supersedeToolCall(
                     state,
+                    config,
                     oldCallId,
                     messages,
                     logger,
                     `state query superseded by ${part.tool}`,
                 )
-                state.stats.strategyStats.autoSupersede.stateQuery.count++
-                state.stats.strategyStats.autoSupersede.stateQuery.tokens += tokensSaved
+                recordPrune(state, [oldCallId], "autoSupersede.stateQuery", tokensSaved)
                 logger.info(
                     `[auto-supersede] 📊 query ${stateQueryKey}: ${oldParams.tool} ${oldCallId} superseded`,
                 )
@@ -347,6 +586,130 @@ function processStateQuerySupersede(ctx: SupersedeContext): void {
     state.cursors.stateQueries.queryToCallIds.get(stateQueryKey)!.add(part.callID!)
 }
 
+/** Supersede rule matching a bash call, or null */
+function getRuleMatch(ctx: SupersedeContext): SupersedeRuleMatch | null {
+    const { config, part } = ctx
+    if (part.tool !== "bash") return null
+
+    const rules = config.strategies.supersedeRules ?? []
+    if (rules.length === 0) return null
+
+    const command = (part.state?.input?.command as string) ?? ""
+    const exit = part.state?.metadata?.exit
+    return matchSupersedeRule(rules, command, typeof exit === "number" ? exit : undefined)
+}
+
+/**
+ * Rule supersede (strategies.supersedeRules): keep only the latest
+ * `keepLatest` bash calls per rule key. Returns true when a rule matched, in
+ * which case the built-in state query rules are skipped.
+ */
+function processRuleSupersede(ctx: SupersedeContext): boolean {
+    const { state, config, messages, logger, part, turnCounter } = ctx
+    if (part.state?.status !== "completed") return false
+
+    const matched = getRuleMatch(ctx)
+    if (!matched) return false
+
+    const { rule, key } = matched
+    const { queryToCallIds } = state.cursors.stateQueries
+    const callIds = [...(queryToCallIds.get(key) ?? []), part.callID!]
+    const excess = callIds.slice(0, Math.max(0, callIds.length - rule.keepLatest))
+
+    for (const oldCallId of excess) {
+        const oldParams = state.toolParameters.get(oldCallId)
+        if (
+            oldParams &&
+            oldParams.status === "completed" &&
+            oldParams.turn < turnCounter &&
+            !isSupersedeBlocked(ctx, oldCallId)
+        ) {
+            const tokensSaved = supersedeToolCall(
+                state,
+                config,
+                oldCallId,
+                messages,
+                logger,
+                `superseded by rule ${rule.name}`,
+            )
+            recordPrune(state, [oldCallId], `supersedeRules.${rule.name}`, tokensSaved)
+            logger.info(`[auto-supersede] 📊 rule ${rule.name} ${key}: ${oldCallId} superseded`)
+        }
+    }
+
+    queryToCallIds.set(key, new Set(callIds.slice(excess.length)))
+    return true
+}
+
+/** Kind of test/build run of a bash call, or null when runSupersede is off */
+function getRunCommandKind(ctx: SupersedeContext): RunKind | null {
+    const { config, part } = ctx
+    const runSupersede = config.strategies.aggressivePruning?.runSupersede ?? true
+    if (!runSupersede || part.tool !== "bash") return null
+    return getRunKind((part.state?.input?.command as string) ?? "")
+}
+
+/**
+ * Replace the output of an older test/build run with its pass/fail summary.
+ * The summary is kept so it can be re-applied after messages are reloaded.
+ */
+function summarizeRunCall(
+    state: SessionState,
+    callId: string,
+    kind: RunKind,
+    messages: WithParts[],
+    logger: Logger,
+): void {
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) continue
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+        for (const part of parts) {
+            if (part.type !== "tool" || part.callID !== callId) continue
+            if (part.state?.status !== "completed") return
+
+            const summary = summarizeRunOutput(kind, part.state.output)
+            const tokensSaved = Math.max(0, countTokens(part.state.output) - countTokens(summary))
+            part.state.output = summary
+            state.cursors.stateQueries.runSummaries.set(callId, summary)
+
+            recordRewriteOnce(state, RUN_SUMMARY_RECORD_PREFIX, callId, "runSummaries", tokensSaved)
+            logger.info(`[auto-supersede] 🧪 ${kind} run ${callId} collapsed to summary`)
+            return
+        }
+    }
+}
+
+/**
+ * Test/build run supersede: keep the latest full run of each kind and
+ * collapse older runs to their summary. Returns true for test/build runs.
+ */
+function processRunSupersede(ctx: SupersedeContext): boolean {
+    const { state, messages, logger, part, turnCounter } = ctx
+    if (part.state?.status !== "completed") return false
+    const kind = getRunCommandKind(ctx)
+    if (!kind) return false
+
+    const key = `run:${kind}`
+    const { queryToCallIds, runSummaries } = state.cursors.stateQueries
+    for (const oldCallId of queryToCallIds.get(key) ?? []) {
+        const oldParams = state.toolParameters.get(oldCallId)
+        if (
+            oldParams &&
+            oldParams.status === "completed" &&
+            oldParams.turn < turnCounter &&
+            !runSummaries.has(oldCallId) &&
+            !state.expandedCallIds.has(oldCallId) &&
+            !state.prune.toolIds.includes(oldCallId) &&
+            !isSupersedeBlocked(ctx, oldCallId)
+        ) {
+            summarizeRunCall(state, oldCallId, kind, messages, logger)
+        }
+    }
+
+    queryToCallIds.set(key, new Set([part.callID!]))
+    return true
+}
+
 /** Snapshot supersede: keep only the latest snapshot */
 function processSnapshotSupersede(ctx: SupersedeContext): void {
     const { state, config, messages, logger, part, turnCounter } = ctx
@@ -359,16 +722,21 @@ function processSnapshotSupersede(ctx: SupersedeContext): void {
         for (const oldCallId of allSnapshotIds) {
             if (oldCallId === part.callID) continue
             const oldParams = state.toolParameters.get(oldCallId)
-            if (oldParams && oldParams.status === "completed" && oldParams.turn < turnCounter) {
+            if (
+                oldParams &&
+                oldParams.status === "completed" &&
+                oldParams.turn < turnCounter &&
+                !isSupersedeBlocked(ctx, oldCallId)
+            ) {
                 const tokensSaved = supersedeToolCall(
                     state,
+                    config,
                     oldCallId,
                     messages,
                     logger,
                     "snapshot superseded by newer snapshot",
                 )
-                state.stats.strategyStats.autoSupersede.snapshot.count++
-                state.stats.strategyStats.autoSupersede.snapshot.tokens += tokensSaved
+                recordPrune(state, [oldCallId], "autoSupersede.snapshot", tokensSaved)
                 logger.info(
                     `[auto-supersede] 📸 snapshot ${oldCallId} superseded by ${part.callID}`,
                 )
@@ -392,15 +760,16 @@ function processRetrySupersede(ctx: SupersedeContext): void {
         if (pendingRetries && pendingRetries.length > 0) {
             for (const failedCallId of pendingRetries) {
                 if (failedCallId === part.callID) continue
+                if (isSupersedeBlocked(ctx, failedCallId)) continue
                 const tokensSaved = supersedeToolCall(
                     state,
+                    config,
                     failedCallId,
                     messages,
                     logger,
                     "retry succeeded - pruning failed attempt",
                 )
-                state.stats.strategyStats.autoSupersede.retry.count++
-                state.stats.strategyStats.autoSupersede.retry.tokens += tokensSaved
+                recordPrune(state, [failedCallId], "autoSupersede.retry", tokensSaved)
                 logger.info(
                     `[auto-supersede] 🔄 retry ${failedCallId} pruned after successful ${part.callID}`,
                 )
@@ -490,7 +859,7 @@ function trackContextPruneOutput(state: SessionState, part: any, logger: Logger)
 /**
  * Sync tool parameters from OpenCode's session.messages() API.
  * Also generates stable hashes for each tool call.
- * Orchestrates auto-supersede strategies: hash, file, URL, stateQuery, snapshot, retry.
+ * Orchestrates auto-supersede strategies: hash, file, URL, rules, runs, stateQuery, snapshot, retry.
  */
 export async function syncToolCache(
     state: SessionState,
@@ -502,6 +871,9 @@ export async function syncToolCache(
         logger.info("Syncing tool parameters from OpenCode messages")
 
         let turnCounter = 0
+        const refreshEditIds = new Set(
+            [...state.cursors.files.refreshedReads.values()].flat().map((edit) => edit.callId),
+        )
 
         for (const msg of messages) {
             if (isMessageCompacted(state, msg)) {
@@ -522,6 +894,20 @@ export async function syncToolCache(
                 // Track context_prune output for status bar display
                 trackContextPruneOutput(state, part, logger)
 
+                // Re-apply edit refreshes and range trims of earlier reads, the
+                // input collapse of edits used for a refresh, and run summaries
+                refreshReadCall(state, part, logger)
+                if (state.cursors.files.keptReadRanges.has(part.callID)) {
+                    trimReadCall(state, part.callID, [msg], logger)
+                }
+                if (refreshEditIds.has(part.callID) && part.state?.input) {
+                    part.state.input = stripInputToMetadata(part.tool, part.state.input)
+                }
+                const runSummary = state.cursors.stateQueries.runSummaries.get(part.callID)
+                if (runSummary !== undefined && part.state?.status === "completed") {
+                    part.state.output = runSummary
+                }
+
                 // Skip if already cached
                 if (state.toolParameters.has(part.callID)) {
                     continue
@@ -545,7 +931,9 @@ export async function syncToolCache(
                     processHashSupersede(ctx)
                     processFileSupersede(ctx)
                     processUrlSupersede(ctx)
-                    processStateQuerySupersede(ctx)
+                    if (!processRuleSupersede(ctx) && !processRunSupersede(ctx)) {
+                        processStateQuerySupersede(ctx)
+                    }
                     processSnapshotSupersede(ctx)
                     processRetrySupersede(ctx)
                 }
@@ -569,10 +957,10 @@ export async function syncToolCache(
         trimToolParametersCache(state)
 
         // Track todowrite/todoread interactions after tool cache sync (includes todo supersede)
-        trackTodoInteractions(state, messages, logger)
+        trackTodoInteractions(state, config, messages, logger)
 
         // Track context tool interactions for auto-supersede
-        trackContextInteractions(state, messages, logger)
+        trackContextInteractions(state, config, messages, logger)
     } catch (error) {
         logger.warn("Failed to sync tool parameters from OpenCode", {
             error: error instanceof Error ? error.message : String(error),
@@ -585,7 +973,12 @@ export async function syncToolCache(
  * Called after tool cache sync to detect todo list updates.
  * Implements todo-based supersede: clears old todowrite AND todoread calls.
  */
-function trackTodoInteractions(state: SessionState, messages: WithParts[], logger: Logger): void {
+function trackTodoInteractions(
+    state: SessionState,
+    config: PluginConfig,
+    messages: WithParts[],
+    logger: Logger,
+): void {
     // Find the most recent todowrite and todoread calls
     let latestTodowriteCallId: string | null = null
     let latestTodowriteTurn = 0
@@ -652,17 +1045,18 @@ function trackTodoInteractions(state: SessionState, messages: WithParts[], logge
         for (const { callId, turn } of allTodowriteCallIds) {
             if (callId === latestTodowriteCallId) continue
             if (state.prune.toolIds.includes(callId)) continue // Already pruned
+            if (isCallPinned(state, callId)) continue
 
             const tokensSaved = supersedeToolCall(
                 state,
+                config,
                 callId,
                 messages,
                 logger,
                 "newer todowrite exists",
             )
             if (tokensSaved > 0) {
-                state.stats.strategyStats.autoSupersede.todo.count++
-                state.stats.strategyStats.autoSupersede.todo.tokens += tokensSaved
+                recordPrune(state, [callId], "autoSupersede.todo", tokensSaved)
                 logger.info(
                     `[auto-supersede] ✅ todo: pruned old todowrite ${callId} (turn ${turn})`,
                 )
@@ -705,17 +1099,18 @@ function trackTodoInteractions(state: SessionState, messages: WithParts[], logge
         for (const { callId, turn } of allTodoreadCallIds) {
             if (callId === latestTodoreadCallId) continue
             if (state.prune.toolIds.includes(callId)) continue // Already pruned
+            if (isCallPinned(state, callId)) continue
 
             const tokensSaved = supersedeToolCall(
                 state,
+                config,
                 callId,
                 messages,
                 logger,
                 "newer todoread exists",
             )
             if (tokensSaved > 0) {
-                state.stats.strategyStats.autoSupersede.todo.count++
-                state.stats.strategyStats.autoSupersede.todo.tokens += tokensSaved
+                recordPrune(state, [callId], "autoSupersede.todo", tokensSaved)
                 logger.info(
                     `[auto-supersede] ✅ todo: pruned old todoread ${callId} (turn ${turn})`,
                 )
@@ -735,6 +1130,7 @@ function trackTodoInteractions(state: SessionState, messages: WithParts[], logge
  */
 function trackContextInteractions(
     state: SessionState,
+    config: PluginConfig,
     messages: WithParts[],
     logger: Logger,
 ): void {
@@ -776,17 +1172,18 @@ function trackContextInteractions(
         for (const { callId, turn } of allContextCallIds) {
             if (callId === latestContextCallId) continue
             if (state.prune.toolIds.includes(callId)) continue // Already pruned
+            if (isCallPinned(state, callId)) continue
 
             const tokensSaved = supersedeToolCall(
                 state,
+                config,
                 callId,
                 messages,
                 logger,
                 "newer context exists",
             )
             if (tokensSaved > 0) {
-                state.stats.strategyStats.autoSupersede.context.count++
-                state.stats.strategyStats.autoSupersede.context.tokens += tokensSaved
+                recordPrune(state, [callId], "autoSupersede.context", tokensSaved)
                 logger.info(
                     `[auto-supersede] 🔧 context: pruned old context ${callId} (turn ${turn})`,
                 )
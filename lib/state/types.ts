@@ -1,4 +1,7 @@
 import { Message, Part } from "@opencode-ai/sdk/v2"
+import type { LineRange } from "./read-ranges"
+import type { ReadEdit } from "./read-refresh"
+import type { RelevanceIndex } from "./relevance-index"
 
 export interface WithParts {
     info: Message
@@ -33,6 +36,21 @@ export interface SessionStats {
             retry: { count: number; tokens: number }
         }
         purgeErrors: { count: number; tokens: number }
+        truncatedErrors: { count: number; tokens: number }
+        budgetEviction: { count: number; tokens: number }
+        outputWindow: { count: number; tokens: number }
+        userCodeBlocks: { count: number; tokens: number }
+        fileParts: { count: number; tokens: number }
+        stepMarkers: { count: number; tokens: number }
+        runSummaries: { count: number; tokens: number }
+        /** Tier transitions of strategies.decay */
+        decay: {
+            excerpt: { count: number; tokens: number }
+            digest: { count: number; tokens: number }
+            remove: { count: number; tokens: number }
+        }
+        /** Per-rule stats of strategies.supersedeRules, keyed by rule name */
+        supersedeRules: Record<string, { count: number; tokens: number }>
         manualDiscard: {
             message: { count: number; tokens: number }
             thinking: { count: number; tokens: number }
@@ -42,6 +60,31 @@ export interface SessionStats {
     }
 }
 
+/** Path of a strategyStats bucket, e.g. "autoSupersede.file" or "manualDiscard.tool" */
+export type StrategyStatsBucket =
+    | `autoSupersede.${keyof SessionStats["strategyStats"]["autoSupersede"]}`
+    | "purgeErrors"
+    | "truncatedErrors"
+    | "budgetEviction"
+    | "outputWindow"
+    | "userCodeBlocks"
+    | "fileParts"
+    | "stepMarkers"
+    | "runSummaries"
+    | `decay.${keyof SessionStats["strategyStats"]["decay"]}`
+    | `supersedeRules.${string}`
+    | `manualDiscard.${keyof SessionStats["strategyStats"]["manualDiscard"]}`
+    | "distillation"
+
+/**
+ * How a pruned item was counted in strategyStats.
+ * Kept per pruned ID so a restore can roll the stats back.
+ */
+export interface PruneRecord {
+    bucket: StrategyStatsBucket
+    tokens: number
+}
+
 export interface ReplacementEntry {
     messageId: string
     partIndex: number
@@ -105,6 +148,9 @@ export interface SessionState {
     lastCompaction: number
     currentTurn: number
     variant?: string
+    /** Agent and model of the latest real user message, cached by the chat.message hook */
+    agent?: string
+    model?: { providerID: string; modelID: string }
     lastDiscardStats: LastDiscardStats | null
     lastUserMessageId: string | null
 
@@ -128,6 +174,12 @@ export interface SessionState {
         segments: Map<string, string>
     }
     discardHistory: DiscardStats[]
+    /** Stats bucket of each pruned call ID or "msgId:partIndex" part ID */
+    pruneRecords: Map<string, PruneRecord>
+    /** Call IDs pinned via the pin action; never pruned, automatically or manually */
+    pinnedCallIds: Set<string>
+    /** Call IDs restored via restore; their output is no longer windowed, summarized or decayed */
+    expandedCallIds: Set<string>
 
     // Tracking cursors (grouped)
     cursors: {
@@ -147,12 +199,18 @@ export interface SessionState {
         }
         files: {
             pathToCallIds: Map<string, Set<string>>
+            /** Line ranges still shown by partially superseded reads, by call ID */
+            keptReadRanges: Map<string, LineRange[]>
+            /** Edits applied to refreshed reads (editReadMode "refresh"), by read call ID */
+            refreshedReads: Map<string, ReadEdit[]>
         }
         urls: {
             urlToCallIds: Map<string, Set<string>>
         }
         stateQueries: {
             queryToCallIds: Map<string, Set<string>>
+            /** Summaries shown in place of older test/build runs, by call ID */
+            runSummaries: Map<string, string>
         }
         snapshots: {
             allCallIds: Set<string>
@@ -168,4 +226,6 @@ export interface SessionState {
 
     // Transient runtime cache - NOT persisted, rebuilt on demand
     _cache?: RuntimeCache
+    /** Transient BM25 index of tool outputs - NOT persisted, rebuilt on demand */
+    _relevanceIndex?: RelevanceIndex
 }
@@ -1,5 +1,5 @@
 import type { OpenCodeClient } from "../client"
-import type { SessionState, RuntimeCache } from "./types"
+import type { SessionState, RuntimeCache, PruneRecord, StrategyStatsBucket } from "./types"
 
 interface SessionData {
     parentID?: string
@@ -107,3 +107,85 @@ export function markReasoningPartForPruning(state: SessionState, partId: string)
         }
     }
 }
+
+/**
+ * Check if a tool call is pinned (protected from all pruning).
+ */
+export function isCallPinned(state: SessionState, callId: string): boolean {
+    return state.pinnedCallIds.has(callId)
+}
+
+function getStatsBucket(
+    state: SessionState,
+    bucket: StrategyStatsBucket,
+): { count: number; tokens: number } {
+    const [group, key] = bucket.split(".") as [string, string | undefined]
+    const stats = state.stats.strategyStats as Record<string, any>
+    if (!key) return stats[group]
+    // Per-rule buckets are created on first use
+    stats[group][key] ??= { count: 0, tokens: 0 }
+    return stats[group][key]
+}
+
+/**
+ * Count pruned IDs in a strategyStats bucket and the session totals, and
+ * remember the bucket per ID, so the prune can be rolled back by a restore.
+ * Tokens are split across the IDs; any remainder goes to the first one.
+ */
+export function recordPrune(
+    state: SessionState,
+    ids: string[],
+    bucket: StrategyStatsBucket,
+    tokens: number,
+): void {
+    if (ids.length === 0) return
+
+    const stats = getStatsBucket(state, bucket)
+    stats.count += ids.length
+    stats.tokens += tokens
+    state.stats.totalPruneTokens += tokens
+    state.stats.totalPruneMessages += ids.length
+
+    const share = Math.floor(tokens / ids.length)
+    ids.forEach((id, index) => {
+        const remainder = index === 0 ? tokens - share * ids.length : 0
+        state.pruneRecords.set(id, { bucket, tokens: share + remainder })
+    })
+}
+
+/**
+ * Count a lossy rewrite of content in a strategyStats bucket, keyed as
+ * `${prefix}${id}` in pruneRecords. Messages are reloaded on every request,
+ * so rewriting strategies apply their rewrite each time; the record makes
+ * sure it is counted only once and lets a restore roll it back.
+ * Returns true when the rewrite was not counted before.
+ */
+export function recordRewriteOnce(
+    state: SessionState,
+    prefix: string,
+    id: string,
+    bucket: StrategyStatsBucket,
+    tokens: number,
+): boolean {
+    const recordId = `${prefix}${id}`
+    if (state.pruneRecords.has(recordId)) return false
+    recordPrune(state, [recordId], bucket, tokens)
+    return true
+}
+
+/**
+ * Undo recordPrune for a single ID. Returns the removed record, or undefined
+ * when the ID was pruned before records were kept.
+ */
+export function rollbackPrune(state: SessionState, id: string): PruneRecord | undefined {
+    const record = state.pruneRecords.get(id)
+    if (!record) return undefined
+
+    const stats = getStatsBucket(state, record.bucket)
+    stats.count = Math.max(0, stats.count - 1)
+    stats.tokens = Math.max(0, stats.tokens - record.tokens)
+    state.stats.totalPruneTokens = Math.max(0, state.stats.totalPruneTokens - record.tokens)
+    state.stats.totalPruneMessages = Math.max(0, state.stats.totalPruneMessages - 1)
+    state.pruneRecords.delete(id)
+    return record
+}
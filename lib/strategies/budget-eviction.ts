@@ -0,0 +1,170 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { extractParameterKey } from "../messages/utils"
+import { findFileProtection } from "../protected-file-patterns"
+import { calculateTokensSaved, calculateTotalContextTokens, estimateTokensForItem } from "./utils"
+import { getPruneCache, isCallPinned, markToolForPruning, recordPrune } from "../state/utils"
+import { scoreToolRelevance } from "../state/relevance-index"
+
+export type EvictionPolicy = PluginConfig["strategies"]["budgetEviction"]["policy"]
+
+export interface EvictionCandidate {
+    callId: string
+    /** Turn the call ran in */
+    turn: number
+    /** Latest turn any call touched the same file or target */
+    lastUsedTurn: number
+    tokens: number
+    /** BM25 score against the current goal, set for the relevance policy */
+    relevance?: number
+}
+
+/**
+ * Key used to link later calls to an earlier one: the file path for file
+ * tools, otherwise the tool name plus its main parameter.
+ */
+function getReferenceKey(tool: string, parameters: Record<string, unknown>): string {
+    const filePath = parameters.filePath
+    if (typeof filePath === "string" && filePath.length > 0) {
+        return filePath
+    }
+    return `${tool}:${extractParameterKey(tool, parameters)}`
+}
+
+/**
+ * Estimate the tokens still in context: everything in the messages minus the
+ * outputs that are already pruned.
+ */
+export function estimateContextUsage(state: SessionState, messages: WithParts[]): number {
+    const total = calculateTotalContextTokens(state, messages)
+    const pruned = calculateTokensSaved(
+        state,
+        messages,
+        state.prune.toolIds,
+        state.prune.messagePartIds,
+    )
+    return Math.max(0, total - pruned)
+}
+
+/**
+ * Collect tool outputs that may be evicted. Pruned, pinned, restored,
+ * protected and current-turn calls are skipped.
+ */
+export function findEvictionCandidates(
+    state: SessionState,
+    config: PluginConfig,
+    messages: WithParts[],
+): EvictionCandidate[] {
+    const { prunedToolIds } = getPruneCache(state)
+    const protectedTools = config.tools.settings.protectedTools
+
+    const relevance =
+        config.strategies.budgetEviction.policy === "relevance"
+            ? scoreToolRelevance(state, messages)
+            : null
+
+    const lastUsedTurns = new Map<string, number>()
+    for (const metadata of state.toolParameters.values()) {
+        const key = getReferenceKey(metadata.tool, metadata.parameters)
+        lastUsedTurns.set(key, Math.max(lastUsedTurns.get(key) ?? 0, metadata.turn))
+    }
+
+    const candidates: EvictionCandidate[] = []
+    for (const [callId, metadata] of state.toolParameters) {
+        if (prunedToolIds.has(callId)) continue
+        if (metadata.status !== "completed") continue
+        if (metadata.turn >= state.currentTurn) continue
+        if (protectedTools.includes(metadata.tool)) continue
+        if (isCallPinned(state, callId) || state.expandedCallIds.has(callId)) continue
+        if (findFileProtection(metadata.parameters, config.protectedFilePatterns)) continue
+
+        const estimate = estimateTokensForItem(state, messages, callId)
+        if (!estimate || estimate.estimatedTokens === 0) continue
+
+        candidates.push({
+            callId,
+            turn: metadata.turn,
+            lastUsedTurn:
+                lastUsedTurns.get(getReferenceKey(metadata.tool, metadata.parameters)) ??
+                metadata.turn,
+            tokens: estimate.estimatedTokens,
+            relevance: relevance ? (relevance.get(callId) ?? 0) : undefined,
+        })
+    }
+    return candidates
+}
+
+/**
+ * Order candidates by eviction policy; the first candidate is evicted first.
+ * Ties fall back to the oldest call.
+ */
+export function rankEvictionCandidates(
+    candidates: EvictionCandidate[],
+    policy: EvictionPolicy,
+): EvictionCandidate[] {
+    return [...candidates].sort((a, b) => {
+        if (policy === "largest" && a.tokens !== b.tokens) {
+            return b.tokens - a.tokens
+        }
+        if (policy === "lru" && a.lastUsedTurn !== b.lastUsedTurn) {
+            return a.lastUsedTurn - b.lastUsedTurn
+        }
+        if (policy === "relevance" && a.relevance !== b.relevance) {
+            return (a.relevance ?? 0) - (b.relevance ?? 0)
+        }
+        return a.turn - b.turn
+    })
+}
+
+/**
+ * Budget Eviction strategy - when the estimated context exceeds the
+ * high-water mark, prunes unprotected tool outputs in policy order until
+ * usage drops below the low-water mark.
+ *
+ * Modifies the session state in place to add pruned tool call IDs.
+ */
+export const budgetEviction = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    const budget = config.strategies.budgetEviction
+    if (!budget?.enabled) {
+        return
+    }
+
+    const highWater = budget.maxContextTokens * budget.highWaterMark
+    const lowWater = budget.maxContextTokens * budget.lowWaterMark
+
+    let usage = estimateContextUsage(state, messages)
+    if (usage <= highWater) {
+        return
+    }
+
+    const startUsage = usage
+    const ranked = rankEvictionCandidates(
+        findEvictionCandidates(state, config, messages),
+        budget.policy,
+    )
+
+    const evicted: string[] = []
+    for (const candidate of ranked) {
+        if (usage <= lowWater) break
+
+        markToolForPruning(state, candidate.callId)
+        recordPrune(state, [candidate.callId], "budgetEviction", candidate.tokens)
+        evicted.push(candidate.callId)
+        usage -= candidate.tokens
+    }
+
+    if (evicted.length === 0) {
+        logger.debug(`Context over budget (~${startUsage} tokens) but nothing can be evicted`)
+        return
+    }
+
+    logger.info(
+        `Budget eviction (${budget.policy}): evicted ${evicted.length} tool outputs, ~${startUsage} -> ~${usage} tokens`,
+    )
+}
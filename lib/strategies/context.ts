@@ -15,6 +15,8 @@ import {
     executeContextReasoningDistill,
 } from "./distill"
 import { executeReplace, formatReplaceResult } from "./replace"
+import { executeContextRestore } from "./restore"
+import { executeContextPin } from "./pin"
 
 const CONTEXT_TOOL_SPEC = loadPrompt("context-spec")
 
@@ -64,6 +66,20 @@ function formatInventoryLine(inventory: ReturnType<typeof getHashInventory>): st
     return `Available: ${parts.join(", ")}`
 }
 
+/**
+ * Validate hash format before processing.
+ */
+function validateHashFormat(hashes: string[]): void {
+    for (const target of hashes) {
+        if (!/^[a-f0-9]{6}$/i.test(target)) {
+            throw new Error(
+                `Invalid hash format: "${target}" (${target.length} chars).\n` +
+                    `Expected: exactly 6 hex characters (0-9, a-f), e.g., "a1b2c3"`,
+            )
+        }
+    }
+}
+
 /**
  * Execute context operation (discard, distill) with unified interface.
  * Supports mixed targets: tool hashes and message hashes in single call.
@@ -87,16 +103,7 @@ export async function executeContext(
         )
     }
 
-    // Validate hash format before processing
-    for (const tuple of targets) {
-        const target = tuple[0]
-        if (!/^[a-f0-9]{6}$/i.test(target)) {
-            throw new Error(
-                `Invalid hash format: "${target}" (${target.length} chars).\n` +
-                    `Expected: exactly 6 hex characters (0-9, a-f), e.g., "a1b2c3"`,
-            )
-        }
-    }
+    validateHashFormat(targets.map((tuple) => tuple[0]))
 
     const messagesResponse = await client.session.messages({
         path: { id: sessionId },
@@ -313,12 +320,14 @@ export function createContextTool(ctx: PruneToolContext): ReturnType<typeof tool
         description: CONTEXT_TOOL_SPEC,
         args: {
             action: tool.schema
-                .enum(["discard", "distill", "replace"])
-                .describe("The action to perform: discard, distill, or replace"),
+                .enum(["discard", "distill", "replace", "restore", "pin", "unpin"])
+                .describe(
+                    "The action to perform: discard, distill, replace, restore, pin, or unpin",
+                ),
             targets: tool.schema
                 .array(tool.schema.array(tool.schema.string()))
                 .describe(
-                    "Array of targets: [hash] for discard, [hash, summary] for distill, [start, end, replacement] for replace",
+                    "Array of targets: [hash] for discard/restore/pin/unpin, [hash, summary] for distill, [start, end, replacement] for replace",
                 ),
         },
         async execute(args, toolCtx) {
@@ -345,6 +354,18 @@ export function createContextTool(ctx: PruneToolContext): ReturnType<typeof tool
                 return executeReplaceAction(ctx, toolCtx, operations)
             }
 
+            if (action === "restore") {
+                const hashes = targets.map((target) => target[0]!)
+                validateHashFormat(hashes)
+                return executeContextRestore(ctx, toolCtx, hashes)
+            }
+
+            if (action === "pin" || action === "unpin") {
+                const hashes = targets.map((target) => target[0]!)
+                validateHashFormat(hashes)
+                return executeContextPin(ctx, toolCtx, hashes, action === "pin")
+            }
+
             return executeContext(
                 ctx,
                 toolCtx,
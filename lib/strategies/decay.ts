@@ -0,0 +1,143 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { isMessageCompacted } from "../shared-utils"
+import { findFileProtection } from "../protected-file-patterns"
+import { getPruneCache, isCallPinned, markToolForPruning, recordRewriteOnce } from "../state/utils"
+import { createToolDigest, getDigestMaxTokens, type ToolPartLike } from "../messages/digest"
+import { truncate } from "../utils/string"
+import { countTokens } from "./utils"
+
+export type DecayTier = PluginConfig["strategies"]["decay"]["tiers"][number]["tier"]
+
+/**
+ * pruneRecords key prefix of a tier transition. Removals are keyed by the
+ * bare call ID like other prunes.
+ */
+export function getDecayRecordPrefix(tier: DecayTier): string {
+    return tier === "remove" ? "" : `decay:${tier}:`
+}
+
+/** Order of the tiers; an output only moves forward */
+const TIER_ORDER: DecayTier[] = ["excerpt", "digest", "remove"]
+
+/**
+ * Keep the first and last lines of an output with a marker for the cut.
+ * Returns null when the output is too short to save anything.
+ */
+export function excerptOutput(output: string, headLines: number, tailLines: number): string | null {
+    const lines = output.split("\n")
+    const omitted = lines.length - headLines - tailLines
+    if (omitted <= 1) {
+        return null
+    }
+    return [
+        ...lines.slice(0, headLines),
+        `[... ${omitted} lines decayed ...]`,
+        ...lines.slice(lines.length - tailLines),
+    ].join("\n")
+}
+
+/**
+ * Digest tier text: the structural digest of the output, or its first line
+ * for tools without one.
+ */
+export function digestOutput(part: ToolPartLike, maxTokens: number): string {
+    const digest = createToolDigest(part, maxTokens)
+    if (digest) {
+        return `[${part.tool}() output decayed]\n${digest}`
+    }
+    const firstLine = (part.state.output ?? "").split("\n").find((line) => line.trim() !== "")
+    return `[${part.tool}() output decayed]${firstLine ? ` ${truncate(firstLine.trim(), 120)}` : ""}`
+}
+
+/**
+ * The tier an output of the given age is in, or null while it stays in full.
+ * Tiers are ordered by increasing afterTurns.
+ */
+export function getDecayTier(
+    tiers: PluginConfig["strategies"]["decay"]["tiers"],
+    age: number,
+): DecayTier | null {
+    let current: DecayTier | null = null
+    for (const tier of tiers) {
+        if (age >= tier.afterTurns) current = tier.tier
+    }
+    return current
+}
+
+/**
+ * Decay strategy - shrinks unprotected tool outputs progressively as they age:
+ * full, then a head/tail excerpt, then a one-line digest, then removal.
+ * Each tier transition is counted once in strategyStats.decay; an output that
+ * skips a tier (e.g. after a restart) is counted in every tier it passed.
+ * A restored call is left in full.
+ */
+export const decayToolOutputs = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    const decay = config.strategies.decay
+    if (!decay?.enabled || decay.tiers.length === 0) {
+        return
+    }
+
+    const protectedTools = config.tools.settings.protectedTools
+    const digestMaxTokens = getDigestMaxTokens(config)
+    const { prunedToolIds } = getPruneCache(state)
+    const transitions: Record<DecayTier, number> = { excerpt: 0, digest: 0, remove: 0 }
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) continue
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+
+        for (const part of parts) {
+            if (part.type !== "tool" || part.state?.status !== "completed") continue
+            if (prunedToolIds.has(part.callID)) continue
+            if (protectedTools.includes(part.tool) || isCallPinned(state, part.callID)) continue
+            if (state.expandedCallIds.has(part.callID)) continue
+
+            const metadata = state.toolParameters.get(part.callID)
+            if (!metadata) continue
+            if (findFileProtection(metadata.parameters, config.protectedFilePatterns)) continue
+
+            const tier = getDecayTier(decay.tiers, state.currentTurn - metadata.turn)
+            if (!tier) continue
+
+            // Text of the output at each tier up to the current one
+            const full = part.state.output
+            const excerpt =
+                excerptOutput(full, decay.excerptHeadLines, decay.excerptTailLines) ?? full
+            const stages: Record<DecayTier, string> = {
+                excerpt,
+                digest: digestOutput(part, digestMaxTokens),
+                remove: "",
+            }
+
+            let previous = full
+            for (const step of TIER_ORDER.slice(0, TIER_ORDER.indexOf(tier) + 1)) {
+                const tokens = Math.max(0, countTokens(previous) - countTokens(stages[step]))
+                const prefix = getDecayRecordPrefix(step)
+                if (recordRewriteOnce(state, prefix, part.callID, `decay.${step}`, tokens)) {
+                    transitions[step]++
+                }
+                previous = stages[step]
+            }
+
+            if (tier === "remove") {
+                markToolForPruning(state, part.callID)
+            } else {
+                part.state.output = stages[tier]
+            }
+        }
+    }
+
+    const moved = TIER_ORDER.filter((tier) => transitions[tier] > 0)
+    if (moved.length > 0) {
+        logger.info(
+            `Decayed tool outputs: ${moved.map((tier) => `${transitions[tier]} → ${tier}`).join(", ")}`,
+        )
+    }
+}
@@ -5,6 +5,8 @@
 import type { PruneToolContext } from "./_types"
 import { SessionState, ToolParameterEntry, WithParts, ensureSessionInitialized } from "../state"
 import { saveSessionState } from "../state/persistence"
+import { isCallPinned, recordPrune } from "../state/utils"
+import { findFileProtection, formatFileProtection } from "../protected-file-patterns"
 import { sendUnifiedNotification, PruneReason, sendAttemptedNotification } from "../ui/notification"
 import type { ItemizedPrunedItem } from "../ui/pruning-status"
 import { formatDiscardNotification } from "../ui/minimal-notifications"
@@ -75,7 +77,7 @@ export async function executeToolPrune(
 
     // Calculate savings
     const tokensSaved = calculateTokensSaved(state, messages, callIds, [])
-    updateStats(state, callIds.length, tokensSaved, reason)
+    updateStats(state, callIds, tokensSaved, reason)
 
     // Record in history
     state.discardHistory.push({
@@ -214,6 +216,7 @@ export async function executeContextMessageDiscard(
 
     let discardedCount = 0
     let tokensSaved = 0
+    const discardedPartIds: string[] = []
     const itemizedPruned: ItemizedPrunedItem[] = []
 
     for (const hash of hashes) {
@@ -221,6 +224,7 @@ export async function executeContextMessageDiscard(
         if (partId) {
             if (!state.prune.messagePartIds.includes(partId)) {
                 state.prune.messagePartIds.push(partId)
+                discardedPartIds.push(partId)
                 logger.info(`Discarded message part ${partId} via hash ${hash}`)
                 discardedCount++
                 // Estimate tokens saved (rough estimate based on typical message size)
@@ -239,8 +243,7 @@ export async function executeContextMessageDiscard(
         // Update stats for message discards
         state.stats.pruneTokenCounter += tokensSaved
         state.stats.pruneMessageCounter += discardedCount
-        state.stats.strategyStats.manualDiscard.message.count += discardedCount
-        state.stats.strategyStats.manualDiscard.message.tokens += tokensSaved
+        recordPrune(state, discardedPartIds, "manualDiscard.message", tokensSaved)
 
         state.lastDiscardStats = {
             itemCount: discardedCount,
@@ -339,8 +342,12 @@ export async function executeContextReasoningDiscard(
     // Update stats
     state.stats.pruneTokenCounter += tokensSaved
     state.stats.pruneMessageCounter += discardedCount
-    state.stats.strategyStats.manualDiscard.thinking.count += discardedCount
-    state.stats.strategyStats.manualDiscard.thinking.tokens += tokensSaved
+    recordPrune(
+        state,
+        validHashes.map((hash) => state.hashRegistry.reasoning.get(hash)!),
+        "manualDiscard.thinking",
+        tokensSaved,
+    )
 
     state.lastDiscardStats = {
         itemCount: discardedCount,
@@ -423,21 +430,40 @@ function validateCallIds(
                     `To modify protection, update 'tools.settings.protectedTools' in your ACP config.`,
             )
         }
+
+        const protection = findFileProtection(metadata.parameters, config.protectedFilePatterns)
+        if (protection) {
+            const hash = state.hashRegistry.callIds.get(callId) || "unknown"
+            logger.debug("Rejecting prune request - protected file", { callId, hash })
+            throw new Error(
+                `Cannot discard: ${hash} is protected: ${formatFileProtection(protection)}.\n` +
+                    `To modify protection, update 'protectedFilePatterns' in your ACP config.`,
+            )
+        }
+
+        if (isCallPinned(state, callId)) {
+            const hash = state.hashRegistry.callIds.get(callId) || "unknown"
+            logger.debug("Rejecting prune request - pinned call", { callId, hash })
+            throw new Error(
+                `Cannot discard: ${hash} is pinned.\n` +
+                    `Unpin it first with context_prune({ action: "unpin", targets: [["${hash}"]] }).`,
+            )
+        }
     }
 }
 
 function updateStats(
     state: SessionState,
-    count: number,
+    callIds: string[],
     tokensSaved: number,
     reason: PruneReason,
 ): void {
+    const count = callIds.length
     state.stats.pruneTokenCounter += tokensSaved
     state.stats.pruneMessageCounter += count
 
     if (reason === "manual") {
-        state.stats.strategyStats.manualDiscard.tool.count += count
-        state.stats.strategyStats.manualDiscard.tool.tokens += tokensSaved
+        recordPrune(state, callIds, "manualDiscard.tool", tokensSaved)
     }
 
     state.lastDiscardStats = {
@@ -446,9 +472,8 @@ function updateStats(
     }
 }
 
+/** Reset the notification counters; recordPrune already counted the session totals */
 function commitStats(state: SessionState): void {
-    state.stats.totalPruneTokens += state.stats.pruneTokenCounter
     state.stats.pruneTokenCounter = 0
-    state.stats.totalPruneMessages += state.stats.pruneMessageCounter
     state.stats.pruneMessageCounter = 0
 }
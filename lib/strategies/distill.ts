@@ -5,6 +5,8 @@
 import type { PruneToolContext } from "./_types"
 import { SessionState, ToolParameterEntry, WithParts, ensureSessionInitialized } from "../state"
 import { saveSessionState } from "../state/persistence"
+import { isCallPinned, recordPrune } from "../state/utils"
+import { findFileProtection, formatFileProtection } from "../protected-file-patterns"
 import { sendUnifiedNotification, sendAttemptedNotification } from "../ui/notification"
 import type { ItemizedDistilledItem } from "../ui/pruning-status"
 import { formatDiscardNotification } from "../ui/minimal-notifications"
@@ -70,7 +72,7 @@ export async function executeToolDistill(
 
     // Calculate savings
     const tokensSaved = calculateTokensSaved(state, messages, callIds, [])
-    updateStats(state, callIds.length, tokensSaved)
+    updateStats(state, callIds, tokensSaved)
 
     // Record in history
     state.discardHistory.push({
@@ -330,8 +332,12 @@ export async function executeContextReasoningDistill(
     // Update stats - use manualDiscard.thinking for notification display (shows 🧠 icon)
     state.stats.pruneTokenCounter += tokensSaved
     state.stats.pruneMessageCounter += distilledCount
-    state.stats.strategyStats.manualDiscard.thinking.count += distilledCount
-    state.stats.strategyStats.manualDiscard.thinking.tokens += tokensSaved
+    recordPrune(
+        state,
+        processedHashes.map((hash) => state.hashRegistry.reasoning.get(hash)!),
+        "manualDiscard.thinking",
+        tokensSaved,
+    )
 
     state.lastDiscardStats = {
         itemCount: distilledCount,
@@ -362,10 +368,8 @@ export async function executeContextReasoningDistill(
         currentParams,
     )
 
-    // Commit stats
-    state.stats.totalPruneTokens += state.stats.pruneTokenCounter
+    // Session totals were counted by recordPrune; reset the notification counters
     state.stats.pruneTokenCounter = 0
-    state.stats.totalPruneMessages += state.stats.pruneMessageCounter
     state.stats.pruneMessageCounter = 0
 
     saveSessionState(state, logger).catch((err: Error) =>
@@ -391,7 +395,7 @@ export async function executeContextReasoningDistill(
 function validateCallIds(
     state: SessionState,
     callIds: string[],
-    config: { tools: { settings: { protectedTools: string[] } } },
+    config: { tools: { settings: { protectedTools: string[] } }; protectedFilePatterns?: string[] },
     logger: {
         debug: (msg: string, data?: Record<string, unknown>) => void
         warn: (msg: string) => void
@@ -419,6 +423,25 @@ function validateCallIds(
                     `Protected tools: ${allProtectedTools.join(", ")}`,
             )
         }
+
+        const protection = findFileProtection(metadata.parameters, config.protectedFilePatterns)
+        if (protection) {
+            const hash = state.hashRegistry.callIds.get(callId) || "unknown"
+            logger.debug("Rejecting distill request - protected file", { callId, hash })
+            throw new Error(
+                `Cannot distill: ${hash} is protected: ${formatFileProtection(protection)}.\n` +
+                    `To modify protection, update 'protectedFilePatterns' in your ACP config.`,
+            )
+        }
+
+        if (isCallPinned(state, callId)) {
+            const hash = state.hashRegistry.callIds.get(callId) || "unknown"
+            logger.debug("Rejecting distill request - pinned call", { callId, hash })
+            throw new Error(
+                `Cannot distill: ${hash} is pinned.\n` +
+                    `Unpin it first with context_prune({ action: "unpin", targets: [["${hash}"]] }).`,
+            )
+        }
     }
 }
 
@@ -426,20 +449,19 @@ function validateCallIds(
 // Helpers
 // ============================================================================
 
-function updateStats(state: SessionState, count: number, tokensSaved: number): void {
+function updateStats(state: SessionState, callIds: string[], tokensSaved: number): void {
+    const count = callIds.length
     state.stats.pruneTokenCounter += tokensSaved
     state.stats.pruneMessageCounter += count
-    state.stats.strategyStats.distillation.count += count
-    state.stats.strategyStats.distillation.tokens += tokensSaved
+    recordPrune(state, callIds, "distillation", tokensSaved)
     state.lastDiscardStats = {
         itemCount: count,
         tokensSaved: state.stats.pruneTokenCounter,
     }
 }
 
+/** Reset the notification counters; recordPrune already counted the session totals */
 function commitStats(state: SessionState): void {
-    state.stats.totalPruneTokens += state.stats.pruneTokenCounter
     state.stats.pruneTokenCounter = 0
-    state.stats.totalPruneMessages += state.stats.pruneMessageCounter
     state.stats.pruneMessageCounter = 0
 }
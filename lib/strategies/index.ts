@@ -3,6 +3,11 @@ export { PruneToolContext } from "./_types"
 
 // Strategy implementations
 export { purgeErrors } from "./purge-errors"
+export { pruneUserCodeBlocks } from "./user-code-blocks"
+export { truncateOldErrors } from "./truncate-errors"
+export { budgetEviction } from "./budget-eviction"
+export { decayToolOutputs } from "./decay"
+export { windowToolOutputs } from "./output-window"
 
 // Tool operations
 export {
@@ -16,6 +21,9 @@ export {
     executeContextMessageDistill,
 } from "./distill"
 
+export { executeContextRestore, restorePrunedItems } from "./restore"
+export { executeContextPin, setPinned } from "./pin"
+
 // Unified context tool
 export { createContextTool, executeContext } from "./context"
 
@@ -0,0 +1,128 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { isMessageCompacted } from "../shared-utils"
+import { findFileProtection } from "../protected-file-patterns"
+import { getPruneCache, isCallPinned, recordRewriteOnce } from "../state/utils"
+import { getStoredOutputPath, storeFullOutput } from "../state/persistence"
+import { formatTokenCount } from "../utils/string"
+import { countTokens } from "./utils"
+
+/** Windowed outputs are recorded by call ID under this prefix */
+export const WINDOW_RECORD_PREFIX = "window:"
+
+/** Share of the token budget kept from the start of an output; the rest is the tail */
+const HEAD_SHARE = 2 / 3
+
+export interface WindowedOutput {
+    head: string
+    tail: string
+    elidedLines: number
+    elidedTokens: number
+}
+
+/**
+ * Split an output over maxTokens into the head and tail that fit the budget.
+ * Cuts fall on line boundaries unless a single line is longer than its share.
+ * Returns null when the output fits.
+ */
+export function windowOutput(output: string, maxTokens: number): WindowedOutput | null {
+    const tokens = countTokens(output)
+    if (tokens <= maxTokens) {
+        return null
+    }
+
+    // Estimate the character budget from the output's own token density
+    const charsPerToken = output.length / tokens
+    const headChars = Math.floor(maxTokens * HEAD_SHARE * charsPerToken)
+    const tailChars = Math.floor(maxTokens * (1 - HEAD_SHARE) * charsPerToken)
+
+    let head = output.slice(0, headChars)
+    const headEnd = head.lastIndexOf("\n")
+    if (headEnd > 0) head = head.slice(0, headEnd)
+
+    let tail = tailChars > 0 ? output.slice(output.length - tailChars) : ""
+    const tailStart = tail.indexOf("\n")
+    if (tailStart !== -1 && tailStart < tail.length - 1) tail = tail.slice(tailStart + 1)
+
+    const lineCount = (text: string) => (text ? text.split("\n").length : 0)
+    return {
+        head,
+        tail,
+        elidedLines: Math.max(0, lineCount(output) - lineCount(head) - lineCount(tail)),
+        elidedTokens: Math.max(0, tokens - countTokens(head) - countTokens(tail)),
+    }
+}
+
+/**
+ * The head and tail of a windowed output around an elision marker that points
+ * to the full output in the side store.
+ */
+export function formatWindowedOutput(windowed: WindowedOutput, storedPath: string): string {
+    const elided =
+        windowed.elidedLines > 0
+            ? `${windowed.elidedLines} lines (~${formatTokenCount(windowed.elidedTokens)} tokens)`
+            : `~${formatTokenCount(windowed.elidedTokens)} tokens`
+    const marker = `[... ${elided} elided · full output: ${storedPath} · restore this call's hash to show it in full ...]`
+    return [windowed.head, marker, windowed.tail].filter(Boolean).join("\n")
+}
+
+/**
+ * Output window strategy - caps tool outputs at maxOutputTokens (per tool via
+ * `tools`) by keeping their head and tail. The full output is saved to the
+ * side store once, and the marker points the agent to it.
+ *
+ * Runs before hashes are injected so the hash tag stays at the end of the
+ * output. Restored calls are shown in full.
+ */
+export const windowToolOutputs = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    const window = config.strategies.outputWindow
+    if (!window?.enabled || !state.sessionId) {
+        return
+    }
+
+    const protectedTools = config.tools.settings.protectedTools
+    const { prunedToolIds } = getPruneCache(state)
+    let newlyWindowed = 0
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) continue
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+
+        for (const part of parts) {
+            if (part.type !== "tool" || part.state?.status !== "completed") continue
+            if (prunedToolIds.has(part.callID) || state.expandedCallIds.has(part.callID)) continue
+            if (protectedTools.includes(part.tool) || isCallPinned(state, part.callID)) continue
+            if (findFileProtection(part.state.input ?? {}, config.protectedFilePatterns)) continue
+
+            const maxTokens = window.tools[part.tool] ?? window.maxOutputTokens
+            if (maxTokens === 0) continue
+
+            const output = part.state.output
+            const windowed = output ? windowOutput(output, maxTokens) : null
+            if (!windowed) continue
+
+            const saved = windowed.elidedTokens
+            if (
+                recordRewriteOnce(state, WINDOW_RECORD_PREFIX, part.callID, "outputWindow", saved)
+            ) {
+                void storeFullOutput(state.sessionId, part.callID, output, logger)
+                newlyWindowed++
+            }
+
+            part.state.output = formatWindowedOutput(
+                windowed,
+                getStoredOutputPath(state.sessionId, part.callID),
+            )
+        }
+    }
+
+    if (newlyWindowed > 0) {
+        logger.info(`Windowed ${newlyWindowed} oversized tool output(s)`)
+    }
+}
@@ -0,0 +1,135 @@
+/**
+ * Pin tool calls by hash so that no strategy prunes them.
+ *
+ * Pins are per call ID: pinning one bash output keeps that run even when a
+ * later identical command would normally supersede it. Pinning an item that
+ * is already pruned restores it first.
+ */
+
+import type { PruneToolContext } from "./_types"
+import { ensureSessionInitialized, type SessionState, type WithParts } from "../state"
+import { saveSessionState } from "../state/persistence"
+import { detectTargetType } from "../messages/utils"
+import { sendIgnoredMessage } from "../ui/notification"
+import { restorePrunedItems } from "./restore"
+import { getCurrentParams } from "./utils"
+
+export interface PinResult {
+    /** Hashes whose pin state changed */
+    changed: string[]
+    /** Hashes that were pruned and have been restored before pinning */
+    restored: string[]
+    /** Hashes already in the requested state */
+    unchanged: string[]
+    /** Message/reasoning hashes; only tool calls can be pinned */
+    notTool: string[]
+    /** Hashes not in the registry */
+    unknown: string[]
+}
+
+/**
+ * Pin or unpin the tool calls behind the given hashes.
+ */
+export function setPinned(state: SessionState, hashes: string[], pinned: boolean): PinResult {
+    const result: PinResult = { changed: [], restored: [], unchanged: [], notTool: [], unknown: [] }
+
+    for (const hash of hashes) {
+        const targetType = detectTargetType(hash, state)
+        if (targetType === "message_hash" || targetType === "reasoning_hash") {
+            result.notTool.push(hash)
+            continue
+        }
+
+        const callId = state.hashRegistry.calls.get(hash)
+        if (!callId) {
+            result.unknown.push(hash)
+            continue
+        }
+
+        if (state.pinnedCallIds.has(callId) === pinned) {
+            result.unchanged.push(hash)
+            continue
+        }
+
+        if (pinned) {
+            state.pinnedCallIds.add(callId)
+            if (state.prune.toolIds.includes(callId)) {
+                restorePrunedItems(state, [hash])
+                result.restored.push(hash)
+            }
+        } else {
+            state.pinnedCallIds.delete(callId)
+        }
+        result.changed.push(hash)
+    }
+
+    return result
+}
+
+/**
+ * Format a pin result for the agent or the user.
+ */
+export function formatPinResult(result: PinResult, pinned: boolean): string {
+    const verb = pinned ? "Pinned" : "Unpinned"
+    const lines: string[] = []
+
+    lines.push(
+        result.changed.length > 0
+            ? `${verb}: ${result.changed.join(", ")}`
+            : `Nothing ${verb.toLowerCase()}`,
+    )
+    if (result.restored.length > 0) {
+        lines.push(`Restored before pinning: ${result.restored.join(", ")}`)
+    }
+    if (result.unchanged.length > 0) {
+        lines.push(`Already ${verb.toLowerCase()}: ${result.unchanged.join(", ")}`)
+    }
+    if (result.notTool.length > 0) {
+        lines.push(`Only tool outputs can be pinned: ${result.notTool.join(", ")}`)
+    }
+    if (result.unknown.length > 0) {
+        lines.push(`Hash(es) not found: ${result.unknown.join(", ")}`)
+    }
+
+    return lines.join("\n")
+}
+
+/**
+ * Pin and unpin actions of the context_prune tool.
+ */
+export async function executeContextPin(
+    ctx: PruneToolContext,
+    toolCtx: { sessionID: string },
+    hashes: string[],
+    pinned: boolean,
+): Promise<string> {
+    const { client, state, logger, config } = ctx
+    const sessionId = toolCtx.sessionID
+    const action = pinned ? "pin" : "unpin"
+
+    logger.info(`Context tool invoked: ${action}`)
+    logger.info(JSON.stringify({ action, hashes }))
+
+    const messagesResponse = await client.session.messages({
+        path: { id: sessionId },
+    })
+    const messages: WithParts[] = (messagesResponse.data || messagesResponse) as WithParts[]
+
+    await ensureSessionInitialized(client, state, sessionId, logger, messages)
+
+    const result = setPinned(state, hashes, pinned)
+    const message = formatPinResult(result, pinned)
+
+    if (result.changed.length > 0) {
+        if (config.pruneNotification !== "off") {
+            const currentParams = getCurrentParams(state, messages, logger)
+            await sendIgnoredMessage(client, sessionId, `▣ ${message}`, currentParams, logger)
+        }
+
+        saveSessionState(state, logger).catch((err: Error) =>
+            logger.error("Failed to persist state", { error: err.message }),
+        )
+    }
+
+    return message
+}
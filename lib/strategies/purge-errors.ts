@@ -2,9 +2,9 @@ import { PluginConfig } from "../config"
 import { Logger } from "../logger"
 import type { SessionState, WithParts } from "../state"
 import { buildToolIdList } from "../messages/utils"
-import { getFilePathFromParameters, isProtectedFilePath } from "../protected-file-patterns"
+import { findFileProtection, formatFileProtection } from "../protected-file-patterns"
 import { calculateTokensSaved } from "./utils"
-import { getPruneCache } from "../state/utils"
+import { getPruneCache, isCallPinned, recordPrune } from "../state/utils"
 
 /**
  * Purge Errors strategy - prunes tool inputs for tools that errored
@@ -54,8 +54,13 @@ export const purgeErrors = (
             continue
         }
 
-        const filePath = getFilePathFromParameters(metadata.parameters)
-        if (isProtectedFilePath(filePath, config.protectedFilePatterns)) {
+        if (isCallPinned(state, id)) {
+            continue
+        }
+
+        const protection = findFileProtection(metadata.parameters, config.protectedFilePatterns)
+        if (protection) {
+            logger.debug(`Not purging ${id}: ${formatFileProtection(protection)}`)
             continue
         }
 
@@ -73,10 +78,7 @@ export const purgeErrors = (
 
     if (newPruneIds.length > 0) {
         const tokensSaved = calculateTokensSaved(state, messages, newPruneIds)
-        state.stats.totalPruneTokens += tokensSaved
-        state.stats.totalPruneMessages += newPruneIds.length
-        state.stats.strategyStats.purgeErrors.count += newPruneIds.length
-        state.stats.strategyStats.purgeErrors.tokens += tokensSaved
+        recordPrune(state, newPruneIds, "purgeErrors", tokensSaved)
         state.prune.toolIds.push(...newPruneIds)
         logger.debug(
             `Marked ${newPruneIds.length} error tool calls for pruning (older than ${turnThreshold} turns)`,
@@ -0,0 +1,189 @@
+/**
+ * Restore (un-prune) previously pruned items by hash.
+ *
+ * Pruning only hides content: OpenCode keeps the original messages and the
+ * prune lists are applied on every request. Removing an ID from the lists
+ * brings the original content back on the next request. Restoring a tool call
+ * also undoes the lossy rewrites of its output (output window, run summary,
+ * decay tiers, truncated error, read range trim and refresh), and the call is left in full from then on.
+ */
+
+import type { PruneToolContext } from "./_types"
+import { ensureSessionInitialized, type SessionState, type WithParts } from "../state"
+import { saveSessionState } from "../state/persistence"
+import { invalidatePruneCache, rollbackPrune } from "../state/utils"
+import { detectTargetType } from "../messages/utils"
+import { sendIgnoredMessage } from "../ui/notification"
+import { formatTokenCount } from "../ui/utils"
+import { getCurrentParams } from "./utils"
+import { WINDOW_RECORD_PREFIX } from "./output-window"
+import { getDecayRecordPrefix } from "./decay"
+import { ERROR_RECORD_PREFIX } from "./truncate-errors"
+import { RUN_SUMMARY_RECORD_PREFIX } from "../state/run-summary"
+import { forgetReadView } from "../state/tool-cache"
+
+export interface RestoreResult {
+    /** Restored hashes */
+    restored: string[]
+    /** Known hashes whose content was not pruned */
+    notPruned: string[]
+    /** Hashes not in the registry */
+    unknown: string[]
+    /** Tokens rolled back from strategyStats */
+    tokensRestored: number
+}
+
+function removeId(list: string[], id: string): boolean {
+    const index = list.indexOf(id)
+    if (index === -1) return false
+    list.splice(index, 1)
+    return true
+}
+
+/** pruneRecords keys of the lossy rewrites of a tool output */
+function getRewriteRecordIds(callId: string): string[] {
+    return [
+        WINDOW_RECORD_PREFIX,
+        RUN_SUMMARY_RECORD_PREFIX,
+        getDecayRecordPrefix("excerpt"),
+        getDecayRecordPrefix("digest"),
+        ERROR_RECORD_PREFIX,
+    ].map((prefix) => `${prefix}${callId}`)
+}
+
+/**
+ * Undo the rewrites of a tool output and roll back their stats. Returns the
+ * tokens rolled back, or null when the output was not rewritten.
+ */
+function restoreRewrites(state: SessionState, callId: string): number | null {
+    const { keptReadRanges, refreshedReads } = state.cursors.files
+    const hadReadView = keptReadRanges.has(callId) || refreshedReads.has(callId)
+    forgetReadView(state, callId)
+
+    const hadSummary = state.cursors.stateQueries.runSummaries.delete(callId)
+    let tokens: number | null = hadReadView || hadSummary ? 0 : null
+    for (const recordId of getRewriteRecordIds(callId)) {
+        const record = rollbackPrune(state, recordId)
+        if (record) tokens = (tokens ?? 0) + record.tokens
+    }
+    return tokens
+}
+
+/**
+ * Remove the items behind the given hashes from state.prune, roll back their
+ * strategyStats and record the reversal in discardHistory. Restored tool calls
+ * get their rewritten output back and are added to expandedCallIds.
+ */
+export function restorePrunedItems(state: SessionState, hashes: string[]): RestoreResult {
+    const result: RestoreResult = { restored: [], notPruned: [], unknown: [], tokensRestored: 0 }
+
+    for (const hash of hashes) {
+        const targetType = detectTargetType(hash, state)
+        let id: string | undefined
+        let list: string[] | undefined
+
+        if (targetType === "tool_hash") {
+            id = state.hashRegistry.calls.get(hash)
+            list = state.prune.toolIds
+        } else if (targetType === "message_hash") {
+            id = state.hashRegistry.messages.get(hash)
+            list = state.prune.messagePartIds
+        } else if (targetType === "reasoning_hash") {
+            id = state.hashRegistry.reasoning.get(hash)
+            list = state.prune.reasoningPartIds
+        }
+
+        if (!id || !list) {
+            result.unknown.push(hash)
+            continue
+        }
+        const pruned = removeId(list, id)
+        const rewriteTokens = targetType === "tool_hash" ? restoreRewrites(state, id) : null
+        if (!pruned && rewriteTokens === null) {
+            result.notPruned.push(hash)
+            continue
+        }
+
+        if (pruned) {
+            result.tokensRestored += rollbackPrune(state, id)?.tokens ?? 0
+        }
+        if (targetType === "tool_hash") {
+            result.tokensRestored += rewriteTokens ?? 0
+            state.expandedCallIds.add(id)
+        }
+        result.restored.push(hash)
+    }
+
+    if (result.restored.length > 0) {
+        invalidatePruneCache(state)
+        state.discardHistory.push({
+            timestamp: Date.now(),
+            hashes: result.restored,
+            tokensSaved: -result.tokensRestored,
+            reason: "restore",
+        })
+    }
+
+    return result
+}
+
+/**
+ * Format a restore result for the agent or the user.
+ */
+export function formatRestoreResult(result: RestoreResult): string {
+    const lines: string[] = []
+
+    if (result.restored.length > 0) {
+        const tokens =
+            result.tokensRestored > 0 ? ` (~${formatTokenCount(result.tokensRestored)} tokens)` : ""
+        lines.push(`Restored: ${result.restored.join(", ")}${tokens}`)
+    } else {
+        lines.push("Nothing restored")
+    }
+    if (result.notPruned.length > 0) {
+        lines.push(`Not pruned: ${result.notPruned.join(", ")}`)
+    }
+    if (result.unknown.length > 0) {
+        lines.push(`Hash(es) not found: ${result.unknown.join(", ")}`)
+    }
+
+    return lines.join("\n")
+}
+
+/**
+ * Restore action of the context_prune tool.
+ */
+export async function executeContextRestore(
+    ctx: PruneToolContext,
+    toolCtx: { sessionID: string },
+    hashes: string[],
+): Promise<string> {
+    const { client, state, logger, config } = ctx
+    const sessionId = toolCtx.sessionID
+
+    logger.info("Context tool invoked: restore")
+    logger.info(JSON.stringify({ action: "restore", hashes }))
+
+    const messagesResponse = await client.session.messages({
+        path: { id: sessionId },
+    })
+    const messages: WithParts[] = (messagesResponse.data || messagesResponse) as WithParts[]
+
+    await ensureSessionInitialized(client, state, sessionId, logger, messages)
+
+    const result = restorePrunedItems(state, hashes)
+    const message = formatRestoreResult(result)
+
+    if (result.restored.length > 0) {
+        if (config.pruneNotification !== "off") {
+            const currentParams = getCurrentParams(state, messages, logger)
+            await sendIgnoredMessage(client, sessionId, `▣ ${message}`, currentParams, logger)
+        }
+
+        saveSessionState(state, logger).catch((err: Error) =>
+            logger.error("Failed to persist state", { error: err.message }),
+        )
+    }
+
+    return message
+}
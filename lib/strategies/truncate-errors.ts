@@ -0,0 +1,124 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { isMessageCompacted } from "../shared-utils"
+import { findFileProtection } from "../protected-file-patterns"
+import { getPruneCache, isCallPinned, recordRewriteOnce } from "../state/utils"
+import { countTokens } from "./utils"
+
+/** Truncated errors are recorded by call ID under this prefix */
+export const ERROR_RECORD_PREFIX = "error:"
+
+/** JavaScript frame: "at fn (/path/file.ts:10:5)" or "at /path/file.ts:10:5" */
+const JS_FRAME_PATTERN = /^\s*at\s+(?:.*?\()?([^()\s]+):\d+:\d+\)?\s*$/
+
+/** Python frame: 'File "/path/file.py", line 10, in fn' */
+const PYTHON_FRAME_PATTERN = /^\s*File "([^"]+)", line \d+/
+
+/** Frame locations that belong to dependencies or the runtime, not the project */
+const NON_PROJECT_LOCATION_PATTERN =
+    /node_modules|site-packages|dist-packages|^node:|^internal\/|^<anonymous>$|^native$/
+
+function isProjectLocation(location: string): boolean {
+    return !NON_PROJECT_LOCATION_PATTERN.test(location)
+}
+
+/**
+ * Find the innermost stack frame that points into the project. JavaScript
+ * stacks list the innermost frame first, Python tracebacks list it last.
+ */
+export function findInnermostProjectFrame(lines: string[]): string | undefined {
+    for (const line of lines) {
+        const match = line.match(JS_FRAME_PATTERN)
+        if (match && isProjectLocation(match[1]!)) {
+            return line.trim()
+        }
+    }
+
+    for (let i = lines.length - 1; i >= 0; i--) {
+        const match = lines[i]!.match(PYTHON_FRAME_PATTERN)
+        if (match && isProjectLocation(match[1]!)) {
+            return lines[i]!.trim()
+        }
+    }
+
+    return undefined
+}
+
+/**
+ * Reduce an error output to its first line plus the innermost project frame.
+ * Returns null when there is nothing to cut.
+ */
+export function truncateErrorText(error: string): string | null {
+    const lines = error.split("\n")
+    const firstIndex = lines.findIndex((line) => line.trim() !== "")
+    if (firstIndex === -1) {
+        return null
+    }
+
+    const firstLine = lines[firstIndex]!.trim()
+    const rest = lines.slice(firstIndex + 1)
+    const frame = findInnermostProjectFrame(rest)
+    const kept = frame ? [firstLine, `    ${frame}`] : [firstLine]
+    const omitted = rest.filter((line) => line.trim() !== "").length - (frame ? 1 : 0)
+    if (omitted <= 0) {
+        return null
+    }
+
+    return [...kept, `[... ${omitted} lines of error output truncated]`].join("\n")
+}
+
+/**
+ * Truncate Old Errors strategy - reduces the error output of failed tool
+ * calls to the first line plus the innermost project stack frame once they
+ * are older than a configurable number of turns. Unlike purgeErrors, the call
+ * stays in context so the agent still knows the attempt failed.
+ * Restored calls keep their full error.
+ */
+export const truncateOldErrors = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    const aggressive = config.strategies.aggressivePruning
+    if (!aggressive?.truncateOldErrors) {
+        return
+    }
+
+    const turnThreshold = aggressive.errorTruncateTurns
+    const protectedTools = config.tools.settings.protectedTools
+    const { prunedToolIds } = getPruneCache(state)
+    let truncated = 0
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg)) continue
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+
+        for (const part of parts) {
+            if (part.type !== "tool" || part.state?.status !== "error") continue
+            if (!part.state.error || prunedToolIds.has(part.callID)) continue
+            if (state.expandedCallIds.has(part.callID)) continue
+            if (protectedTools.includes(part.tool) || isCallPinned(state, part.callID)) continue
+
+            const metadata = state.toolParameters.get(part.callID)
+            if (!metadata || state.currentTurn - metadata.turn < turnThreshold) continue
+            if (findFileProtection(metadata.parameters, config.protectedFilePatterns)) continue
+
+            const text = truncateErrorText(part.state.error)
+            if (text === null) continue
+
+            const saved = Math.max(0, countTokens(part.state.error) - countTokens(text))
+            if (
+                recordRewriteOnce(state, ERROR_RECORD_PREFIX, part.callID, "truncatedErrors", saved)
+            ) {
+                truncated++
+            }
+            part.state.error = text
+        }
+    }
+
+    if (truncated > 0) {
+        logger.debug(`Truncated ${truncated} old error outputs`)
+    }
+}
@@ -0,0 +1,126 @@
+import { PluginConfig } from "../config"
+import { Logger } from "../logger"
+import type { SessionState, WithParts } from "../state"
+import { isMessageCompacted, isSyntheticMessage } from "../shared-utils"
+import { generatePartHash } from "../utils/hash"
+import { recordRewriteOnce } from "../state/utils"
+import { countTokens } from "./utils"
+
+/** Lines kept from the start and end of a truncated code block */
+const HEAD_LINES = 5
+const TAIL_LINES = 3
+
+/** Blocks this short are left alone; the excerpt would save almost nothing */
+const MIN_TRUNCATE_LINES = HEAD_LINES + TAIL_LINES + 4
+
+/** Fenced block: opening fence (``` or ~~~) with optional info string, body, matching close */
+const FENCED_BLOCK_PATTERN = /^(`{3,}|~{3,})([^\n]*)\n([\s\S]*?)\n\1[ \t]*$/gm
+
+/** Truncated blocks are recorded by the hash of their body */
+const RECORD_PREFIX = "code:"
+
+export interface TruncatedCodeBlock {
+    hash: string
+    text: string
+    tokensSaved: number
+}
+
+/**
+ * Replace the body of a long code block with its first and last lines and a
+ * marker carrying the hash of the original body.
+ */
+export function truncateCodeBlock(
+    fence: string,
+    info: string,
+    body: string,
+): TruncatedCodeBlock | null {
+    const lines = body.split("\n")
+    if (lines.length < MIN_TRUNCATE_LINES) {
+        return null
+    }
+
+    const hash = generatePartHash(body)
+    const omitted = lines.length - HEAD_LINES - TAIL_LINES
+    const text = [
+        `${fence}${info}`,
+        ...lines.slice(0, HEAD_LINES),
+        `[... ${omitted} lines truncated · hash ${hash} ...]`,
+        ...lines.slice(-TAIL_LINES),
+        fence,
+    ].join("\n")
+    const original = `${fence}${info}\n${body}\n${fence}`
+
+    return { hash, text, tokensSaved: Math.max(0, countTokens(original) - countTokens(text)) }
+}
+
+/**
+ * Truncate every long fenced code block in a piece of text.
+ */
+export function truncateCodeBlocks(text: string): {
+    text: string
+    blocks: TruncatedCodeBlock[]
+} {
+    const blocks: TruncatedCodeBlock[] = []
+    const result = text.replace(FENCED_BLOCK_PATTERN, (match, fence, info, body) => {
+        const truncated = truncateCodeBlock(fence, info, body)
+        if (!truncated) {
+            return match
+        }
+        blocks.push(truncated)
+        return truncated.text
+    })
+    return { text: result, blocks }
+}
+
+/**
+ * User Code Blocks strategy - truncates fenced code blocks in user messages
+ * once they are older than a configurable number of turns, keeping a head/tail
+ * excerpt and the hash of the original block. Ignored and synthetic parts
+ * are left alone.
+ */
+export const pruneUserCodeBlocks = (
+    state: SessionState,
+    logger: Logger,
+    config: PluginConfig,
+    messages: WithParts[],
+): void => {
+    const aggressive = config.strategies.aggressivePruning
+    if (!aggressive?.pruneUserCodeBlocks) {
+        return
+    }
+
+    const turnThreshold = aggressive.userCodeBlockTurns
+    let turn = 0
+    let newBlocks = 0
+    let tokensSaved = 0
+
+    for (const msg of messages) {
+        if (isMessageCompacted(state, msg) || isSyntheticMessage(msg)) continue
+        const parts = Array.isArray(msg.parts) ? msg.parts : []
+
+        for (const part of parts) {
+            if (part.type === "step-start") {
+                turn++
+                continue
+            }
+            if (msg.info.role !== "user" || part.type !== "text" || !part.text) continue
+            if (part.ignored || part.synthetic) continue
+            if (state.currentTurn - turn < turnThreshold) continue
+
+            const { text, blocks } = truncateCodeBlocks(part.text)
+            if (blocks.length === 0) continue
+            part.text = text
+
+            for (const { hash, tokensSaved: saved } of blocks) {
+                if (recordRewriteOnce(state, RECORD_PREFIX, hash, "userCodeBlocks", saved)) {
+                    newBlocks++
+                    tokensSaved += saved
+                }
+            }
+        }
+    }
+
+    if (newBlocks > 0) {
+        logger.info(`Truncated ${newBlocks} old user code blocks (~${tokensSaved} tokens)`)
+    }
+}
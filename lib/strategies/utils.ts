@@ -3,6 +3,8 @@ import { UserMessage } from "@opencode-ai/sdk/v2"
 import { Logger } from "../logger"
 import { countTokens as anthropicCountTokens } from "@anthropic-ai/tokenizer"
 import { getLastUserMessage, isMessageCompacted } from "../shared-utils"
+import { isCallPinned } from "../state/utils"
+import { scoreToolRelevance } from "../state/relevance-index"
 
 // Token count memoization cache with LRU eviction
 const tokenCache = new Map<string, number>()
@@ -30,8 +32,8 @@ export function getCurrentParams(
     }
     const userInfo = userMsg.info as UserMessage
     const agent: string = userInfo.agent
-    const providerId: string | undefined = userInfo.model.providerID
-    const modelId: string | undefined = userInfo.model.modelID
+    const providerId: string | undefined = userInfo.model?.providerID
+    const modelId: string | undefined = userInfo.model?.modelID
     const variant: string | undefined = state.variant ?? userInfo.variant
 
     return { providerId, modelId, agent, variant }
@@ -138,8 +140,10 @@ export function estimateTokensForItem(
 }
 
 /**
- * Rank pruning candidates by estimated token savings.
- * Returns top N items sorted by tokens descending, excluding protected tools.
+ * Rank pruning candidates by estimated token savings, weighted down by their
+ * BM25 relevance to the current goal so large off-topic outputs come first.
+ * Returns the top N, excluding protected tools, pinned and restored calls.
+ * Listed in the todo reminder as discard/distill targets.
  */
 export function rankPruningCandidates(
     state: SessionState,
@@ -152,6 +156,7 @@ export function rankPruningCandidates(
     toolName: string
     estimatedTokens: number
     target?: string
+    relevance?: number
 }> {
     const candidates: Array<{
         callId: string
@@ -159,12 +164,15 @@ export function rankPruningCandidates(
         toolName: string
         estimatedTokens: number
         target?: string
+        relevance?: number
     }> = []
+    const relevance = scoreToolRelevance(state, messages)
 
     // Get all unpruned tool callIds with their hashes
     for (const [callId, hash] of state.hashRegistry.callIds) {
         // Skip already pruned
         if (state.prune.toolIds.includes(callId)) continue
+        if (isCallPinned(state, callId) || state.expandedCallIds.has(callId)) continue
 
         const estimate = estimateTokensForItem(state, messages, callId)
         if (!estimate) continue
@@ -181,11 +189,14 @@ export function rankPruningCandidates(
             toolName: estimate.toolName,
             estimatedTokens: estimate.estimatedTokens,
             target: estimate.target,
+            relevance: relevance.get(callId),
         })
     }
 
-    // Sort by tokens descending and take top N
-    return candidates.sort((a, b) => b.estimatedTokens - a.estimatedTokens).slice(0, limit)
+    // Sort by relevance-weighted tokens descending and take top N
+    const weight = (c: { estimatedTokens: number; relevance?: number }) =>
+        c.estimatedTokens / (1 + (c.relevance ?? 0))
+    return candidates.sort((a, b) => weight(b) - weight(a)).slice(0, limit)
 }
 
 /**
@@ -10,6 +10,10 @@ export type PruneReason =
     | "duplicate"
     | "distillation"
     | "manual"
+    | "budget"
+    | "decay.excerpt"
+    | "decay.digest"
+    | "decay.remove"
 
 export interface PruneOperation {
     hash: string
@@ -19,6 +19,10 @@ export type PruneReason =
     | "duplicate"
     | "distillation"
     | "manual"
+    | "budget"
+    | "decay.excerpt"
+    | "decay.digest"
+    | "decay.remove"
 
 export const PRUNE_REASON_LABELS: Record<PruneReason, string> = {
     completion: "Task Complete",
@@ -28,6 +32,10 @@ export const PRUNE_REASON_LABELS: Record<PruneReason, string> = {
     duplicate: "Duplicate Content",
     distillation: "Distillation",
     manual: "Manual Prune",
+    budget: "Context Budget",
+    "decay.excerpt": "Age Decay (excerpt)",
+    "decay.digest": "Age Decay (digest)",
+    "decay.remove": "Age Decay (removed)",
 }
 
 export interface NotificationContext {
@@ -12,6 +12,7 @@ export const PRUNE_CATEGORY_ICONS = {
     thinking: "🧠",
     tool: "⚙️",
     distill: "✨",
+    decay: "⏳",
 } as const
 
 export function countDistillationTokens(distillation?: string[]): number {
@@ -31,7 +32,9 @@ export function formatStatsHeader(strategyStats: SessionState["stats"]["strategy
     // 「 💬 2(1.2K) ▼ ₊ 🧠 1(3.5K) ▼ ₊ ⚙️ 5(8.1K) ▼ ₊ ✨ 3(500) 」
     const parts: string[] = []
 
-    const { manualDiscard, autoSupersede, distillation } = strategyStats
+    const { manualDiscard, autoSupersede, budgetEviction, supersedeRules, distillation } =
+        strategyStats
+    const rules = Object.values(supersedeRules ?? {})
 
     // 💬 Message discard (with ▼)
     if (manualDiscard.message.count > 0) {
@@ -47,15 +50,19 @@ export function formatStatsHeader(strategyStats: SessionState["stats"]["strategy
         )
     }
 
-    // 🔧 Tool discard = manual tool + all auto-supersede (with ▼)
+    // 🔧 Tool discard = manual tool + all auto-supersede + supersede rules + budget eviction (with ▼)
     const toolCount =
         manualDiscard.tool.count +
+        budgetEviction.count +
+        rules.reduce((sum, rule) => sum + rule.count, 0) +
         autoSupersede.hash.count +
         autoSupersede.file.count +
         autoSupersede.todo.count +
         autoSupersede.context.count
     const toolTokens =
         manualDiscard.tool.tokens +
+        budgetEviction.tokens +
+        rules.reduce((sum, rule) => sum + rule.tokens, 0) +
         autoSupersede.hash.tokens +
         autoSupersede.file.tokens +
         autoSupersede.todo.tokens +
@@ -65,6 +72,16 @@ export function formatStatsHeader(strategyStats: SessionState["stats"]["strategy
         parts.push(`${PRUNE_CATEGORY_ICONS.tool} ${toolCount}(${formatTokenCount(toolTokens)}) ▼`)
     }
 
+    // ⏳ Decay = tier transitions of aged tool outputs (with ▼)
+    const decayTiers = Object.values(strategyStats.decay ?? {})
+    const decayCount = decayTiers.reduce((sum, tier) => sum + tier.count, 0)
+    if (decayCount > 0) {
+        const decayTokens = decayTiers.reduce((sum, tier) => sum + tier.tokens, 0)
+        parts.push(
+            `${PRUNE_CATEGORY_ICONS.decay} ${decayCount}(${formatTokenCount(decayTokens)}) ▼`,
+        )
+    }
+
     // ✨ Distillation (no ▼ - transformation, not removal)
     if (distillation.count > 0) {
         parts.push(
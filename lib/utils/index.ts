@@ -3,7 +3,14 @@
  * Re-exports all utility functions for convenient imports.
  */
 
-export { sortObjectKeys, stableStringify, normalizeParams, hashObject } from "./object"
+export {
+    isPlainObject,
+    deepMerge,
+    sortObjectKeys,
+    stableStringify,
+    normalizeParams,
+    hashObject,
+} from "./object"
 
 export {
     at,
@@ -8,6 +8,31 @@
  * - Object sorting is only done at the top level to reduce overhead
  */
 
+/**
+ * Check whether a value is a plain (non-null, non-array) object.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Deep merge `override` into `base`, returning a new object.
+ * Plain objects are merged recursively; arrays and primitives from `override`
+ * replace the base value. Undefined values in `override` are ignored.
+ */
+export function deepMerge<T>(base: T, override: unknown): T {
+    if (!isPlainObject(base) || !isPlainObject(override)) {
+        return (override === undefined ? base : override) as T
+    }
+
+    const merged: Record<string, unknown> = { ...base }
+    for (const [key, value] of Object.entries(override)) {
+        if (value === undefined) continue
+        merged[key] = deepMerge(merged[key], value)
+    }
+    return merged as T
+}
+
 /**
  * Recursively sorts object keys for deterministic serialization.
  * Handles nested objects and arrays.
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handleConfigCommand } from "../../lib/commands/config"
+import { ConfigService } from "../../lib/config"
+import { resolveLayeredConfig } from "../../lib/config/loader"
+import * as loader from "../../lib/config/loader"
+import { sendIgnoredMessage } from "../../lib/ui/notification"
+import type { SessionState } from "../../lib/state"
+
+vi.mock("../../lib/ui/notification", () => ({
+    sendIgnoredMessage: vi.fn(),
+}))
+
+vi.mock("../../lib/strategies/utils", () => ({
+    getCurrentParams: vi.fn(() => ({ agent: "plan", providerId: "openai", modelId: "gpt-5" })),
+}))
+
+const createLogger = () =>
+    ({
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+    }) as unknown as import("../../lib/logger").Logger
+
+async function runConfigCommand(configService?: ConfigService): Promise<string> {
+    await handleConfigCommand({
+        client: {},
+        state: {} as SessionState,
+        logger: createLogger(),
+        sessionId: "session",
+        messages: [],
+        configService,
+    })
+    return vi.mocked(sendIgnoredMessage).mock.calls[0]![2]
+}
+
+describe("handleConfigCommand", () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+        vi.restoreAllMocks()
+    })
+
+    it("annotates values with their source and lists layers", async () => {
+        vi.spyOn(loader, "loadResolvedConfig").mockReturnValue(
+            resolveLayeredConfig([
+                { source: "global", path: "/home/u/acp.jsonc", config: { debug: true } },
+                {
+                    source: "project",
+                    path: "/p/.opencode/acp.jsonc",
+                    config: { strategies: { aggressivePruning: { preset: "verbose" } } },
+                },
+                { source: "env", path: "ACP_* environment variables", config: { enabled: true } },
+            ]),
+        )
+        const service = new ConfigService()
+        service.load("/p")
+
+        const text = await runConfigCommand(service)
+
+        expect(text).toContain("global    /home/u/acp.jsonc")
+        expect(text).toMatch(/debug\s+true {2}\[global\]/)
+        expect(text).toMatch(/enabled\s+true {2}\[env\]/)
+        expect(text).toMatch(/strategies\.aggressivePruning\.preset\s+"verbose" {2}\[project\]/)
+        expect(text).toMatch(/strategies\.aggressivePruning\.pruneFiles\s+\w+ {2}\[preset\]/)
+        expect(text).toMatch(/pruneNotification\s+"minimal" {2}\[default\]/)
+        expect(text).toContain("Protected file patterns:")
+        expect(text).toContain("**/.env")
+    })
+
+    it("shows active overrides and validation warnings", async () => {
+        vi.spyOn(loader, "loadResolvedConfig").mockReturnValue(
+            resolveLayeredConfig([
+                {
+                    source: "project",
+                    path: "/p/acp.jsonc",
+                    config: {
+                        pruneNotification: "loud",
+                        overrides: { plan: { debug: true }, "anthropic/*": { debug: false } },
+                    },
+                },
+            ]),
+        )
+        const service = new ConfigService()
+        service.load("/p")
+
+        const text = await runConfigCommand(service)
+
+        expect(text).toContain("Overrides: plan, anthropic/*")
+        expect(text).toContain("Active now: plan")
+        expect(text).toMatch(/debug\s+true {2}\[override\]/)
+        expect(text).toContain("pruneNotification: ")
+        expect(text).toContain("(/p/acp.jsonc)")
+    })
+
+    it("reports when no config service is available", async () => {
+        expect(await runConfigCommand()).toBe("ACP configuration is not available")
+    })
+})
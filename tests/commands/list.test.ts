@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { buildInventory, handleListCommand } from "../../lib/commands/list"
+import { DEFAULT_CONFIG } from "../../lib/config"
+import { sendIgnoredMessage } from "../../lib/ui/notification"
+import type { WithParts } from "../../lib/state"
+import { createMockLogger, createMockState, registerToolCall } from "../fixtures/mock-client"
+
+vi.mock("../../lib/ui/notification", () => ({
+    sendIgnoredMessage: vi.fn(),
+}))
+
+function message(id: string, parts: unknown[]): WithParts {
+    return {
+        info: { id, role: "assistant", time: { created: 0 } },
+        parts,
+    } as unknown as WithParts
+}
+
+function toolPart(callID: string, tool: string, output: string) {
+    return { type: "tool", callID, tool, state: { status: "completed", input: {}, output } }
+}
+
+function setup() {
+    const state = createMockState({ currentTurn: 3 })
+    registerToolCall(state, "call_read", "aaa111", "read", 1, { filePath: "/p/src/a.ts" })
+    registerToolCall(state, "call_env", "bbb222", "read", 2, { filePath: "/p/.env" })
+    registerToolCall(state, "call_todo", "ccc333", "todowrite", 2, { todos: [] })
+    registerToolCall(state, "call_gone", "ddd444", "bash", 1, { command: "ls" })
+    state.hashRegistry.messages.set("eee555", "msg_2:1")
+    state.hashRegistry.reasoning.set("fff666", "msg_3:1")
+
+    const messages = [
+        message("msg_1", [
+            { type: "step-start" },
+            toolPart("call_read", "read", "const value = compute(input)\n".repeat(100)),
+        ]),
+        message("msg_2", [
+            { type: "step-start" },
+            { type: "text", text: "\nSummary of the read\nmore" },
+            toolPart("call_env", "read", "SECRET=1"),
+            toolPart("call_todo", "todowrite", "[]"),
+        ]),
+        message("msg_3", [
+            { type: "step-start" },
+            { type: "reasoning", text: "Considering the next step. ".repeat(10) },
+        ]),
+    ]
+    return { state, messages }
+}
+
+describe("buildInventory", () => {
+    it("lists tools, messages and reasoning largest first", () => {
+        const { state, messages } = setup()
+
+        const items = buildInventory(state, messages, DEFAULT_CONFIG, "/p")
+
+        expect(items.map((item) => item.hash)).toEqual([
+            "aaa111",
+            "fff666",
+            "eee555",
+            "bbb222",
+            "ccc333",
+        ])
+        expect(items[0]).toMatchObject({ name: "read", target: "src/a.ts", turnAge: 2 })
+        expect(items[1]).toMatchObject({ type: "reasoning", name: "thinking", turnAge: 0 })
+        expect(items[2]).toMatchObject({ type: "message", target: "Summary of the read" })
+    })
+
+    it("marks protected tools and files and skips pruned items", () => {
+        const { state, messages } = setup()
+        state.prune.toolIds.push("call_read")
+        state.prune.reasoningPartIds.push("msg_3:1")
+
+        const items = buildInventory(state, messages, DEFAULT_CONFIG, "/p")
+
+        expect(items.map((item) => item.hash)).toEqual(["eee555", "bbb222", "ccc333"])
+        expect(items.find((item) => item.hash === "bbb222")?.protection).toBe("file")
+        expect(items.find((item) => item.hash === "ccc333")?.protection).toBe("tool")
+        expect(items.find((item) => item.hash === "eee555")?.protection).toBeUndefined()
+    })
+})
+
+describe("handleListCommand", () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it("sends the ranked inventory", async () => {
+        const { state, messages } = setup()
+
+        await handleListCommand({
+            client: {},
+            state,
+            logger: createMockLogger() as any,
+            sessionId: "session",
+            messages,
+            config: DEFAULT_CONFIG,
+            workingDirectory: "/p",
+        })
+
+        const text = vi.mocked(sendIgnoredMessage).mock.calls[0]![2]
+        expect(text).toContain("ACP Inventory (5 items")
+        expect(text).toMatch(/aaa111\s+read\s+~\d+\s+2\s+src\/a\.ts/)
+        expect(text).toMatch(/bbb222.*\[protected file\]/)
+    })
+
+    it("shows relevance scores when there is a goal", async () => {
+        const { state, messages } = setup()
+        messages.push({
+            info: { id: "msg_4", role: "user", time: { created: 0 } },
+            parts: [{ type: "text", text: "Where is compute called?" }],
+        } as unknown as WithParts)
+
+        await handleListCommand({
+            client: {},
+            state,
+            logger: createMockLogger() as any,
+            sessionId: "session",
+            messages,
+            config: DEFAULT_CONFIG,
+            workingDirectory: "/p",
+        })
+
+        const text = vi.mocked(sendIgnoredMessage).mock.calls[0]![2]
+        expect(text).toContain("Score  Target")
+        expect(text).toMatch(/aaa111\s+read\s+~\d+\s+2\s+\d+\.\d\s+src\/a\.ts/)
+        expect(text).toMatch(/bbb222\s+read\s+~\d+\s+1\s+0\.0\s+\.env/)
+        expect(text).toMatch(/eee555\s+message\s+~\d+\s+\d+\s+-\s+Summary/)
+    })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handlePinCommand } from "../../lib/commands/pin"
+import { sendIgnoredMessage } from "../../lib/ui/notification"
+import { saveSessionState } from "../../lib/state/persistence"
+import { createMockLogger, createMockState, registerToolCall } from "../fixtures/mock-client"
+
+vi.mock("../../lib/ui/notification", () => ({
+    sendIgnoredMessage: vi.fn(),
+}))
+
+vi.mock("../../lib/state/persistence", () => ({
+    saveSessionState: vi.fn(async () => {}),
+}))
+
+async function runPin(state: ReturnType<typeof createMockState>, args: string[], pinned = true) {
+    await handlePinCommand({
+        client: {},
+        state,
+        logger: createMockLogger() as any,
+        sessionId: "session",
+        messages: [],
+        args,
+        pinned,
+    })
+    return vi.mocked(sendIgnoredMessage).mock.calls[0]![2]
+}
+
+describe("handlePinCommand", () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it("pins hashes case-insensitively and persists", async () => {
+        const state = createMockState()
+        registerToolCall(state, "call_1", "abc123", "read")
+
+        const text = await runPin(state, ["ABC123"])
+
+        expect(text).toContain("Pinned: abc123")
+        expect(state.pinnedCallIds.has("call_1")).toBe(true)
+        expect(saveSessionState).toHaveBeenCalled()
+    })
+
+    it("unpins hashes", async () => {
+        const state = createMockState()
+        registerToolCall(state, "call_1", "abc123", "read")
+        state.pinnedCallIds.add("call_1")
+
+        const text = await runPin(state, ["abc123"], false)
+
+        expect(text).toContain("Unpinned: abc123")
+        expect(state.pinnedCallIds.size).toBe(0)
+    })
+
+    it("shows usage without hashes", async () => {
+        const text = await runPin(createMockState(), [], false)
+
+        expect(text).toContain("Usage: /acp unpin")
+        expect(saveSessionState).not.toHaveBeenCalled()
+    })
+})
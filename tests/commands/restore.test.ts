@@ -0,0 +1,50 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { handleRestoreCommand } from "../../lib/commands/restore"
+import { sendIgnoredMessage } from "../../lib/ui/notification"
+import { saveSessionState } from "../../lib/state/persistence"
+import { createMockLogger, createMockState, registerToolCall } from "../fixtures/mock-client"
+
+vi.mock("../../lib/ui/notification", () => ({
+    sendIgnoredMessage: vi.fn(),
+}))
+
+vi.mock("../../lib/state/persistence", () => ({
+    saveSessionState: vi.fn(async () => {}),
+}))
+
+async function runRestore(state: ReturnType<typeof createMockState>, args: string[]) {
+    await handleRestoreCommand({
+        client: {},
+        state,
+        logger: createMockLogger() as any,
+        sessionId: "session",
+        messages: [],
+        args,
+    })
+    return vi.mocked(sendIgnoredMessage).mock.calls[0]![2]
+}
+
+describe("handleRestoreCommand", () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it("restores hashes case-insensitively and persists", async () => {
+        const state = createMockState()
+        registerToolCall(state, "call_1", "abc123", "read")
+        state.prune.toolIds.push("call_1")
+
+        const text = await runRestore(state, ["ABC123"])
+
+        expect(text).toContain("Restored: abc123")
+        expect(state.prune.toolIds).toEqual([])
+        expect(saveSessionState).toHaveBeenCalled()
+    })
+
+    it("shows usage without hashes", async () => {
+        const text = await runRestore(createMockState(), [])
+
+        expect(text).toContain("Usage: /acp restore")
+        expect(saveSessionState).not.toHaveBeenCalled()
+    })
+})
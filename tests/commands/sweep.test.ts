@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { findSweepCandidates, handleSweepCommand, parseSweepArgs } from "../../lib/commands/sweep"
+import { DEFAULT_CONFIG, type PluginConfig } from "../../lib/config"
+import { sendIgnoredMessage, sendUnifiedNotification } from "../../lib/ui/notification"
+import { saveSessionState } from "../../lib/state/persistence"
+import {
+    createMockLogger,
+    createMockState,
+    createToolMessage,
+    registerToolCall,
+} from "../fixtures/mock-client"
+
+vi.mock("../../lib/ui/notification", () => ({
+    sendIgnoredMessage: vi.fn(),
+    sendUnifiedNotification: vi.fn(async () => true),
+}))
+
+vi.mock("../../lib/state/persistence", () => ({
+    saveSessionState: vi.fn(async () => {}),
+}))
+
+function setup() {
+    const state = createMockState({ currentTurn: 10 })
+    registerToolCall(state, "call_old_read", "aaa111", "read", 1, { filePath: "/p/src/a.ts" })
+    registerToolCall(state, "call_new_read", "bbb222", "read", 9, { filePath: "/p/src/b.ts" })
+    registerToolCall(state, "call_bash", "ccc333", "bash", 2, { command: "ls" })
+    registerToolCall(state, "call_env", "ddd444", "read", 1, { filePath: "/p/.env" })
+    registerToolCall(state, "call_todo", "eee555", "todowrite", 1)
+    const messages = [
+        createToolMessage("call_old_read", "read", "x".repeat(4000)),
+        createToolMessage("call_new_read", "read", "y".repeat(4000)),
+        createToolMessage("call_bash", "bash", "short"),
+        createToolMessage("call_env", "read", "SECRET=1"),
+        createToolMessage("call_todo", "todowrite", "[]"),
+    ]
+    return { state, messages }
+}
+
+describe("parseSweepArgs", () => {
+    it("parses flags in both forms", () => {
+        expect(parseSweepArgs(["--older-than", "3", "--tool=read", "--min-tokens=100"])).toEqual({
+            olderThan: 3,
+            tool: "read",
+            minTokens: 100,
+        })
+        expect(parseSweepArgs([])).toEqual({})
+    })
+
+    it("rejects unknown flags and invalid numbers", () => {
+        expect(() => parseSweepArgs(["--force"])).toThrow("Unknown option --force")
+        expect(() => parseSweepArgs(["--older-than", "-1"])).toThrow("non-negative integer")
+        expect(() => parseSweepArgs(["--tool"])).toThrow("Missing value for --tool")
+    })
+})
+
+describe("findSweepCandidates", () => {
+    it("skips protected tools and protected file paths", () => {
+        const { state, messages } = setup()
+        expect(findSweepCandidates(state, messages, DEFAULT_CONFIG, {})).toEqual([
+            "call_old_read",
+            "call_new_read",
+            "call_bash",
+        ])
+    })
+
+    it("applies age, tool and size filters", () => {
+        const { state, messages } = setup()
+        expect(findSweepCandidates(state, messages, DEFAULT_CONFIG, { olderThan: 5 })).toEqual([
+            "call_old_read",
+            "call_bash",
+        ])
+        expect(findSweepCandidates(state, messages, DEFAULT_CONFIG, { tool: "bash" })).toEqual([
+            "call_bash",
+        ])
+        expect(findSweepCandidates(state, messages, DEFAULT_CONFIG, { minTokens: 100 })).toEqual([
+            "call_old_read",
+            "call_new_read",
+        ])
+    })
+
+    it("honors commands.protectedTools and already pruned calls", () => {
+        const { state, messages } = setup()
+        state.prune.toolIds.push("call_old_read")
+        const config: PluginConfig = {
+            ...DEFAULT_CONFIG,
+            commands: { ...DEFAULT_CONFIG.commands, protectedTools: ["bash"] },
+        }
+        expect(findSweepCandidates(state, messages, config, {})).toEqual(["call_new_read"])
+    })
+})
+
+describe("handleSweepCommand", () => {
+    beforeEach(() => {
+        vi.clearAllMocks()
+    })
+
+    it("prunes matching calls, records stats and persists", async () => {
+        const { state, messages } = setup()
+
+        await handleSweepCommand({
+            client: {},
+            state,
+            logger: createMockLogger() as any,
+            sessionId: "session",
+            messages,
+            config: DEFAULT_CONFIG,
+            workingDirectory: "/p",
+            args: ["--older-than", "5"],
+        })
+
+        expect(state.prune.toolIds).toEqual(["call_old_read", "call_bash"])
+        expect(state.stats.strategyStats.manualDiscard.tool.count).toBe(2)
+        expect(state.stats.totalPruneTokens).toBeGreaterThan(0)
+        expect(state.stats.pruneTokenCounter).toBe(0)
+        expect(state.discardHistory[0]).toMatchObject({
+            hashes: ["aaa111", "ccc333"],
+            reason: "manual",
+        })
+        expect(vi.mocked(sendUnifiedNotification).mock.calls[0]![3]).toMatchObject({
+            pruneToolIds: ["call_old_read", "call_bash"],
+            reason: "manual",
+        })
+        expect(saveSessionState).toHaveBeenCalledWith(state, expect.anything())
+    })
+
+    it("reports when nothing matches without changing state", async () => {
+        const { state, messages } = setup()
+
+        await handleSweepCommand({
+            client: {},
+            state,
+            logger: createMockLogger() as any,
+            sessionId: "session",
+            messages,
+            config: DEFAULT_CONFIG,
+            workingDirectory: "/p",
+            args: ["--tool", "glob"],
+        })
+
+        expect(state.prune.toolIds).toEqual([])
+        expect(sendUnifiedNotification).not.toHaveBeenCalled()
+        expect(saveSessionState).not.toHaveBeenCalled()
+        expect(vi.mocked(sendIgnoredMessage).mock.calls[0]![2]).toContain("tool glob")
+    })
+})
@@ -6,6 +6,7 @@ import { DEFAULT_CONFIG } from "../lib/config/defaults.js"
 // Mock the loader module directly
 vi.mock("../lib/config/loader.js", () => ({
     loadConfigFromFile: vi.fn(),
+    loadResolvedConfig: vi.fn(),
     validateConfig: vi.fn((c) => c),
     getConfig: vi.fn(),
     setConfig: vi.fn(),
@@ -20,7 +21,12 @@ describe("ConfigService", () => {
 
     describe("load", () => {
         it("should return default config when loader returns defaults", () => {
-            vi.mocked(loader.loadConfigFromFile).mockReturnValue(DEFAULT_CONFIG)
+            vi.mocked(loader.loadResolvedConfig).mockReturnValue({
+                config: DEFAULT_CONFIG,
+                sources: {},
+                layers: [],
+                diagnostics: [],
+            })
 
             const service = new ConfigService()
             const config = service.load("/test/workspace")
@@ -35,7 +41,12 @@ describe("ConfigService", () => {
                 enabled: false,
                 pruneNotification: "detailed" as const,
             }
-            vi.mocked(loader.loadConfigFromFile).mockReturnValue(customConfig)
+            vi.mocked(loader.loadResolvedConfig).mockReturnValue({
+                config: customConfig,
+                sources: {},
+                layers: [],
+                diagnostics: [],
+            })
 
             const service = new ConfigService()
             const config = service.load("/test/workspace")
@@ -52,7 +63,12 @@ describe("ConfigService", () => {
         })
 
         it("should return loaded config", () => {
-            vi.mocked(loader.loadConfigFromFile).mockReturnValue(DEFAULT_CONFIG)
+            vi.mocked(loader.loadResolvedConfig).mockReturnValue({
+                config: DEFAULT_CONFIG,
+                sources: {},
+                layers: [],
+                diagnostics: [],
+            })
 
             const service = new ConfigService()
             service.load("/test/workspace")
@@ -72,7 +88,12 @@ describe("ConfigService", () => {
 
         it("should return loaded config if available", () => {
             const customConfig = { ...DEFAULT_CONFIG, enabled: false }
-            vi.mocked(loader.loadConfigFromFile).mockReturnValue(customConfig)
+            vi.mocked(loader.loadResolvedConfig).mockReturnValue({
+                config: customConfig,
+                sources: {},
+                layers: [],
+                diagnostics: [],
+            })
 
             const service = new ConfigService()
             service.load("/test/workspace")
@@ -82,6 +103,21 @@ describe("ConfigService", () => {
         })
     })
 
+    describe("getSource", () => {
+        it("should report where a value came from", () => {
+            vi.mocked(loader.loadResolvedConfig).mockReturnValue({
+                config: DEFAULT_CONFIG,
+                sources: { "strategies.aggressivePruning.pruneFiles": "preset" },
+            })
+
+            const service = new ConfigService()
+            service.load("/test/workspace")
+
+            expect(service.getSource("strategies.aggressivePruning.pruneFiles")).toBe("preset")
+            expect(service.getSource("debug")).toBe("default")
+        })
+    })
+
     describe("isLoaded", () => {
         it("should return false before loading", () => {
             const service = new ConfigService()
@@ -89,7 +125,12 @@ describe("ConfigService", () => {
         })
 
         it("should return true after loading", () => {
-            vi.mocked(loader.loadConfigFromFile).mockReturnValue(DEFAULT_CONFIG)
+            vi.mocked(loader.loadResolvedConfig).mockReturnValue({
+                config: DEFAULT_CONFIG,
+                sources: {},
+                layers: [],
+                diagnostics: [],
+            })
 
             const service = new ConfigService()
             service.load("/test/workspace")
@@ -103,9 +144,19 @@ describe("ConfigService", () => {
             const customConfig1 = { ...DEFAULT_CONFIG, enabled: false }
             const customConfig2 = { ...DEFAULT_CONFIG, enabled: true }
 
-            vi.mocked(loader.loadConfigFromFile)
-                .mockReturnValueOnce(customConfig1)
-                .mockReturnValueOnce(customConfig2)
+            vi.mocked(loader.loadResolvedConfig)
+                .mockReturnValueOnce({
+                    config: customConfig1,
+                    sources: {},
+                    layers: [],
+                    diagnostics: [],
+                })
+                .mockReturnValueOnce({
+                    config: customConfig2,
+                    sources: {},
+                    layers: [],
+                    diagnostics: [],
+                })
 
             const service = new ConfigService()
             service.load("/test/workspace")
@@ -115,6 +166,72 @@ describe("ConfigService", () => {
             expect(service.get().enabled).toBe(true)
         })
 
+        it("should report changed values", () => {
+            vi.mocked(loader.loadResolvedConfig)
+                .mockReturnValueOnce({
+                    config: DEFAULT_CONFIG,
+                    sources: {},
+                    layers: [],
+                    diagnostics: [],
+                })
+                .mockReturnValueOnce({
+                    config: { ...DEFAULT_CONFIG, pruneNotification: "off" },
+                    sources: {},
+                    layers: [],
+                    diagnostics: [],
+                })
+
+            const service = new ConfigService()
+            service.load("/test/workspace")
+            const { changes } = service.reloadWithChanges()
+
+            expect(changes).toEqual([
+                { path: "pruneNotification", before: "minimal", after: "off" },
+            ])
+        })
+
+        it("should make new diagnostics reportable once per load", () => {
+            const diagnostics = [{ path: "debug", message: "Expected boolean" }]
+            vi.mocked(loader.loadResolvedConfig).mockReturnValue({
+                config: DEFAULT_CONFIG,
+                sources: {},
+                layers: [],
+                diagnostics,
+            })
+
+            const service = new ConfigService()
+            service.load("/test/workspace")
+            expect(service.takeUnreportedDiagnostics()).toEqual(diagnostics)
+            expect(service.takeUnreportedDiagnostics()).toEqual([])
+
+            service.reload()
+            expect(service.takeUnreportedDiagnostics()).toEqual(diagnostics)
+        })
+
+        it("should expose a getter that follows reloads", () => {
+            vi.mocked(loader.loadResolvedConfig)
+                .mockReturnValueOnce({
+                    config: DEFAULT_CONFIG,
+                    sources: {},
+                    layers: [],
+                    diagnostics: [],
+                })
+                .mockReturnValueOnce({
+                    config: { ...DEFAULT_CONFIG, debug: true },
+                    sources: {},
+                    layers: [],
+                    diagnostics: [],
+                })
+
+            const service = new ConfigService()
+            service.load("/test/workspace")
+            const getConfig = service.getter()
+            expect(getConfig().debug).toBe(false)
+
+            service.reload()
+            expect(getConfig().debug).toBe(true)
+        })
+
         it("should throw if reload called before load", () => {
             const service = new ConfigService()
             expect(() => service.reload()).toThrow("workspace root not set")
@@ -123,7 +240,12 @@ describe("ConfigService", () => {
 
     describe("reset", () => {
         it("should reset to unloaded state", () => {
-            vi.mocked(loader.loadConfigFromFile).mockReturnValue(DEFAULT_CONFIG)
+            vi.mocked(loader.loadResolvedConfig).mockReturnValue({
+                config: DEFAULT_CONFIG,
+                sources: {},
+                layers: [],
+                diagnostics: [],
+            })
 
             const service = new ConfigService()
             service.load("/test/workspace")
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest"
+import { diffConfig, formatConfigChange } from "../../lib/config/diff"
+import { DEFAULT_CONFIG } from "../../lib/config/defaults"
+
+describe("diffConfig", () => {
+    it("returns no changes for equal configs", () => {
+        expect(diffConfig(DEFAULT_CONFIG, structuredClone(DEFAULT_CONFIG))).toEqual([])
+    })
+
+    it("lists changed leaves and arrays by path", () => {
+        const after = structuredClone(DEFAULT_CONFIG)
+        after.debug = true
+        after.commands.protectedTools = ["bash"]
+
+        expect(diffConfig(DEFAULT_CONFIG, after).map((c) => c.path)).toEqual([
+            "commands.protectedTools",
+            "debug",
+        ])
+    })
+
+    it("reports added and removed keys", () => {
+        const changes = diffConfig({ a: 1 }, { b: 2 })
+
+        expect(changes).toEqual([
+            { path: "a", before: 1, after: undefined },
+            { path: "b", before: undefined, after: 2 },
+        ])
+    })
+})
+
+describe("formatConfigChange", () => {
+    it("formats before and after values", () => {
+        expect(formatConfigChange({ path: "debug", before: false, after: true })).toBe(
+            "debug: false → true",
+        )
+        expect(formatConfigChange({ path: "x", before: undefined, after: "on" })).toBe(
+            'x: (unset) → "on"',
+        )
+    })
+})
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest"
+import { ENV_LAYER_PATH, loadEnvLayer } from "../../lib/config/env"
+import { resolveLayeredConfig } from "../../lib/config/loader"
+import type { ConfigDiagnostic } from "../../lib/config/validation"
+
+describe("loadEnvLayer", () => {
+    it("returns null when no ACP_ variables are set", () => {
+        expect(loadEnvLayer({ PATH: "/usr/bin" })).toBeNull()
+    })
+
+    it("maps variables onto schema paths and coerces values", () => {
+        const layer = loadEnvLayer({
+            ACP_ENABLED: "0",
+            ACP_PRUNE_NOTIFICATION: "off",
+            ACP_STRATEGIES__AGGRESSIVE_PRUNING__PRESET: "compact",
+            ACP_STRATEGIES__PURGE_ERRORS__TURNS: "6",
+            ACP_COMMANDS__PROTECTED_TOOLS: "task, todowrite",
+        })
+
+        expect(layer).toEqual({
+            source: "env",
+            path: ENV_LAYER_PATH,
+            config: {
+                enabled: false,
+                pruneNotification: "off",
+                strategies: {
+                    aggressivePruning: { preset: "compact" },
+                    purgeErrors: { turns: 6 },
+                },
+                commands: { protectedTools: ["task", "todowrite"] },
+            },
+        })
+    })
+
+    it("parses JSON for arrays and objects", () => {
+        const layer = loadEnvLayer({
+            ACP_PROTECTED_FILE_PATTERNS: '["**/*.lock"]',
+            ACP_OVERRIDES: '{"plan":{"debug":true}}',
+        })
+
+        expect(layer?.config).toEqual({
+            protectedFilePatterns: ["**/*.lock"],
+            overrides: { plan: { debug: true } },
+        })
+    })
+
+    it("reports unknown variables", () => {
+        const diagnostics: ConfigDiagnostic[] = []
+        const layer = loadEnvLayer({ ACP_NOT_A_SETTING: "1" }, diagnostics)
+
+        expect(layer).toBeNull()
+        expect(diagnostics[0]!.message).toContain("ACP_NOT_A_SETTING")
+    })
+})
+
+describe("env layer precedence", () => {
+    it("overrides config files and is validated like them", () => {
+        const envLayer = loadEnvLayer({
+            ACP_PRUNE_NOTIFICATION: "off",
+            ACP_DEBUG: "maybe",
+        })!
+
+        const { config, sources, diagnostics } = resolveLayeredConfig([
+            {
+                source: "project",
+                path: "/p/acp.jsonc",
+                config: { pruneNotification: "detailed", debug: true },
+            },
+            envLayer,
+        ])
+
+        expect(config.pruneNotification).toBe("off")
+        expect(sources["pruneNotification"]).toBe("env")
+        // Invalid env value is dropped from the env layer only
+        expect(config.debug).toBe(true)
+        expect(sources["debug"]).toBe("project")
+        expect(diagnostics).toEqual([
+            expect.objectContaining({ path: "debug", file: ENV_LAYER_PATH }),
+        ])
+    })
+})
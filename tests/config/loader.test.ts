@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { mkdir, writeFile } from "fs/promises"
+import { join } from "path"
+import { createTempDir, type TempDir } from "../fixtures/tmpdir"
+import {
+    getConfigLayerPaths,
+    loadResolvedConfig,
+    readConfigFile,
+    resolveLayeredConfig,
+} from "../../lib/config/loader"
+import { DEFAULT_CONFIG } from "../../lib/config/defaults"
+
+describe("readConfigFile", () => {
+    let tmp: TempDir
+
+    beforeEach(async () => {
+        tmp = await createTempDir()
+    })
+
+    afterEach(async () => {
+        await tmp.cleanup()
+    })
+
+    it("accepts comments and trailing commas", async () => {
+        const path = join(tmp.path, "acp.jsonc")
+        await writeFile(
+            path,
+            `{
+                // disable the plugin
+                "enabled": false, /* block comment */
+                "commands": { "enabled": false, },
+            }`,
+        )
+
+        expect(readConfigFile(path)).toEqual({ enabled: false, commands: { enabled: false } })
+    })
+
+    it("returns null for missing or malformed files", async () => {
+        const path = join(tmp.path, "broken.jsonc")
+        await writeFile(path, `{ "enabled": `)
+
+        expect(readConfigFile(join(tmp.path, "missing.jsonc"))).toBeNull()
+        expect(readConfigFile(path)).toBeNull()
+    })
+})
+
+describe("resolveLayeredConfig", () => {
+    it("deep merges layers over defaults, later layers winning", () => {
+        const { config, sources } = resolveLayeredConfig([
+            {
+                source: "global",
+                path: "global.jsonc",
+                config: { debug: true, commands: { protectedTools: ["bash"] } },
+            },
+            {
+                source: "project",
+                path: "project.jsonc",
+                config: { commands: { enabled: false } },
+            },
+        ])
+
+        expect(config.debug).toBe(true)
+        expect(config.commands.enabled).toBe(false)
+        expect(config.commands.protectedTools).toEqual(["bash"])
+        expect(config.tools).toEqual(DEFAULT_CONFIG.tools)
+        expect(sources["debug"]).toBe("global")
+        expect(sources["commands.enabled"]).toBe("project")
+        expect(sources["enabled"]).toBe("default")
+    })
+
+    it("applies a preset from one layer with flags from another", () => {
+        const { config, sources } = resolveLayeredConfig([
+            {
+                source: "global",
+                path: "global.jsonc",
+                config: { strategies: { aggressivePruning: { preset: "verbose" } } },
+            },
+            {
+                source: "project",
+                path: "project.jsonc",
+                config: { strategies: { aggressivePruning: { pruneFiles: true } } },
+            },
+        ])
+
+        expect(config.strategies.aggressivePruning.pruneFiles).toBe(true)
+        expect(sources["strategies.aggressivePruning.pruneFiles"]).toBe("project")
+        expect(sources["strategies.aggressivePruning.preset"]).toBe("global")
+        expect(sources["strategies.aggressivePruning.pruneSnapshots"]).toBe("preset")
+    })
+})
+
+describe("loadResolvedConfig", () => {
+    let tmp: TempDir
+
+    beforeEach(async () => {
+        tmp = await createTempDir()
+    })
+
+    afterEach(async () => {
+        await tmp.cleanup()
+    })
+
+    it("lists layer paths in merge order", () => {
+        const paths = getConfigLayerPaths(tmp.path).map((p) => p.source)
+        expect(paths).toEqual(["global", "project", "project"])
+    })
+
+    it("loads project layers with opencode.json winning", async () => {
+        await mkdir(join(tmp.path, ".opencode"), { recursive: true })
+        await writeFile(
+            join(tmp.path, ".opencode", "acp.jsonc"),
+            `{ "debug": true, "pruneNotification": "minimal", }`,
+        )
+        await writeFile(join(tmp.path, "opencode.json"), `{ "pruneNotification": "detailed" }`)
+
+        const { config, sources, layers } = loadResolvedConfig(tmp.path)
+        const ownLayers = layers.filter((l) => l.source !== "global")
+
+        expect(ownLayers.map((l) => l.path)).toEqual([
+            join(tmp.path, ".opencode", "acp.jsonc"),
+            join(tmp.path, "opencode.json"),
+        ])
+        expect(config.debug).toBe(true)
+        expect(config.pruneNotification).toBe("detailed")
+        expect(sources["debug"]).toBe("project")
+        expect(sources["pruneNotification"]).toBe("project")
+    })
+})
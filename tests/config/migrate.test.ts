@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { readFile, writeFile } from "fs/promises"
+import { join } from "path"
+import { createTempDir, type TempDir } from "../fixtures/tmpdir"
+import { migrateLegacyConfig, writeMigratedConfigFile } from "../../lib/config/migrate"
+import { readConfigFile } from "../../lib/config/loader"
+import type { ConfigDiagnostic } from "../../lib/config/validation"
+
+describe("migrateLegacyConfig", () => {
+    it("leaves current configs unchanged", () => {
+        const raw = { debug: true, strategies: { purgeErrors: { enabled: true } } }
+        const { config, changes } = migrateLegacyConfig(raw)
+
+        expect(config).toEqual(raw)
+        expect(changes).toEqual([])
+    })
+
+    it("unwraps the contextPruning namespace and removes dropped settings", () => {
+        const raw = {
+            contextPruning: {
+                debug: true,
+                turnProtection: { enabled: true, turns: 4 },
+                strategies: { truncation: { enabled: true }, purgeErrors: { turns: 2 } },
+            },
+        }
+
+        const { config, changes } = migrateLegacyConfig(raw)
+
+        expect(config).toEqual({ debug: true, strategies: { purgeErrors: { turns: 2 } } })
+        expect(changes.map((c) => c.from.join("."))).toEqual([
+            "contextPruning.debug",
+            "contextPruning.turnProtection",
+            "contextPruning.strategies",
+            "strategies.truncation",
+            "turnProtection",
+        ])
+        expect(raw.contextPruning.debug).toBe(true)
+    })
+
+    it("moves flat dotted keys to nested paths", () => {
+        const { config } = migrateLegacyConfig({
+            "contextPruning.strategies.thinkingCompression": null,
+            "contextPruning.pruneNotification": "off",
+        })
+
+        expect(config).toEqual({ strategies: {}, pruneNotification: "off" })
+    })
+
+    it("renames extract to distill and drops nudge settings", () => {
+        const { config, changes } = migrateLegacyConfig({
+            autoPruneAfterTool: true,
+            tools: {
+                extract: { enabled: false },
+                settings: { nudgeEnabled: true, nudgeFrequency: 5, enableReasoningPruning: false },
+            },
+        })
+
+        expect(config).toEqual({
+            tools: { distill: { enabled: false }, settings: { enableReasoningPruning: false } },
+        })
+        expect(changes.find((c) => c.from.join(".") === "tools.extract")?.to).toEqual([
+            "tools",
+            "distill",
+        ])
+    })
+
+    it("never overwrites a current setting with a legacy one", () => {
+        const { config } = migrateLegacyConfig({
+            pruneNotification: "detailed",
+            contextPruning: { pruneNotification: "off" },
+        })
+
+        expect(config).toEqual({ pruneNotification: "detailed" })
+    })
+
+    it("merges a legacy block into an existing current block", () => {
+        const { config, changes } = migrateLegacyConfig({
+            tools: { settings: { protectedTools: ["bash"] } },
+            contextPruning: {
+                tools: {
+                    settings: { protectedTools: ["read"], enableReasoningPruning: false },
+                    discard: { enabled: false },
+                },
+            },
+        })
+
+        expect(config).toEqual({
+            tools: {
+                settings: { protectedTools: ["bash"], enableReasoningPruning: false },
+                discard: { enabled: false },
+            },
+        })
+        expect(changes.map((c) => c.from.join("."))).toEqual(["contextPruning.tools"])
+    })
+})
+
+describe("legacy config files", () => {
+    let tmp: TempDir
+
+    beforeEach(async () => {
+        tmp = await createTempDir()
+    })
+
+    afterEach(async () => {
+        await tmp.cleanup()
+    })
+
+    it("reports legacy keys as diagnostics when reading", async () => {
+        const path = join(tmp.path, "acp.jsonc")
+        await writeFile(path, `{ "autoPruneAfterTool": true, "debug": true }`)
+
+        const diagnostics: ConfigDiagnostic[] = []
+        expect(readConfigFile(path, diagnostics)).toEqual({ debug: true })
+        expect(diagnostics).toEqual([
+            expect.objectContaining({ path: "autoPruneAfterTool", file: path }),
+        ])
+    })
+
+    it("rewrites the file and keeps comments", async () => {
+        const path = join(tmp.path, "acp.jsonc")
+        await writeFile(
+            path,
+            `{
+    // keep me
+    "debug": true,
+    "contextPruning": {
+        "pruneNotification": "off",
+        "autoPruneAfterTool": true,
+    },
+}
+`,
+        )
+
+        const changes = writeMigratedConfigFile(path)
+        const text = await readFile(path, "utf-8")
+
+        expect(changes).toHaveLength(3)
+        expect(text).toContain("// keep me")
+        expect(text).not.toContain("contextPruning")
+        expect(text).not.toContain("autoPruneAfterTool")
+        expect(readConfigFile(path)).toEqual({ debug: true, pruneNotification: "off" })
+    })
+
+    it("merges legacy blocks into existing ones when rewriting", async () => {
+        const path = join(tmp.path, "acp.jsonc")
+        await writeFile(
+            path,
+            `{
+    "tools": { "settings": { "protectedTools": ["bash"] } },
+    "contextPruning": {
+        "tools": { "discard": { "enabled": false } },
+    },
+}
+`,
+        )
+
+        writeMigratedConfigFile(path)
+
+        expect(readConfigFile(path)).toEqual({
+            tools: { settings: { protectedTools: ["bash"] }, discard: { enabled: false } },
+        })
+    })
+
+    it("does not touch files without legacy keys", async () => {
+        const path = join(tmp.path, "acp.jsonc")
+        const original = `{ /* current */ "debug": true }`
+        await writeFile(path, original)
+
+        expect(writeMigratedConfigFile(path)).toEqual([])
+        expect(await readFile(path, "utf-8")).toBe(original)
+    })
+})
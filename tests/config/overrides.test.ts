@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest"
+import {
+    getEffectiveConfig,
+    matchOverrideKeys,
+    validateOverrides,
+} from "../../lib/config/overrides"
+import { resolveConfig } from "../../lib/config/loader"
+import { DEFAULT_CONFIG } from "../../lib/config/defaults"
+import { PRUNING_PRESETS, type PluginConfig } from "../../lib/config/schema"
+
+const withOverrides = (overrides: PluginConfig["overrides"]): PluginConfig => ({
+    ...DEFAULT_CONFIG,
+    overrides,
+})
+
+describe("matchOverrideKeys", () => {
+    const overrides = {
+        plan: {},
+        "anthropic/claude-*": {},
+        "openai/*": {},
+        "*/claude-sonnet-4": {},
+    }
+
+    it("matches model globs before the agent name", () => {
+        expect(
+            matchOverrideKeys(overrides, {
+                agent: "plan",
+                providerId: "anthropic",
+                modelId: "claude-sonnet-4",
+            }),
+        ).toEqual(["anthropic/claude-*", "*/claude-sonnet-4", "plan"])
+    })
+
+    it("matches nothing without agent or model", () => {
+        expect(matchOverrideKeys(overrides, {})).toEqual([])
+    })
+
+    it("requires an exact agent name", () => {
+        expect(matchOverrideKeys(overrides, { agent: "planner" })).toEqual([])
+    })
+})
+
+describe("getEffectiveConfig", () => {
+    it("returns the base config when nothing matches", () => {
+        const config = withOverrides({ plan: { debug: true } })
+        expect(getEffectiveConfig(config, { agent: "build" })).toBe(config)
+    })
+
+    it("deep merges matching overrides with the agent override last", () => {
+        const config = withOverrides({
+            "openai/*": { debug: true, tools: { settings: { enableReasoningPruning: false } } },
+            plan: { tools: { settings: { enableReasoningPruning: true } } },
+        })
+
+        const effective = getEffectiveConfig(config, {
+            agent: "plan",
+            providerId: "openai",
+            modelId: "gpt-5",
+        })
+
+        expect(effective.debug).toBe(true)
+        expect(effective.tools.settings.enableReasoningPruning).toBe(true)
+        expect(effective.tools.settings.protectedTools).toEqual(
+            DEFAULT_CONFIG.tools.settings.protectedTools,
+        )
+    })
+
+    it("expands a preset set in an override", () => {
+        const config = withOverrides({
+            "google/gemini-*": { strategies: { aggressivePruning: { preset: "verbose" } } },
+        })
+
+        const effective = getEffectiveConfig(config, {
+            providerId: "google",
+            modelId: "gemini-2.5-pro",
+        })
+
+        expect(effective.strategies.aggressivePruning).toMatchObject(PRUNING_PRESETS.verbose)
+    })
+
+    it("caches the effective config per base config", () => {
+        const config = withOverrides({ plan: { debug: true } })
+        expect(getEffectiveConfig(config, { agent: "plan" })).toBe(
+            getEffectiveConfig(config, { agent: "plan" }),
+        )
+    })
+})
+
+describe("validateOverrides", () => {
+    it("drops invalid keys inside an override and keeps the rest", () => {
+        const { config, diagnostics } = validateOverrides(
+            withOverrides({ plan: { debug: "yes", pruneNotification: "off" } }),
+            [],
+        )
+
+        expect(config.overrides).toEqual({ plan: { pruneNotification: "off" } })
+        expect(diagnostics.map((d) => d.path)).toEqual(['overrides["plan"].debug'])
+    })
+
+    it("is applied when resolving config", () => {
+        const { config, diagnostics } = resolveConfig({
+            overrides: { "anthropic/*": { commands: { enabled: "no" }, debug: true } },
+        })
+
+        expect(config.overrides["anthropic/*"]).toMatchObject({ debug: true })
+        expect(config.overrides["anthropic/*"]).not.toHaveProperty("commands.enabled")
+        expect(diagnostics).toHaveLength(1)
+    })
+})
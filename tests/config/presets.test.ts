@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest"
+import { applyPruningPreset } from "../../lib/config/presets"
+import { resolveConfig } from "../../lib/config/loader"
+import { DEFAULT_CONFIG } from "../../lib/config/defaults"
+import { PRUNING_PRESETS } from "../../lib/config/schema"
+
+const withAggressivePruning = (aggressivePruning: Record<string, unknown>) => ({
+    ...DEFAULT_CONFIG,
+    strategies: {
+        ...DEFAULT_CONFIG.strategies,
+        aggressivePruning,
+    },
+})
+
+describe("applyPruningPreset", () => {
+    it("returns the config unchanged when no preset is set", () => {
+        const raw = withAggressivePruning({ pruneFiles: false })
+        const result = applyPruningPreset(raw)
+
+        expect(result.rawConfig).toBe(raw)
+        expect(result.preset).toBeUndefined()
+        expect(result.flagSources).toEqual({})
+    })
+
+    it("fills unset flags from the preset", () => {
+        const result = applyPruningPreset(withAggressivePruning({ preset: "verbose" }))
+        const resolved = (result.rawConfig as any).strategies.aggressivePruning
+
+        expect(result.preset).toBe("verbose")
+        for (const [flag, value] of Object.entries(PRUNING_PRESETS.verbose)) {
+            expect(resolved[flag]).toBe(value)
+            expect(result.flagSources[flag as keyof typeof result.flagSources]).toBe("preset")
+        }
+    })
+
+    it("lets explicit flags override the preset", () => {
+        const result = applyPruningPreset(
+            withAggressivePruning({ preset: "verbose", pruneFiles: true }),
+        )
+        const resolved = (result.rawConfig as any).strategies.aggressivePruning
+
+        expect(resolved.pruneFiles).toBe(true)
+        expect(resolved.pruneSnapshots).toBe(false)
+        expect(result.flagSources.pruneFiles).toBe("user")
+        expect(result.flagSources.pruneSnapshots).toBe("preset")
+    })
+
+    it("does not mutate the input config", () => {
+        const raw = withAggressivePruning({ preset: "verbose" })
+        applyPruningPreset(raw)
+
+        expect(raw.strategies.aggressivePruning).toEqual({ preset: "verbose" })
+    })
+
+    it("ignores unknown preset names", () => {
+        const raw = withAggressivePruning({ preset: "extreme" })
+        const result = applyPruningPreset(raw)
+
+        expect(result.rawConfig).toBe(raw)
+        expect(result.preset).toBeUndefined()
+    })
+})
+
+describe("resolveConfig", () => {
+    it("applies the preset to the validated config", () => {
+        const { config } = resolveConfig(withAggressivePruning({ preset: "balanced" }))
+
+        expect(config.strategies.aggressivePruning.pruneUserCodeBlocks).toBe(false)
+        expect(config.strategies.aggressivePruning.truncateOldErrors).toBe(false)
+        expect(config.strategies.aggressivePruning.pruneFiles).toBe(true)
+    })
+
+    it("records preset, user and default sources", () => {
+        const { sources } = resolveConfig(
+            withAggressivePruning({ preset: "verbose", pruneFiles: true }),
+        )
+
+        expect(sources["strategies.aggressivePruning.pruneFiles"]).toBe("project")
+        expect(sources["strategies.aggressivePruning.pruneSnapshots"]).toBe("preset")
+        expect(sources["strategies.aggressivePruning.preset"]).toBe("project")
+        expect(sources["enabled"]).toBe("project")
+    })
+
+    it("falls back to the default for an invalid key with default source", () => {
+        const { config, sources } = resolveConfig({ enabled: "yes" })
+
+        expect(config).toEqual(DEFAULT_CONFIG)
+        expect(sources["enabled"]).toBe("default")
+    })
+})
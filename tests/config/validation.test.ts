@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest"
+import { formatConfigDiagnostics, validateLayersLeniently } from "../../lib/config/validation"
+import { DEFAULT_CONFIG } from "../../lib/config/defaults"
+import type { ConfigLayer } from "../../lib/config/sources"
+
+const layer = (config: Record<string, unknown>, path = "/project/acp.jsonc"): ConfigLayer => ({
+    source: "project",
+    path,
+    config,
+})
+
+describe("validateLayersLeniently", () => {
+    it("keeps valid settings when one key is invalid", () => {
+        const { config, diagnostics } = validateLayersLeniently([
+            layer({
+                debug: true,
+                pruneNotification: "loud",
+                commands: { enabled: false },
+            }),
+        ])
+
+        expect(config.debug).toBe(true)
+        expect(config.commands.enabled).toBe(false)
+        expect(config.pruneNotification).toBe(DEFAULT_CONFIG.pruneNotification)
+        expect(diagnostics).toHaveLength(1)
+        expect(diagnostics[0]).toMatchObject({
+            path: "pruneNotification",
+            file: "/project/acp.jsonc",
+        })
+    })
+
+    it("drops a whole array when one element is invalid", () => {
+        const { config, diagnostics } = validateLayersLeniently([
+            layer({ commands: { protectedTools: ["bash", 42] } }),
+        ])
+
+        expect(config.commands.protectedTools).toEqual(DEFAULT_CONFIG.commands.protectedTools)
+        expect(diagnostics.map((d) => d.path)).toEqual(["commands.protectedTools"])
+    })
+
+    it("reports invalid keys from several layers with their files", () => {
+        const { config, diagnostics, layers } = validateLayersLeniently([
+            layer({ debug: "yes", enabled: true }, "/global/acp.jsonc"),
+            layer({ strategies: { purgeErrors: { turns: "four" } } }),
+        ])
+
+        expect(config.enabled).toBe(true)
+        expect(config.debug).toBe(DEFAULT_CONFIG.debug)
+        expect(config.strategies.purgeErrors.turns).toBe(
+            DEFAULT_CONFIG.strategies.purgeErrors.turns,
+        )
+        expect(diagnostics).toEqual([
+            expect.objectContaining({ path: "debug", file: "/global/acp.jsonc" }),
+            expect.objectContaining({
+                path: "strategies.purgeErrors.turns",
+                file: "/project/acp.jsonc",
+            }),
+        ])
+        expect(layers[0]!.config).toEqual({ enabled: true })
+    })
+
+    it("replaces an invalid object with its defaults", () => {
+        const { config, diagnostics } = validateLayersLeniently([layer({ tools: "none" })])
+
+        expect(config.tools).toEqual(DEFAULT_CONFIG.tools)
+        expect(diagnostics[0]!.path).toBe("tools")
+    })
+
+    it("rejects a budget low-water mark at or above the high-water mark", () => {
+        const { config, diagnostics } = validateLayersLeniently([
+            layer({ strategies: { budgetEviction: { highWaterMark: 0.5, lowWaterMark: 0.7 } } }),
+        ])
+
+        expect(config.strategies.budgetEviction.lowWaterMark).toBe(
+            DEFAULT_CONFIG.strategies.budgetEviction.lowWaterMark,
+        )
+        expect(diagnostics[0]).toMatchObject({
+            path: "strategies.budgetEviction.lowWaterMark",
+            message: "lowWaterMark must be below highWaterMark",
+        })
+    })
+
+    it("rejects decay tiers that are not ordered by age", () => {
+        const { config, diagnostics } = validateLayersLeniently([
+            layer({
+                strategies: {
+                    decay: {
+                        tiers: [
+                            { afterTurns: 10, tier: "digest" },
+                            { afterTurns: 5, tier: "excerpt" },
+                        ],
+                    },
+                },
+            }),
+        ])
+
+        expect(config.strategies.decay.tiers).toEqual(DEFAULT_CONFIG.strategies.decay.tiers)
+        expect(diagnostics[0]).toMatchObject({
+            path: "strategies.decay.tiers",
+            message: "tiers must be ordered by increasing afterTurns",
+        })
+    })
+
+    it("rejects supersede rules with an invalid regex or duplicate names", () => {
+        const rule = { name: "pods", pattern: "^kubectl get pods" }
+        const invalid = validateLayersLeniently([
+            layer({
+                strategies: { supersedeRules: [{ name: "bad", pattern: "(" }] },
+            }),
+        ])
+        expect(invalid.config.strategies.supersedeRules).toEqual([])
+        expect(invalid.diagnostics[0]!.path).toContain("strategies.supersedeRules")
+
+        const duplicate = validateLayersLeniently([
+            layer({ strategies: { supersedeRules: [rule, rule] } }),
+        ])
+        expect(duplicate.config.strategies.supersedeRules).toEqual([])
+        expect(duplicate.diagnostics).toHaveLength(1)
+
+        const valid = validateLayersLeniently([layer({ strategies: { supersedeRules: [rule] } })])
+        expect(valid.config.strategies.supersedeRules).toEqual([
+            { ...rule, key: "{cmd}", keepLatest: 1, exitStatus: "any" },
+        ])
+    })
+
+    it("returns no diagnostics for a valid config", () => {
+        expect(validateLayersLeniently([layer({ debug: true })]).diagnostics).toEqual([])
+    })
+})
+
+describe("formatConfigDiagnostics", () => {
+    it("lists each diagnostic with its file", () => {
+        const text = formatConfigDiagnostics([
+            { path: "debug", message: "Expected boolean", file: "/p/acp.jsonc" },
+            { path: "", message: "File ignored, InvalidSymbol at offset 3", file: "/g/acp.jsonc" },
+        ])
+
+        expect(text).toContain("debug: Expected boolean (/p/acp.jsonc)")
+        expect(text).toContain("File ignored, InvalidSymbol at offset 3 (/g/acp.jsonc)")
+    })
+})
@@ -97,12 +97,15 @@ const createMockState = (): SessionState =>
             },
             files: {
                 pathToCallIds: new Map(),
+                keptReadRanges: new Map(),
+                refreshedReads: new Map(),
             },
             urls: {
                 urlToCallIds: new Map(),
             },
             stateQueries: {
                 queryToCallIds: new Map(),
+                runSummaries: new Map(),
             },
             snapshots: {
                 allCallIds: new Set(),
@@ -113,6 +116,9 @@ const createMockState = (): SessionState =>
             },
         },
         todos: [],
+        pruneRecords: new Map(),
+        pinnedCallIds: new Set(),
+        expandedCallIds: new Set(),
         stats: {
             strategyStats: {
                 autoSupersede: {
@@ -126,6 +132,19 @@ const createMockState = (): SessionState =>
                     retry: { count: 0, tokens: 0 },
                 },
                 purgeErrors: { count: 0, tokens: 0 },
+                truncatedErrors: { count: 0, tokens: 0 },
+                budgetEviction: { count: 0, tokens: 0 },
+                outputWindow: { count: 0, tokens: 0 },
+                userCodeBlocks: { count: 0, tokens: 0 },
+                fileParts: { count: 0, tokens: 0 },
+                stepMarkers: { count: 0, tokens: 0 },
+                runSummaries: { count: 0, tokens: 0 },
+                decay: {
+                    excerpt: { count: 0, tokens: 0 },
+                    digest: { count: 0, tokens: 0 },
+                    remove: { count: 0, tokens: 0 },
+                },
+                supersedeRules: {},
                 manualDiscard: {
                     message: { count: 0, tokens: 0 },
                     thinking: { count: 0, tokens: 0 },
@@ -18,6 +18,7 @@ import type { PluginConfig } from "../../lib/config"
 // Mock dependencies
 vi.mock("../../lib/shared-utils", () => ({
     isMessageCompacted: vi.fn().mockReturnValue(false),
+    getLastUserMessage: vi.fn().mockReturnValue(null),
 }))
 
 vi.mock("../../lib/messages/automata-mode", () => ({
@@ -71,6 +72,8 @@ const createMockState = (): SessionState =>
             toolIds: [],
             messagePartIds: [],
             reasoningPartIds: [],
+            segmentIds: [],
+            replacements: [],
         },
         hashRegistry: {
             calls: new Map(),
@@ -98,12 +101,15 @@ const createMockState = (): SessionState =>
             },
             files: {
                 pathToCallIds: new Map(),
+                keptReadRanges: new Map(),
+                refreshedReads: new Map(),
             },
             urls: {
                 urlToCallIds: new Map(),
             },
             stateQueries: {
                 queryToCallIds: new Map(),
+                runSummaries: new Map(),
             },
             snapshots: {
                 allCallIds: new Set(),
@@ -114,6 +120,9 @@ const createMockState = (): SessionState =>
             },
         },
         todos: [],
+        pruneRecords: new Map(),
+        pinnedCallIds: new Set(),
+        expandedCallIds: new Set(),
         stats: {
             strategyStats: {
                 autoSupersede: {
@@ -127,6 +136,19 @@ const createMockState = (): SessionState =>
                     retry: { count: 0, tokens: 0 },
                 },
                 purgeErrors: { count: 0, tokens: 0 },
+                truncatedErrors: { count: 0, tokens: 0 },
+                budgetEviction: { count: 0, tokens: 0 },
+                outputWindow: { count: 0, tokens: 0 },
+                userCodeBlocks: { count: 0, tokens: 0 },
+                fileParts: { count: 0, tokens: 0 },
+                stepMarkers: { count: 0, tokens: 0 },
+                runSummaries: { count: 0, tokens: 0 },
+                decay: {
+                    excerpt: { count: 0, tokens: 0 },
+                    digest: { count: 0, tokens: 0 },
+                    remove: { count: 0, tokens: 0 },
+                },
+                supersedeRules: {},
                 manualDiscard: {
                     message: { count: 0, tokens: 0 },
                     thinking: { count: 0, tokens: 0 },
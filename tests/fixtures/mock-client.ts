@@ -1,5 +1,5 @@
 import { vi } from "vitest"
-import type { SessionState, ToolParameterEntry } from "../../lib/state/types"
+import type { SessionState, ToolParameterEntry, WithParts } from "../../lib/state/types"
 
 /**
  * Creates a mock opencode SDK client for testing.
@@ -124,6 +124,19 @@ export function createMockState(overrides: Partial<SessionState> = {}): SessionS
                     retry: { count: 0, tokens: 0 },
                 },
                 purgeErrors: { count: 0, tokens: 0 },
+                truncatedErrors: { count: 0, tokens: 0 },
+                budgetEviction: { count: 0, tokens: 0 },
+                outputWindow: { count: 0, tokens: 0 },
+                userCodeBlocks: { count: 0, tokens: 0 },
+                fileParts: { count: 0, tokens: 0 },
+                stepMarkers: { count: 0, tokens: 0 },
+                runSummaries: { count: 0, tokens: 0 },
+                decay: {
+                    excerpt: { count: 0, tokens: 0 },
+                    digest: { count: 0, tokens: 0 },
+                    remove: { count: 0, tokens: 0 },
+                },
+                supersedeRules: {},
                 manualDiscard: {
                     message: { count: 0, tokens: 0 },
                     thinking: { count: 0, tokens: 0 },
@@ -150,6 +163,9 @@ export function createMockState(overrides: Partial<SessionState> = {}): SessionS
             segments: new Map<string, string>(),
         },
         discardHistory: [],
+        pruneRecords: new Map(),
+        pinnedCallIds: new Set(),
+        expandedCallIds: new Set(),
         cursors: {
             todo: {
                 lastTurn: 0,
@@ -167,12 +183,15 @@ export function createMockState(overrides: Partial<SessionState> = {}): SessionS
             },
             files: {
                 pathToCallIds: new Map<string, Set<string>>(),
+                keptReadRanges: new Map(),
+                refreshedReads: new Map(),
             },
             urls: {
                 urlToCallIds: new Map<string, Set<string>>(),
             },
             stateQueries: {
                 queryToCallIds: new Map<string, Set<string>>(),
+                runSummaries: new Map<string, string>(),
             },
             snapshots: {
                 allCallIds: new Set<string>(),
@@ -208,6 +227,28 @@ export function registerToolCall(
     })
 }
 
+/**
+ * Helper to build an assistant message holding one completed tool call.
+ */
+export function createToolMessage(
+    callId: string,
+    tool: string,
+    output: string,
+    input: Record<string, unknown> = {},
+): WithParts {
+    return {
+        info: { id: `msg_${callId}`, role: "assistant", time: { created: 0 } },
+        parts: [
+            {
+                type: "tool",
+                callID: callId,
+                tool,
+                state: { status: "completed", input, output },
+            },
+        ],
+    } as unknown as WithParts
+}
+
 /**
  * Helper to register a message part in state with its hash.
  */
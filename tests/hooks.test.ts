@@ -2,10 +2,13 @@ import { describe, it, expect, beforeEach, vi } from "vitest"
 import type { SessionState } from "../lib/state/index.js"
 import type { PluginConfig } from "../lib/config.js"
 import type { OpenCodeClient } from "../lib/client.js"
+import { sendIgnoredMessage } from "../lib/ui/notification.js"
 import {
+    createChatMessageHandler,
     createSystemPromptHandler,
     createChatMessageTransformHandler,
     createToolExecuteAfterHandler,
+    getTurnConfig,
 } from "../lib/hooks.js"
 
 // Mock dependencies
@@ -17,6 +20,11 @@ vi.mock("../lib/strategies", () => ({
     deduplicate: vi.fn(),
     supersedeWrites: vi.fn(),
     purgeErrors: vi.fn(),
+    truncateOldErrors: vi.fn(),
+    pruneUserCodeBlocks: vi.fn(),
+    budgetEviction: vi.fn(),
+    decayToolOutputs: vi.fn(),
+    windowToolOutputs: vi.fn(),
 }))
 
 vi.mock("../lib/messages", () => ({
@@ -42,6 +50,7 @@ vi.mock("../lib/state/persistence", () => ({
 
 vi.mock("../lib/ui/notification", () => ({
     sendUnifiedNotification: vi.fn(),
+    sendIgnoredMessage: vi.fn(),
 }))
 
 vi.mock("../lib/strategies/utils", () => ({
@@ -129,6 +138,19 @@ const createMockState = (): SessionState => ({
                 context: { count: 0, tokens: 0 },
             },
             purgeErrors: { count: 0, tokens: 0 },
+            truncatedErrors: { count: 0, tokens: 0 },
+            budgetEviction: { count: 0, tokens: 0 },
+            outputWindow: { count: 0, tokens: 0 },
+            userCodeBlocks: { count: 0, tokens: 0 },
+            fileParts: { count: 0, tokens: 0 },
+            stepMarkers: { count: 0, tokens: 0 },
+            runSummaries: { count: 0, tokens: 0 },
+            decay: {
+                excerpt: { count: 0, tokens: 0 },
+                digest: { count: 0, tokens: 0 },
+                remove: { count: 0, tokens: 0 },
+            },
+            supersedeRules: {},
             manualDiscard: {
                 message: { count: 0, tokens: 0 },
                 thinking: { count: 0, tokens: 0 },
@@ -152,6 +174,9 @@ const createMockState = (): SessionState => ({
         reasoningPartIds: new Map(),
     },
     discardHistory: [],
+    pruneRecords: new Map(),
+    pinnedCallIds: new Set(),
+    expandedCallIds: new Set(),
     cursors: {
         todo: {
             lastTurn: 0,
@@ -169,6 +194,8 @@ const createMockState = (): SessionState => ({
         },
         files: {
             pathToCallIds: new Map(),
+            keptReadRanges: new Map(),
+            refreshedReads: new Map(),
         },
     },
     todos: [],
@@ -314,6 +341,152 @@ describe("createChatMessageTransformHandler", () => {
     })
 })
 
+describe("createChatMessageHandler", () => {
+    let mockClient: OpenCodeClient
+    let mockState: SessionState
+    let mockLogger: ReturnType<typeof createMockLogger>
+
+    beforeEach(() => {
+        mockClient = createMockClient()
+        mockState = createMockState()
+        mockLogger = createMockLogger()
+        vi.clearAllMocks()
+    })
+
+    it("should cache the variant, agent and model", async () => {
+        const handler = createChatMessageHandler(
+            mockClient,
+            mockState,
+            mockLogger as unknown as import("../lib/logger.js").Logger,
+            () => [],
+        )
+
+        await handler({
+            sessionID: "test-session",
+            variant: "high",
+            agent: "plan",
+            model: { providerID: "anthropic", modelID: "claude" },
+        })
+
+        expect(mockState.variant).toBe("high")
+        expect(mockState.agent).toBe("plan")
+        expect(mockState.model).toEqual({ providerID: "anthropic", modelID: "claude" })
+        expect(sendIgnoredMessage).not.toHaveBeenCalled()
+    })
+
+    it("should report config diagnostics only once", async () => {
+        const takeDiagnostics = vi
+            .fn()
+            .mockReturnValueOnce([
+                { path: "pruneNotification", message: "Invalid option", file: "/p/acp.jsonc" },
+            ])
+            .mockReturnValue([])
+        const handler = createChatMessageHandler(
+            mockClient,
+            mockState,
+            mockLogger as unknown as import("../lib/logger.js").Logger,
+            takeDiagnostics,
+        )
+
+        await handler({
+            sessionID: "test-session",
+            agent: "build",
+            model: { providerID: "anthropic", modelID: "claude" },
+        })
+        await handler({ sessionID: "test-session" })
+
+        expect(sendIgnoredMessage).toHaveBeenCalledTimes(1)
+        const [, sessionId, text, params] = vi.mocked(sendIgnoredMessage).mock.calls[0]!
+        expect(sessionId).toBe("test-session")
+        expect(text).toContain("pruneNotification: Invalid option (/p/acp.jsonc)")
+        expect(params).toMatchObject({ agent: "build", providerId: "anthropic", modelId: "claude" })
+    })
+})
+
+describe("live config", () => {
+    it("should read the latest config on every call", async () => {
+        const mockState = createMockState()
+        const mockLogger = createMockLogger()
+        let current = createMockConfig()
+        const handler = createSystemPromptHandler(
+            mockState,
+            mockLogger as unknown as import("../lib/logger.js").Logger,
+            () => current,
+        )
+
+        const first = { system: [] as string[] }
+        await handler({}, first)
+        expect(first.system).toHaveLength(1)
+
+        current = createMockConfig()
+        current.tools.discard.enabled = false
+        current.tools.distill.enabled = false
+        const second = { system: [] as string[] }
+        await handler({}, second)
+        expect(second.system).toHaveLength(0)
+    })
+
+    it("should stop transforming messages once the reloaded config disables ACP", async () => {
+        const { syncSessionState } = await import("../lib/state/index.js")
+        vi.mocked(syncSessionState).mockClear()
+        let current = createMockConfig()
+        const handler = createChatMessageTransformHandler(
+            createMockClient(),
+            createMockState(),
+            createMockLogger() as unknown as import("../lib/logger.js").Logger,
+            () => current,
+        )
+
+        await handler({}, { messages: [] })
+        expect(syncSessionState).toHaveBeenCalledTimes(1)
+
+        current = createMockConfig()
+        current.enabled = false
+        await handler({}, { messages: [] })
+        expect(syncSessionState).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe("config overrides", () => {
+    it("should apply the override for the cached agent", async () => {
+        const mockState = createMockState()
+        mockState.agent = "plan"
+        const config = createMockConfig()
+        config.overrides = {
+            plan: { tools: { discard: { enabled: false }, distill: { enabled: false } } },
+        }
+        const handler = createSystemPromptHandler(
+            mockState,
+            createMockLogger() as unknown as import("../lib/logger.js").Logger,
+            config,
+        )
+
+        const output = { system: [] as string[] }
+        await handler({}, output)
+        expect(output.system).toHaveLength(0)
+
+        mockState.agent = "build"
+        await handler({}, output)
+        expect(output.system).toHaveLength(1)
+    })
+
+    it("should resolve the config of the cached agent and model for the context tool", () => {
+        const mockState = createMockState()
+        mockState.agent = "plan"
+        mockState.model = { providerID: "anthropic", modelID: "claude" } as any
+        const config = createMockConfig()
+        config.overrides = {
+            plan: { tools: { settings: { protectedTools: ["bash"] } } },
+            "anthropic/*": { tools: { discard: { enabled: false } } },
+        } as any
+
+        const effective = getTurnConfig(() => config, mockState)
+
+        expect(effective.tools.settings.protectedTools).toEqual(["bash"])
+        expect(effective.tools.discard.enabled).toBe(false)
+    })
+})
+
 describe("createToolExecuteAfterHandler", () => {
     let mockClient: OpenCodeClient
     let mockState: SessionState
@@ -343,6 +516,45 @@ describe("createToolExecuteAfterHandler", () => {
         expect(mockClient.session.messages).not.toHaveBeenCalled()
     })
 
+    it("should return early when an override disables ACP for the agent", async () => {
+        mockState.agent = "plan"
+        mockConfig.overrides = { plan: { enabled: false } }
+        const handler = createToolExecuteAfterHandler(
+            mockClient,
+            mockState,
+            mockLogger as unknown as import("../lib/logger.js").Logger,
+            mockConfig,
+            "/test",
+        )
+
+        await handler({ tool: "read", sessionID: "test-session", callID: "call_1" })
+
+        expect(mockClient.session.messages).not.toHaveBeenCalled()
+    })
+
+    it("should notify decay transitions that only rewrite outputs with their tier", async () => {
+        const { decayToolOutputs } = await import("../lib/strategies/index.js")
+        const { sendUnifiedNotification } = await import("../lib/ui/notification.js")
+        vi.mocked(decayToolOutputs).mockImplementationOnce((state) => {
+            state.stats.strategyStats.decay.excerpt.count++
+        })
+        const handler = createToolExecuteAfterHandler(
+            mockClient,
+            mockState,
+            mockLogger as unknown as import("../lib/logger.js").Logger,
+            mockConfig,
+            "/test",
+        )
+
+        await handler({ tool: "read", sessionID: "test-session", callID: "call_1" })
+
+        expect(sendUnifiedNotification).toHaveBeenCalledTimes(1)
+        expect(vi.mocked(sendUnifiedNotification).mock.calls[0]![3]).toMatchObject({
+            reason: "decay.excerpt",
+            pruneToolIds: [],
+        })
+    })
+
     it("should handle disabled plugin gracefully", async () => {
         mockConfig.enabled = false
 
@@ -13,6 +13,11 @@ vi.mock("../../lib/strategies", () => ({
     deduplicate: vi.fn(),
     supersedeWrites: vi.fn(),
     purgeErrors: vi.fn(),
+    truncateOldErrors: vi.fn(),
+    pruneUserCodeBlocks: vi.fn(),
+    budgetEviction: vi.fn(),
+    decayToolOutputs: vi.fn(),
+    windowToolOutputs: vi.fn(),
 }))
 
 vi.mock("../../lib/messages", () => ({
@@ -56,6 +61,19 @@ const createMockState = (): SessionState =>
                 deduplication: { count: 0, tokens: 0 },
                 supersedeWrites: { count: 0, tokens: 0 },
                 purgeErrors: { count: 0, tokens: 0 },
+                truncatedErrors: { count: 0, tokens: 0 },
+                budgetEviction: { count: 0, tokens: 0 },
+                outputWindow: { count: 0, tokens: 0 },
+                userCodeBlocks: { count: 0, tokens: 0 },
+                fileParts: { count: 0, tokens: 0 },
+                stepMarkers: { count: 0, tokens: 0 },
+                runSummaries: { count: 0, tokens: 0 },
+                decay: {
+                    excerpt: { count: 0, tokens: 0 },
+                    digest: { count: 0, tokens: 0 },
+                    remove: { count: 0, tokens: 0 },
+                },
+                supersedeRules: {},
                 manualDiscard: { count: 0, tokens: 0 },
                 distillation: { count: 0, tokens: 0 },
             },
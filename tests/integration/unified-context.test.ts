@@ -72,6 +72,9 @@ describe("Unified Context Tool Integration", () => {
                 reasoningPartIds: new Map(),
             },
             discardHistory: [],
+            pruneRecords: new Map(),
+            pinnedCallIds: new Set(),
+            expandedCallIds: new Set(),
             lastCompaction: 0,
             stats: {
                 pruneTokenCounter: 0,
@@ -86,6 +89,19 @@ describe("Unified Context Tool Integration", () => {
                         context: { count: 0, tokens: 0 },
                     },
                     purgeErrors: { count: 0, tokens: 0 },
+                    truncatedErrors: { count: 0, tokens: 0 },
+                    budgetEviction: { count: 0, tokens: 0 },
+                    outputWindow: { count: 0, tokens: 0 },
+                    userCodeBlocks: { count: 0, tokens: 0 },
+                    fileParts: { count: 0, tokens: 0 },
+                    stepMarkers: { count: 0, tokens: 0 },
+                    runSummaries: { count: 0, tokens: 0 },
+                    decay: {
+                        excerpt: { count: 0, tokens: 0 },
+                        digest: { count: 0, tokens: 0 },
+                        remove: { count: 0, tokens: 0 },
+                    },
+                    supersedeRules: {},
                     manualDiscard: {
                         message: { count: 0, tokens: 0 },
                         thinking: { count: 0, tokens: 0 },
@@ -234,6 +250,33 @@ describe("Unified Context Tool Integration", () => {
         ).rejects.toThrow("protected tool")
     })
 
+    it("should reject discard and distill of protected files with the matching pattern", async () => {
+        mockConfig.protectedFilePatterns = ["**/.env"]
+        mockState.hashRegistry.calls.set("abc123", "call_1")
+        mockState.hashRegistry.callIds.set("call_1", "abc123")
+        mockState.toolParameters.set("call_1", {
+            tool: "bash",
+            turn: 1,
+            parameters: { command: "cat .env" },
+        } as any)
+
+        const tool = createContextTool({
+            client: mockClient,
+            state: mockState,
+            logger: mockLogger,
+            config: mockConfig,
+            workingDirectory: "/test",
+        })
+
+        await expect(
+            tool.execute({ action: "discard", targets: [["abc123"]] }, mockToolCtx),
+        ).rejects.toThrow('".env" matches protectedFilePatterns entry "**/.env"')
+        await expect(
+            tool.execute({ action: "distill", targets: [["abc123", "env vars"]] }, mockToolCtx),
+        ).rejects.toThrow("Cannot distill: abc123 is protected")
+        expect(mockState.prune.toolIds).toEqual([])
+    })
+
     it("should report invalid targets not found in registry", async () => {
         const tool = createContextTool({
             client: mockClient,
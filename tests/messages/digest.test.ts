@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest"
+import {
+    createToolDigest,
+    digestBash,
+    digestGlob,
+    digestGrep,
+    digestRead,
+} from "../../lib/messages/digest"
+
+describe("digestRead", () => {
+    it("lists the line count and exported symbols", () => {
+        const output = [
+            "<file>",
+            "00001| import { x } from './x'",
+            "00002| export function login() {}",
+            "00003| const internal = 1",
+            "00004| export class Session {}",
+            "",
+            "(End of file - total 4 lines)",
+            "</file>",
+        ].join("\n")
+        expect(digestRead("src/auth.ts", output, 80)).toBe(
+            "src/auth.ts · 4 lines · exports:\nfunction login:2, class Session:4",
+        )
+    })
+
+    it("drops symbols beyond the token cap", () => {
+        const output = Array.from(
+            { length: 40 },
+            (_, i) => `${String(i + 1).padStart(5, "0")}| export const value${i} = ${i}`,
+        ).join("\n")
+        const digest = digestRead("a.ts", output, 30)!
+        expect(digest).toMatch(/\+\d+ more$/)
+        expect(digest.startsWith("a.ts · 40 lines · exports:\nconst value0:1")).toBe(true)
+    })
+
+    it("returns null for output without numbered lines", () => {
+        expect(digestRead("a.ts", "original content", 80)).toBeNull()
+    })
+})
+
+describe("digestGrep", () => {
+    it("counts matches per file", () => {
+        const output = [
+            "Found 3 matches",
+            "/repo/a.ts:",
+            "  Line 1: foo",
+            "  Line 9: foo()",
+            "",
+            "/repo/b.ts:",
+            "  Line 4: foo",
+        ].join("\n")
+        expect(digestGrep("foo", output, 80)).toBe(
+            'grep "foo" · 3 matches in 2 files:\n/repo/a.ts (2), /repo/b.ts (1)',
+        )
+    })
+})
+
+describe("digestGlob", () => {
+    it("collapses paths to directories under their common parent", () => {
+        const output = ["/repo/src/a.ts", "/repo/src/b.ts", "/repo/src/db/c.ts"].join("\n")
+        expect(digestGlob("**/*.ts", output, 80)).toBe(
+            'glob "**/*.ts" · 3 files under /repo/src/:\n./ (2), db/ (1)',
+        )
+    })
+})
+
+describe("digestBash", () => {
+    it("keeps the exit status and last meaningful line", () => {
+        expect(digestBash("npm run lint", "checking...\n✖ 2 problems\n-----\n", 1, 80)).toBe(
+            "$ npm run lint · exit 1\n✖ 2 problems",
+        )
+    })
+})
+
+describe("createToolDigest", () => {
+    const part = (tool: string, output: string, input: Record<string, unknown> = {}) => ({
+        tool,
+        state: { status: "completed", input, output },
+    })
+
+    it("reuses the digest carried by a superseded output", () => {
+        expect(
+            createToolDigest(
+                part("read", "[auto-superseded: file superseded]\na.ts · 3 lines"),
+                80,
+            ),
+        ).toBe("a.ts · 3 lines")
+        expect(createToolDigest(part("read", "[auto-superseded: file superseded]"), 80)).toBeNull()
+    })
+
+    it("returns null for tools without a digest or a zero cap", () => {
+        expect(createToolDigest(part("webfetch", "<html>"), 80)).toBeNull()
+        expect(createToolDigest(part("bash", "done", { command: "make" }), 0)).toBeNull()
+    })
+})
@@ -1,8 +1,14 @@
 import { describe, it, expect, beforeEach } from "vitest"
-import { prune, injectHashesIntoToolOutputs } from "../../lib/messages/prune"
+import {
+    prune,
+    injectHashesIntoToolOutputs,
+    maskFileParts,
+    filterStepMarkers,
+} from "../../lib/messages/prune"
 import { stripHashTags } from "../../lib/state/hash-registry"
 import type { SessionState, WithParts } from "../../lib/state"
 import type { PluginConfig } from "../../lib/config"
+import { createMockState as createSessionState } from "../fixtures/mock-client"
 
 const createMockLogger = () => ({
     debug: () => {},
@@ -118,6 +124,27 @@ describe("prune", () => {
             expect((messages[0].parts[0] as any).text).toBe("[read() output pruned]")
         })
 
+        it("should append a structural digest to the placeholder", () => {
+            const state = createMockState(["call_123"])
+            const messages: WithParts[] = [
+                createMessage("msg_1", [
+                    createToolPart(
+                        "call_123",
+                        "read",
+                        "completed",
+                        { filePath: "/test/file.ts" },
+                        "00001| export function main() {}\n00002| main()",
+                    ),
+                ]),
+            ]
+
+            prune(state, mockLogger as any, mockConfig, messages)
+
+            expect((messages[0].parts[0] as any).text).toBe(
+                "[read() output pruned]\n/test/file.ts · 2 lines · exports:\nfunction main:1",
+            )
+        })
+
         it("should keep non-pruned tool parts", () => {
             const state = createMockState(["call_123"])
             const originalOutput = "original content"
@@ -510,3 +537,83 @@ describe("prune", () => {
         })
     })
 })
+
+describe("aggressive part pruning", () => {
+    const logger = createMockLogger() as any
+    const config = {
+        strategies: {
+            aggressivePruning: {
+                pruneFiles: true,
+                keepLatestAttachments: 1,
+                pruneStepMarkers: true,
+            },
+        },
+    } as any
+
+    const filePart = (filename: string) => ({
+        type: "file",
+        mime: "image/png",
+        filename,
+        url: `data:image/png;base64,${filename}`,
+    })
+
+    const userMessage = (id: string, parts: any[]): WithParts =>
+        ({ info: { id, role: "user", time: { created: 1 } }, parts }) as any
+
+    it("masks all but the latest attachments and counts each once", () => {
+        const state = createSessionState()
+        const load = () => [
+            userMessage("msg_1", [{ type: "text", text: "look" }, filePart("old.png")]),
+            createMessage("msg_2", [
+                {
+                    type: "tool",
+                    callID: "call_1",
+                    tool: "read",
+                    state: {
+                        status: "completed",
+                        input: {},
+                        output: "Image read",
+                        attachments: [filePart("shot.png")],
+                    },
+                },
+            ]),
+            userMessage("msg_3", [filePart("new.png")]),
+        ]
+
+        const messages = load()
+        maskFileParts(messages, config, logger, state)
+        maskFileParts(load(), config, logger, state)
+
+        expect(messages[0]!.parts[1]).toEqual({
+            id: undefined,
+            sessionID: undefined,
+            messageID: undefined,
+            type: "text",
+            text: "[File: old.png, image/png]",
+        })
+        const tool = messages[1]!.parts[0] as any
+        expect(tool.state.attachments).toEqual([])
+        expect(tool.state.output).toBe("Image read\n[File: shot.png, image/png]")
+        expect(messages[2]!.parts[0]).toMatchObject({ type: "file", filename: "new.png" })
+        expect(state.stats.strategyStats.fileParts.count).toBe(2)
+    })
+
+    it("removes step markers and counts each once", () => {
+        const state = createSessionState()
+        const load = () => [
+            createMessage("msg_1", [
+                { id: "prt_1", type: "step-start" },
+                { id: "prt_2", type: "text", text: "done" },
+                { id: "prt_3", type: "step-finish" },
+            ]),
+        ]
+
+        const messages = load()
+        filterStepMarkers(messages, config, logger, state)
+        filterStepMarkers(load(), config, logger, state)
+
+        expect(messages[0]!.parts.map((p) => p.type)).toEqual(["text"])
+        expect(state.stats.strategyStats.stepMarkers.count).toBe(2)
+        expect(state.pruneRecords.size).toBe(0)
+    })
+})
@@ -6,6 +6,7 @@ import type { PluginConfig } from "../../lib/config"
 // Mock dependencies
 vi.mock("../../lib/shared-utils", () => ({
     isMessageCompacted: vi.fn().mockReturnValue(false),
+    getLastUserMessage: vi.fn().mockReturnValue(null),
 }))
 
 vi.mock("../../lib/messages/utils", () => ({
@@ -36,7 +37,16 @@ const createMockState = (overrides: Partial<SessionState> = {}): SessionState =>
     ({
         currentTurn: 10,
         todos: [],
-        prune: { toolIds: [], messagePartIds: [], reasoningPartIds: [] },
+        prune: {
+            toolIds: [],
+            messagePartIds: [],
+            reasoningPartIds: [],
+            segmentIds: [],
+            replacements: [],
+        },
+        toolParameters: new Map(),
+        pinnedCallIds: new Set(),
+        expandedCallIds: new Set(),
         hashRegistry: {
             calls: new Map(),
             callIds: new Map(),
@@ -54,7 +64,11 @@ const createMockState = (overrides: Partial<SessionState> = {}): SessionState =>
             },
             context: { lastCallId: null },
             automata: { enabled: false, lastTurn: 0, lastReflectionTurn: 0 },
-            files: { pathToCallIds: new Map() },
+            files: {
+                pathToCallIds: new Map(),
+                keptReadRanges: new Map(),
+                refreshedReads: new Map(),
+            },
         },
         stats: {
             strategyStats: {
@@ -107,6 +121,34 @@ describe("todo-reminder", () => {
             expect(getMessageText(messages[0])).toContain("🔖 Checkpoint")
         })
 
+        it("should list the largest unprotected outputs as prunable", () => {
+            state.pinnedCallIds.add("call_pinned")
+            messages.push({
+                info: { id: "msg_tools", role: "assistant" },
+                parts: ["call_big", "call_small", "call_pinned"].map((callID) => ({
+                    type: "tool",
+                    callID,
+                    tool: "read",
+                    state: {
+                        status: "completed",
+                        input: { filePath: `/repo/${callID}.ts` },
+                        output: callID === "call_small" ? "ok" : "line\n".repeat(600),
+                    },
+                })),
+            } as unknown as WithParts)
+            state.hashRegistry.callIds.set("call_big", "aaa111")
+            state.hashRegistry.callIds.set("call_small", "bbb222")
+            state.hashRegistry.callIds.set("call_pinned", "ccc333")
+
+            injectTodoReminder(state, logger as any, config, messages)
+
+            const text = getMessageText(messages[messages.length - 1]!)
+            expect(text).toContain("**Prunable Outputs:**")
+            expect(text).toMatch(/read: \/repo\/call_big\.ts \(~[\d.K]+ tokens\) → aaa111/)
+            expect(text).not.toContain("bbb222")
+            expect(text).not.toContain("ccc333")
+        })
+
         it("should not inject reminder when disabled", () => {
             config.tools.todoReminder.enabled = false
 
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest"
+import {
+    findFileProtection,
+    formatFileProtection,
+    getFilePathsFromParameters,
+} from "../lib/protected-file-patterns"
+
+describe("getFilePathsFromParameters", () => {
+    it("reads filePath and glob/grep path", () => {
+        expect(getFilePathsFromParameters({ filePath: "/repo/.env" })).toEqual(["/repo/.env"])
+        expect(getFilePathsFromParameters({ pattern: "*.ts", path: "/repo/src" })).toEqual([
+            "/repo/src",
+        ])
+    })
+
+    it("splits bash commands into candidate paths", () => {
+        expect(
+            getFilePathsFromParameters({ command: "cat -n '.env' | grep KEY > out.txt" }),
+        ).toEqual(["cat", ".env", "grep", "KEY", "out.txt"])
+    })
+
+    it("returns nothing for non-objects", () => {
+        expect(getFilePathsFromParameters(undefined)).toEqual([])
+    })
+})
+
+describe("findFileProtection", () => {
+    const patterns = ["**/.env", "**/package.json"]
+
+    it("reports the path and the pattern that matched", () => {
+        const protection = findFileProtection({ command: "npm view package.json" }, patterns)
+
+        expect(protection).toEqual({ path: "package.json", pattern: "**/package.json" })
+        expect(formatFileProtection(protection!)).toBe(
+            '"package.json" matches protectedFilePatterns entry "**/package.json"',
+        )
+    })
+
+    it("checks glob and grep paths", () => {
+        expect(findFileProtection({ pattern: "*", path: "/repo/.env" }, patterns)).toEqual({
+            path: "/repo/.env",
+            pattern: "**/.env",
+        })
+    })
+
+    it("returns undefined without patterns or matches", () => {
+        expect(findFileProtection({ filePath: "/repo/.env" }, [])).toBeUndefined()
+        expect(findFileProtection({ filePath: "/repo/src/app.ts" }, patterns)).toBeUndefined()
+    })
+})
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest"
+import {
+    DEFAULT_READ_LIMIT,
+    getReadRange,
+    subtractRanges,
+    trimReadOutput,
+} from "../../lib/state/read-ranges"
+
+describe("getReadRange", () => {
+    it("uses offset and limit, defaulting to the whole default window", () => {
+        expect(getReadRange({ filePath: "a.ts", offset: 400, limit: 200 })).toEqual({
+            start: 400,
+            end: 600,
+        })
+        expect(getReadRange({ filePath: "a.ts" })).toEqual({ start: 0, end: DEFAULT_READ_LIMIT })
+    })
+})
+
+describe("subtractRanges", () => {
+    it("returns the uncovered parts", () => {
+        expect(subtractRanges([{ start: 0, end: 100 }], [{ start: 20, end: 50 }])).toEqual([
+            { start: 0, end: 20 },
+            { start: 50, end: 100 },
+        ])
+    })
+
+    it("returns nothing when fully covered", () => {
+        expect(
+            subtractRanges(
+                [{ start: 10, end: 30 }],
+                [
+                    { start: 0, end: 15 },
+                    { start: 15, end: 40 },
+                ],
+            ),
+        ).toEqual([])
+    })
+})
+
+describe("trimReadOutput", () => {
+    const output = [
+        "<file>",
+        ...Array.from({ length: 6 }, (_, i) => `${String(i + 1).padStart(5, "0")}| line ${i + 1}`),
+        "</file>",
+    ].join("\n")
+
+    it("replaces dropped lines with one marker per run", () => {
+        expect(trimReadOutput(output, [{ start: 2, end: 4 }])).toBe(
+            [
+                "<file>",
+                "[... lines 1-2 covered by newer reads ...]",
+                "00003| line 3",
+                "00004| line 4",
+                "[... lines 5-6 covered by newer reads ...]",
+                "</file>",
+            ].join("\n"),
+        )
+    })
+
+    it("gives the same result when trimming again", () => {
+        const once = trimReadOutput(output, [{ start: 0, end: 4 }])
+        expect(trimReadOutput(once, [{ start: 0, end: 2 }])).toBe(
+            trimReadOutput(output, [{ start: 0, end: 2 }]),
+        )
+    })
+})
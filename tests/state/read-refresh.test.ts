@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest"
+import {
+    applyEditToReadOutput,
+    applyEditsToReadOutput,
+    getReadEdit,
+    type ReadEdit,
+} from "../../lib/state/read-refresh"
+
+const output = [
+    "<file>",
+    "00001| const a = 1",
+    "00002| const b = 2",
+    "00003| export { a, b }",
+    "</file>",
+].join("\n")
+
+const edit = (oldString: string, newString: string, replaceAll = false): ReadEdit => ({
+    callId: "call_edit",
+    oldString,
+    newString,
+    replaceAll,
+})
+
+describe("getReadEdit", () => {
+    it("reads string replacements from edit parameters", () => {
+        expect(getReadEdit("c1", { filePath: "a.ts", oldString: "x", newString: "y" })).toEqual({
+            callId: "c1",
+            oldString: "x",
+            newString: "y",
+            replaceAll: false,
+        })
+        expect(getReadEdit("c1", { filePath: "a.ts", content: "x" })).toBeNull()
+    })
+})
+
+describe("applyEditToReadOutput", () => {
+    it("applies the edit and renumbers the lines", () => {
+        expect(applyEditToReadOutput(output, edit("const b = 2", "const b = 2\nconst c = 3"))).toBe(
+            [
+                "<file>",
+                "00001| const a = 1",
+                "00002| const b = 2",
+                "00003| const c = 3",
+                "00004| export { a, b }",
+                "</file>",
+                "[view updated by 1 later edit]",
+            ].join("\n"),
+        )
+    })
+
+    it("returns null when the text is missing or ambiguous", () => {
+        expect(applyEditToReadOutput(output, edit("const z", "const y"))).toBeNull()
+        expect(applyEditToReadOutput(output, edit("const", "let"))).toBeNull()
+        expect(applyEditToReadOutput(output, edit("const", "let", true))).toContain(
+            "00002| let b = 2",
+        )
+    })
+
+    it("counts successive edits in a single note", () => {
+        const result = applyEditsToReadOutput(output, [
+            edit("a = 1", "a = 10"),
+            edit("b = 2", "b = 20"),
+        ])!
+        expect(result).toContain("00001| const a = 10")
+        expect(result.endsWith("</file>\n[view updated by 2 later edits]")).toBe(true)
+    })
+})
@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest"
+import {
+    RelevanceIndex,
+    getGoalTerms,
+    scoreToolRelevance,
+    tokenize,
+} from "../../lib/state/relevance-index"
+import type { WithParts } from "../../lib/state"
+import { createMockState, createToolMessage, registerToolCall } from "../fixtures/mock-client"
+
+function userMessage(text: string): WithParts {
+    return {
+        info: { id: "msg_user", role: "user", time: { created: 0 } },
+        parts: [{ type: "text", text }],
+    } as any
+}
+
+describe("tokenize", () => {
+    it("splits identifiers and drops stop words and numbers", () => {
+        expect(tokenize("Fix the getUserName bug in user_service 42")).toEqual([
+            "fix",
+            "getusername",
+            "get",
+            "user",
+            "name",
+            "bug",
+            "user_service",
+            "user",
+            "service",
+        ])
+    })
+})
+
+describe("RelevanceIndex", () => {
+    it("ranks documents by BM25 score", () => {
+        const index = new RelevanceIndex()
+        index.add("a", "parser tokenizer parser grammar")
+        index.add("b", "database migration schema")
+        index.add("c", "parser error recovery")
+
+        const query = tokenize("parser grammar")
+        expect(index.score("a", query)).toBeGreaterThan(index.score("c", query))
+        expect(index.score("c", query)).toBeGreaterThan(0)
+        expect(index.score("b", query)).toBe(0)
+        expect(index.score("missing", query)).toBe(0)
+    })
+
+    it("indexes each call ID once and updates frequencies on removal", () => {
+        const index = new RelevanceIndex()
+        index.add("a", "parser")
+        index.add("a", "something else")
+        index.add("b", "parser")
+        const shared = index.score("a", ["parser"])
+
+        index.remove("b")
+
+        expect(index.size).toBe(1)
+        expect(index.score("a", ["parser"])).toBeGreaterThan(shared)
+    })
+})
+
+describe("scoreToolRelevance", () => {
+    it("scores unpruned outputs against the user message and open todos", () => {
+        const state = createMockState()
+        state.todos = [
+            {
+                id: "1",
+                content: "Update the migration schema",
+                status: "in_progress",
+                priority: "high",
+            },
+            { id: "2", content: "Deploy release", status: "completed", priority: "low" },
+        ]
+        registerToolCall(state, "call_1", "aaa111", "read", 1, { filePath: "/repo/parser.ts" })
+        registerToolCall(state, "call_2", "bbb222", "bash", 1, { command: "ls db" })
+        registerToolCall(state, "call_3", "ccc333", "grep", 1, { pattern: "deploy" })
+        state.prune.toolIds.push("call_3")
+        const messages = [
+            userMessage("Why does the parser fail?"),
+            createToolMessage("call_1", "read", "export function parse()", {
+                filePath: "/repo/parser.ts",
+            }),
+            createToolMessage("call_2", "bash", "migration.sql schema.sql", { command: "ls db" }),
+            createToolMessage("call_3", "grep", "deploy.sh: release", { pattern: "deploy" }),
+        ]
+
+        expect(getGoalTerms(state, messages)).toEqual([
+            "why",
+            "does",
+            "parser",
+            "fail",
+            "update",
+            "migration",
+            "schema",
+        ])
+
+        const scores = scoreToolRelevance(state, messages)
+
+        expect([...scores.keys()]).toEqual(["call_1", "call_2"])
+        expect(scores.get("call_1")).toBeGreaterThan(0)
+        expect(scores.get("call_2")).toBeGreaterThan(0)
+        expect(state._relevanceIndex?.has("call_3")).toBe(false)
+    })
+
+    it("returns no scores without a goal", () => {
+        const state = createMockState()
+        registerToolCall(state, "call_1", "aaa111", "read", 1, { filePath: "/repo/a.ts" })
+
+        const scores = scoreToolRelevance(state, [
+            createToolMessage("call_1", "read", "content", { filePath: "/repo/a.ts" }),
+        ])
+
+        expect(scores.size).toBe(0)
+    })
+})
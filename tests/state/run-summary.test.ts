@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest"
+import { extractFailingTests, getRunKind, summarizeRunOutput } from "../../lib/state/run-summary"
+
+describe("getRunKind", () => {
+    it("recognizes test and build commands", () => {
+        expect(getRunKind("npm test")).toBe("test")
+        expect(getRunKind("npx vitest run tests/state")).toBe("test")
+        expect(getRunKind("npm run build && npm test")).toBe("test")
+        expect(getRunKind("npx tsc --noEmit")).toBe("build")
+        expect(getRunKind("cargo build --release")).toBe("build")
+        expect(getRunKind("git status")).toBeNull()
+    })
+
+    it("only matches tools in command position", () => {
+        expect(getRunKind("CI=1 npm test")).toBe("test")
+        expect(getRunKind("cd app && pnpm exec jest --ci")).toBe("test")
+        expect(getRunKind("python -m pytest -x")).toBe("test")
+        expect(getRunKind("cat jest.config.js")).toBeNull()
+        expect(getRunKind("sed -n 1,40p vitest.config.ts")).toBeNull()
+        expect(getRunKind("npm install -D vitest")).toBeNull()
+        expect(getRunKind("rg pytest docs/")).toBeNull()
+        expect(getRunKind("git commit -m 'fix tsc errors'")).toBeNull()
+        expect(getRunKind("ls node_modules/.bin/tsc")).toBeNull()
+    })
+})
+
+describe("extractFailingTests", () => {
+    it("reads vitest failure headers", () => {
+        const output = [
+            " ❯ tests/a.test.ts (2 tests | 1 failed)",
+            "   × adds numbers 3ms",
+            " FAIL  tests/a.test.ts > math > adds numbers",
+            " FAIL  tests/a.test.ts > math > adds numbers",
+        ].join("\n")
+        expect(extractFailingTests(output)).toEqual(["tests/a.test.ts > math > adds numbers"])
+    })
+
+    it("prefers jest test names over file lines", () => {
+        const output = ["FAIL tests/a.test.js", "  ● math › adds numbers"].join("\n")
+        expect(extractFailingTests(output)).toEqual(["math › adds numbers"])
+    })
+
+    it("reads pytest and go test failures", () => {
+        expect(extractFailingTests("FAILED tests/test_a.py::test_add - assert 1 == 2")).toEqual([
+            "tests/test_a.py::test_add",
+        ])
+        expect(extractFailingTests("--- FAIL: TestAdd (0.00s)")).toEqual(["TestAdd"])
+    })
+})
+
+describe("summarizeRunOutput", () => {
+    it("keeps the pass/fail line and failing test names", () => {
+        const output = [
+            " FAIL  tests/a.test.ts > adds",
+            " FAIL  tests/b.test.ts > subtracts",
+            "      Tests  2 failed | 40 passed (42)",
+        ].join("\n")
+        expect(summarizeRunOutput("test", output)).toBe(
+            [
+                "「 🧪 test ✗ 2 2 failed 」",
+                "✗ tests/a.test.ts > adds",
+                "✗ tests/b.test.ts > subtracts",
+                "[full output superseded by a newer test run]",
+            ].join("\n"),
+        )
+    })
+
+    it("lists at most ten failing tests", () => {
+        const output = Array.from({ length: 12 }, (_, i) => `FAILED t.py::test_${i}`).join("\n")
+        const summary = summarizeRunOutput("test", output)
+        expect(summary).toContain("✗ t.py::test_9")
+        expect(summary).not.toContain("test_10")
+        expect(summary).toContain("+2 more failing")
+    })
+
+    it("reduces a build to its status line", () => {
+        expect(summarizeRunOutput("build", "src/a.ts(1,1): error TS2322: nope")).toBe(
+            "「 🔨 build ✗ failed 」\n[full output superseded by a newer build]",
+        )
+    })
+})
@@ -28,6 +28,9 @@ const createMockState = (): SessionState =>
         softPrunedTools: new Map(),
         softPrunedMessageParts: new Map(),
         discardHistory: [],
+        pruneRecords: new Map(),
+        pinnedCallIds: new Set(),
+        expandedCallIds: new Set(),
         stats: {
             pruneTokenCounter: 0,
             totalPruneTokens: 0,
@@ -37,6 +40,19 @@ const createMockState = (): SessionState =>
                 deduplication: { count: 0, tokens: 0 },
                 supersedeWrites: { count: 0, tokens: 0 },
                 purgeErrors: { count: 0, tokens: 0 },
+                truncatedErrors: { count: 0, tokens: 0 },
+                budgetEviction: { count: 0, tokens: 0 },
+                outputWindow: { count: 0, tokens: 0 },
+                userCodeBlocks: { count: 0, tokens: 0 },
+                fileParts: { count: 0, tokens: 0 },
+                stepMarkers: { count: 0, tokens: 0 },
+                runSummaries: { count: 0, tokens: 0 },
+                decay: {
+                    excerpt: { count: 0, tokens: 0 },
+                    digest: { count: 0, tokens: 0 },
+                    remove: { count: 0, tokens: 0 },
+                },
+                supersedeRules: {},
                 manualDiscard: { count: 0, tokens: 0 },
                 distillation: { count: 0, tokens: 0 },
             },
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest"
+import {
+    matchesExitStatus,
+    matchSupersedeRule,
+    renderKeyTemplate,
+    type SupersedeRule,
+} from "../../lib/state/supersede-rules"
+
+const rule = (overrides: Partial<SupersedeRule> = {}): SupersedeRule => ({
+    name: "pods",
+    pattern: "^kubectl get (\\S+)",
+    key: "{cmd}",
+    keepLatest: 1,
+    exitStatus: "any",
+    ...overrides,
+})
+
+describe("renderKeyTemplate", () => {
+    it("fills command words and regex groups", () => {
+        const command = "kubectl get pods -n default"
+        const match = command.match(/^kubectl get (\S+)/)!
+        expect(renderKeyTemplate("{cmd} {arg1} {1}", command, match)).toBe("kubectl get pods")
+        expect(renderKeyTemplate("{command}", command, match)).toBe(command)
+        expect(renderKeyTemplate("{arg9}|{2}", command, match)).toBe("|")
+    })
+})
+
+describe("matchesExitStatus", () => {
+    it("matches success, failure and exact codes", () => {
+        expect(matchesExitStatus("any", undefined)).toBe(true)
+        expect(matchesExitStatus("success", 0)).toBe(true)
+        expect(matchesExitStatus("success", 1)).toBe(false)
+        expect(matchesExitStatus("failure", 2)).toBe(true)
+        expect(matchesExitStatus("failure", undefined)).toBe(false)
+        expect(matchesExitStatus(2, 2)).toBe(true)
+    })
+})
+
+describe("matchSupersedeRule", () => {
+    it("returns the first matching rule with a prefixed key", () => {
+        const rules = [
+            rule({ name: "tests", pattern: "^npm test", exitStatus: "success" }),
+            rule({ key: "{cmd} {1}" }),
+        ]
+        expect(matchSupersedeRule(rules, "  kubectl get pods ", 0)).toEqual({
+            rule: rules[1],
+            key: "rule:pods:kubectl pods",
+        })
+        expect(matchSupersedeRule(rules, "npm test", 1)).toBeNull()
+        expect(matchSupersedeRule(rules, "npm test", 0)?.key).toBe("rule:tests:npm")
+    })
+})
@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from "vitest"
 import { syncToolCache } from "../../lib/state/tool-cache"
+import { restorePrunedItems } from "../../lib/strategies/restore"
+import { buildInventory } from "../../lib/commands/list"
 import type { SessionState, WithParts } from "../../lib/state"
-import type { PluginConfig } from "../../lib/config"
+import { DEFAULT_CONFIG, type PluginConfig } from "../../lib/config"
 
 // Mock dependencies
 vi.mock("../../lib/messages/todo-reminder", () => ({
@@ -14,6 +16,8 @@ vi.mock("../../lib/messages/automata-mode", () => ({
 
 vi.mock("../../lib/shared-utils", () => ({
     isMessageCompacted: vi.fn().mockReturnValue(false),
+    isSyntheticMessage: vi.fn().mockReturnValue(false),
+    getLastUserMessage: vi.fn().mockReturnValue(null),
 }))
 
 const createMockLogger = () =>
@@ -52,6 +56,8 @@ const createMockState = (): SessionState =>
             toolIds: [],
             messagePartIds: [],
             reasoningPartIds: [],
+            segmentIds: [],
+            replacements: [],
         },
         hashRegistry: {
             calls: new Map(),
@@ -78,12 +84,15 @@ const createMockState = (): SessionState =>
             },
             files: {
                 pathToCallIds: new Map(),
+                keptReadRanges: new Map(),
+                refreshedReads: new Map(),
             },
             urls: {
                 urlToCallIds: new Map(),
             },
             stateQueries: {
                 queryToCallIds: new Map(),
+                runSummaries: new Map(),
             },
             snapshots: {
                 allCallIds: new Set(),
@@ -94,6 +103,9 @@ const createMockState = (): SessionState =>
             },
         },
         todos: [],
+        pruneRecords: new Map(),
+        pinnedCallIds: new Set(),
+        expandedCallIds: new Set(),
         stats: {
             strategyStats: {
                 autoSupersede: {
@@ -107,6 +119,19 @@ const createMockState = (): SessionState =>
                     retry: { count: 0, tokens: 0 },
                 },
                 purgeErrors: { count: 0, tokens: 0 },
+                truncatedErrors: { count: 0, tokens: 0 },
+                budgetEviction: { count: 0, tokens: 0 },
+                outputWindow: { count: 0, tokens: 0 },
+                userCodeBlocks: { count: 0, tokens: 0 },
+                fileParts: { count: 0, tokens: 0 },
+                stepMarkers: { count: 0, tokens: 0 },
+                runSummaries: { count: 0, tokens: 0 },
+                decay: {
+                    excerpt: { count: 0, tokens: 0 },
+                    digest: { count: 0, tokens: 0 },
+                    remove: { count: 0, tokens: 0 },
+                },
+                supersedeRules: {},
                 manualDiscard: {
                     message: { count: 0, tokens: 0 },
                     thinking: { count: 0, tokens: 0 },
@@ -197,6 +222,36 @@ describe("tool-cache auto-supersede", () => {
             expect(state.prune.toolIds.includes("call_001")).toBe(false)
             expect(state.prune.toolIds.includes("call_002")).toBe(false)
         })
+
+        it("should hand the hash to the newest call when another strategy handles the old one", async () => {
+            const messages: WithParts[] = [
+                createMessage("msg1", "assistant", [
+                    createStepPart(),
+                    createToolPart(
+                        "call_001",
+                        "bash",
+                        { command: "npm test" },
+                        "completed",
+                        "1 failed",
+                    ),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(),
+                    createToolPart("call_002", "bash", { command: "npm test" }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, messages)
+            const hash = state.hashRegistry.callIds.get("call_002")!
+
+            expect(state.stats.strategyStats.runSummaries.count).toBe(1)
+            expect(state.hashRegistry.calls.get(hash)).toBe("call_002")
+            expect(state.hashRegistry.callIds.has("call_001")).toBe(false)
+            expect(
+                buildInventory(state, messages, DEFAULT_CONFIG).map((item) => item.hash),
+            ).toEqual([hash])
+            expect(restorePrunedItems(state, [hash]).notPruned).toEqual([hash])
+        })
     })
 
     describe("file-based supersede", () => {
@@ -271,6 +326,200 @@ describe("tool-cache auto-supersede", () => {
             expect(state.stats.strategyStats.autoSupersede.file.count).toBe(0)
         })
 
+        it("should keep reads of a different range of the same file", async () => {
+            const messages: WithParts[] = [
+                createMessage("msg1", "assistant", [
+                    createStepPart(), // Turn 1
+                    createToolPart("call_001", "read", {
+                        filePath: "/src/app.ts",
+                        offset: 0,
+                        limit: 200,
+                    }),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(), // Turn 2
+                    createToolPart("call_002", "read", {
+                        filePath: "/src/app.ts",
+                        offset: 400,
+                        limit: 200,
+                    }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, messages)
+
+            expect(state.prune.toolIds).toEqual([])
+            expect(state.cursors.files.pathToCallIds.get("/src/app.ts")).toEqual(
+                new Set(["call_001", "call_002"]),
+            )
+        })
+
+        it("should supersede a read once newer reads cover its range", async () => {
+            const messages: WithParts[] = [
+                createMessage("msg1", "assistant", [
+                    createStepPart(), // Turn 1
+                    createToolPart("call_001", "read", {
+                        filePath: "/src/app.ts",
+                        offset: 100,
+                        limit: 100,
+                    }),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(), // Turn 2
+                    createToolPart("call_002", "read", {
+                        filePath: "/src/app.ts",
+                        offset: 150,
+                        limit: 100,
+                    }),
+                    createStepPart(), // Turn 3
+                    createToolPart("call_003", "read", {
+                        filePath: "/src/app.ts",
+                        offset: 0,
+                        limit: 150,
+                    }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, messages)
+
+            expect(state.prune.toolIds).toEqual(["call_001"])
+            expect(state.stats.strategyStats.autoSupersede.file.count).toBe(1)
+        })
+
+        it("should refresh the latest read with an edit in refresh mode", async () => {
+            ;(config.strategies.aggressivePruning as any).editReadMode = "refresh"
+            const load = (): WithParts[] => [
+                createMessage("msg1", "assistant", [
+                    createStepPart(), // Turn 1
+                    createToolPart(
+                        "call_001",
+                        "read",
+                        { filePath: "/src/app.ts" },
+                        "completed",
+                        "00001| const a = 1\n00002| const b = 2",
+                    ),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(), // Turn 2
+                    createToolPart("call_002", "edit", {
+                        filePath: "/src/app.ts",
+                        oldString: "const b = 2",
+                        newString: "const b = 3",
+                    }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, load())
+            // Messages are reloaded from OpenCode on every request
+            const messages = load()
+            await syncToolCache(state, config, logger, messages)
+
+            const read = messages[0]!.parts[1] as any
+            const edit = messages[1]!.parts[1] as any
+            expect(state.prune.toolIds).toEqual([])
+            expect(read.state.output).toBe(
+                "00001| const a = 1\n00002| const b = 3\n[view updated by 1 later edit]",
+            )
+            expect(edit.state.input).toEqual({ filePath: "/src/app.ts" })
+        })
+
+        it("should supersede the read when the edit does not apply to it", async () => {
+            ;(config.strategies.aggressivePruning as any).editReadMode = "refresh"
+            const messages: WithParts[] = [
+                createMessage("msg1", "assistant", [
+                    createStepPart(), // Turn 1
+                    createToolPart("call_001", "read", { filePath: "/src/app.ts" }),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(), // Turn 2
+                    createToolPart("call_002", "edit", {
+                        filePath: "/src/app.ts",
+                        oldString: "missing",
+                        newString: "text",
+                    }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, messages)
+
+            expect(state.prune.toolIds).toEqual(["call_001"])
+        })
+
+        it("should trim the part of an older read covered by a newer one", async () => {
+            const output = Array.from(
+                { length: 10 },
+                (_, i) => `${String(i + 1).padStart(5, "0")}| line ${i + 1}`,
+            ).join("\n")
+            const messages: WithParts[] = [
+                createMessage("msg1", "assistant", [
+                    createStepPart(), // Turn 1
+                    createToolPart(
+                        "call_001",
+                        "read",
+                        { filePath: "/src/app.ts", offset: 0, limit: 10 },
+                        "completed",
+                        output,
+                    ),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(), // Turn 2
+                    createToolPart("call_002", "read", {
+                        filePath: "/src/app.ts",
+                        offset: 5,
+                        limit: 100,
+                    }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, messages)
+
+            const trimmed = (messages[0]!.parts[1] as any).state.output
+            expect(state.prune.toolIds).toEqual([])
+            expect(state.cursors.files.keptReadRanges.get("call_001")).toEqual([
+                { start: 0, end: 5 },
+            ])
+            expect(trimmed).toContain("00005| line 5")
+            expect(trimmed).not.toContain("00006| line 6")
+            expect(trimmed).toContain("[... lines 6-10 covered by newer reads ...]")
+        })
+
+        it("should show a trimmed read in full again after a restore", async () => {
+            const output = Array.from(
+                { length: 10 },
+                (_, i) => `${String(i + 1).padStart(5, "0")}| line ${i + 1}`,
+            ).join("\n")
+            const load = (): WithParts[] => [
+                createMessage("msg1", "assistant", [
+                    createStepPart(), // Turn 1
+                    createToolPart(
+                        "call_001",
+                        "read",
+                        { filePath: "/src/app.ts", offset: 0, limit: 10 },
+                        "completed",
+                        output,
+                    ),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(), // Turn 2
+                    createToolPart("call_002", "read", {
+                        filePath: "/src/app.ts",
+                        offset: 5,
+                        limit: 100,
+                    }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, load())
+            state.discardHistory = []
+            const result = restorePrunedItems(state, [state.hashRegistry.callIds.get("call_001")!])
+            const reloaded = load()
+            await syncToolCache(state, config, logger, reloaded)
+
+            expect(result.restored).toHaveLength(1)
+            expect(state.cursors.files.keptReadRanges.has("call_001")).toBe(false)
+            expect((reloaded[0]!.parts[1] as any).state.output).toBe(output)
+        })
+
         it("should handle glob patterns as file keys", async () => {
             const messages: WithParts[] = [
                 createMessage("msg1", "assistant", [
@@ -599,6 +848,59 @@ describe("tool-cache auto-supersede", () => {
             expect(state.prune.toolIds.includes("call_001")).toBe(false)
             expect(state.stats.strategyStats.autoSupersede.hash.count).toBe(0)
         })
+
+        it("should not supersede pinned calls", async () => {
+            state.pinnedCallIds.add("call_001")
+            state.pinnedCallIds.add("call_003")
+
+            const messages: WithParts[] = [
+                createMessage("msg1", "assistant", [
+                    createStepPart(),
+                    createToolPart("call_001", "read", { filePath: "/src/app.ts" }),
+                    createToolPart("call_003", "read", { filePath: "/src/other.ts" }),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(),
+                    createStepPart(),
+                    createToolPart("call_002", "read", { filePath: "/src/app.ts" }),
+                    createToolPart("call_004", "write", {
+                        filePath: "/src/other.ts",
+                        content: "new",
+                    }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, messages)
+
+            expect(state.prune.toolIds).toEqual([])
+            expect(state.stats.strategyStats.autoSupersede.hash.count).toBe(0)
+            expect(state.stats.strategyStats.autoSupersede.file.count).toBe(0)
+        })
+
+        it("should not supersede calls touching protected files", async () => {
+            ;(config as any).protectedFilePatterns = ["**/.env"]
+
+            const messages: WithParts[] = [
+                createMessage("msg1", "assistant", [
+                    createStepPart(),
+                    createToolPart("call_001", "read", { filePath: "/src/.env" }),
+                    createToolPart("call_003", "bash", { command: "cat .env" }),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(),
+                    createStepPart(),
+                    createToolPart("call_002", "edit", { filePath: "/src/.env" }),
+                    createToolPart("call_004", "bash", { command: "cat .env" }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, messages)
+
+            expect(state.prune.toolIds).toEqual([])
+            expect(logger.debug).toHaveBeenCalledWith(
+                'Not superseding call_001: "/src/.env" matches protectedFilePatterns entry "**/.env"',
+            )
+        })
     })
 
     describe("URL-based supersede", () => {
@@ -694,6 +996,203 @@ describe("tool-cache auto-supersede", () => {
         })
     })
 
+    describe("supersede rules", () => {
+        const rule = (overrides: Record<string, unknown> = {}) => ({
+            name: "pods",
+            pattern: "^kubectl get (\\S+)",
+            key: "{cmd} {1}",
+            keepLatest: 1,
+            exitStatus: "any",
+            ...overrides,
+        })
+
+        const bashPart = (callID: string, command: string, exit?: number) => {
+            const part = createToolPart(callID, "bash", { command }) as any
+            if (exit !== undefined) part.state.metadata = { exit }
+            return part
+        }
+
+        it("should keep the latest N calls per rule key", async () => {
+            ;(config.strategies as any).supersedeRules = [rule({ keepLatest: 2 })]
+            const messages: WithParts[] = [
+                createMessage("msg1", "assistant", [
+                    createStepPart(),
+                    bashPart("call_001", "kubectl get pods"),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(),
+                    bashPart("call_002", "kubectl get pods -n default"),
+                ]),
+                createMessage("msg3", "assistant", [
+                    createStepPart(),
+                    bashPart("call_003", "kubectl get pods -w"),
+                    bashPart("call_004", "kubectl get nodes"),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, messages)
+
+            expect(state.prune.toolIds).toEqual(["call_001"])
+            expect(state.cursors.stateQueries.queryToCallIds.get("rule:pods:kubectl pods")).toEqual(
+                new Set(["call_002", "call_003"]),
+            )
+            expect(state.stats.strategyStats.supersedeRules.pods?.count).toBe(1)
+        })
+
+        it("should keep identical commands up to keepLatest instead of hash superseding", async () => {
+            ;(config.strategies as any).supersedeRules = [rule({ keepLatest: 3 })]
+            const messages: WithParts[] = ["call_001", "call_002", "call_003", "call_004"].map(
+                (callID, i) =>
+                    createMessage(`msg${i + 1}`, "assistant", [
+                        createStepPart(),
+                        bashPart(callID, "kubectl get pods"),
+                    ]),
+            )
+
+            await syncToolCache(state, config, logger, messages.slice(0, 3))
+
+            expect(state.prune.toolIds).toEqual([])
+            expect(state.stats.strategyStats.autoSupersede.hash.count).toBe(0)
+
+            await syncToolCache(state, config, logger, messages)
+
+            expect(state.prune.toolIds).toEqual(["call_001"])
+            expect(state.stats.strategyStats.autoSupersede.hash.count).toBe(0)
+            expect(state.stats.strategyStats.supersedeRules.pods?.count).toBe(1)
+        })
+
+        it("should only match calls with the configured exit status", async () => {
+            ;(config.strategies as any).supersedeRules = [
+                rule({
+                    name: "tests",
+                    pattern: "^npm test",
+                    key: "{command}",
+                    exitStatus: "success",
+                }),
+            ]
+            const messages: WithParts[] = [
+                createMessage("msg1", "assistant", [
+                    createStepPart(),
+                    bashPart("call_001", "npm test", 0),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(),
+                    bashPart("call_002", "npm test -- --bail", 1),
+                ]),
+                createMessage("msg3", "assistant", [
+                    createStepPart(),
+                    bashPart("call_003", "npm test", 0),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, messages)
+
+            expect(state.prune.toolIds).toEqual(["call_001"])
+            expect(state.stats.strategyStats.supersedeRules.tests?.count).toBe(1)
+        })
+    })
+
+    describe("test/build run supersede", () => {
+        const failingRun = [
+            "lots of runner output",
+            " FAIL  tests/a.test.ts > adds",
+            "      Tests  1 failed | 9 passed (10)",
+        ].join("\n")
+
+        it("should collapse older runs to a summary and keep the latest full", async () => {
+            const messages: WithParts[] = [
+                createMessage("msg1", "assistant", [
+                    createStepPart(),
+                    createToolPart(
+                        "call_001",
+                        "bash",
+                        { command: "npm test" },
+                        "completed",
+                        failingRun,
+                    ),
+                    createToolPart("call_002", "bash", { command: "npx tsc" }, "completed", "ok"),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(),
+                    createToolPart("call_003", "bash", { command: "npm test" }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, messages)
+
+            const output = (id: number, part = 1) =>
+                (messages[id]!.parts[part] as any).state.output as string
+            expect(output(0)).toBe(
+                [
+                    "「 🧪 test ✗ 1 1 failed 」",
+                    "✗ tests/a.test.ts > adds",
+                    "[full output superseded by a newer test run]",
+                ].join("\n"),
+            )
+            expect(output(0, 2)).toBe("ok")
+            expect(output(1)).toBe("test output")
+            // Identical commands are summarized, not hash-superseded
+            expect(state.prune.toolIds).toEqual([])
+            expect(state.stats.strategyStats.runSummaries.count).toBe(1)
+        })
+
+        it("should re-apply the summary when messages are reloaded", async () => {
+            const load = (): WithParts[] => [
+                createMessage("msg1", "assistant", [
+                    createStepPart(),
+                    createToolPart(
+                        "call_001",
+                        "bash",
+                        { command: "npm test" },
+                        "completed",
+                        failingRun,
+                    ),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(),
+                    createToolPart("call_002", "bash", { command: "npm test" }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, load())
+            const reloaded = load()
+            await syncToolCache(state, config, logger, reloaded)
+
+            expect((reloaded[0]!.parts[1] as any).state.output).toContain("1 failed")
+            expect(state.stats.strategyStats.runSummaries.count).toBe(1)
+        })
+
+        it("should show the full output again after a restore", async () => {
+            const load = (): WithParts[] => [
+                createMessage("msg1", "assistant", [
+                    createStepPart(),
+                    createToolPart(
+                        "call_001",
+                        "bash",
+                        { command: "npm test" },
+                        "completed",
+                        failingRun,
+                    ),
+                ]),
+                createMessage("msg2", "assistant", [
+                    createStepPart(),
+                    createToolPart("call_002", "bash", { command: "npm test -- --bail" }),
+                ]),
+            ]
+
+            await syncToolCache(state, config, logger, load())
+            state.discardHistory = []
+            const result = restorePrunedItems(state, [state.hashRegistry.callIds.get("call_001")!])
+            const reloaded = load()
+            await syncToolCache(state, config, logger, reloaded)
+
+            expect(result.restored).toHaveLength(1)
+            expect((reloaded[0]!.parts[1] as any).state.output).toBe(failingRun)
+            expect(state.stats.strategyStats.runSummaries.count).toBe(0)
+            expect(state.pruneRecords.has("run:call_001")).toBe(false)
+        })
+    })
+
     describe("snapshot supersede", () => {
         it("should supersede all previous snapshots when new one appears", async () => {
             const messages: WithParts[] = [
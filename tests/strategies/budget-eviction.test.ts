@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest"
+import {
+    budgetEviction,
+    estimateContextUsage,
+    rankEvictionCandidates,
+    type EvictionCandidate,
+} from "../../lib/strategies/budget-eviction"
+import {
+    createMockConfig,
+    createMockLogger,
+    createMockState,
+    createToolMessage,
+    registerToolCall,
+} from "../fixtures/mock-client"
+
+function toolOutput(name: string): string {
+    return Array.from({ length: 40 }, (_, i) => `${name} line ${i}: value ${i * 7}`).join("\n")
+}
+
+function setup(budget: Record<string, unknown>) {
+    const state = createMockState({ currentTurn: 10 })
+    registerToolCall(state, "call_1", "aaa111", "read", 1, { filePath: "/repo/a.ts" })
+    registerToolCall(state, "call_2", "bbb222", "read", 2, { filePath: "/repo/b.ts" })
+    registerToolCall(state, "call_3", "ccc333", "read", 3, { filePath: "/repo/c.ts" })
+    const messages = [
+        createToolMessage("call_1", "read", toolOutput("alpha")),
+        createToolMessage("call_2", "read", toolOutput("bravo")),
+        createToolMessage("call_3", "read", toolOutput("charlie")),
+    ]
+    const total = estimateContextUsage(state, messages)
+    const config = createMockConfig({
+        strategies: {
+            budgetEviction: {
+                enabled: true,
+                maxContextTokens: total,
+                highWaterMark: 0.9,
+                lowWaterMark: 0.5,
+                policy: "oldest",
+                ...budget,
+            },
+        },
+    }) as any
+    return { state, messages, config }
+}
+
+describe("rankEvictionCandidates", () => {
+    const candidates: EvictionCandidate[] = [
+        { callId: "a", turn: 1, lastUsedTurn: 6, tokens: 100 },
+        { callId: "b", turn: 2, lastUsedTurn: 2, tokens: 500 },
+        { callId: "c", turn: 3, lastUsedTurn: 3, tokens: 300 },
+    ]
+    const order = (policy: "oldest" | "largest" | "lru") =>
+        rankEvictionCandidates(candidates, policy).map((c) => c.callId)
+
+    it("orders by policy", () => {
+        expect(order("oldest")).toEqual(["a", "b", "c"])
+        expect(order("largest")).toEqual(["b", "c", "a"])
+        expect(order("lru")).toEqual(["b", "c", "a"])
+    })
+
+    it("orders by ascending relevance, oldest first on ties", () => {
+        const scored = [
+            { ...candidates[0]!, relevance: 2.5 },
+            { ...candidates[1]!, relevance: 0 },
+            { ...candidates[2]!, relevance: 0 },
+        ]
+        expect(rankEvictionCandidates(scored, "relevance").map((c) => c.callId)).toEqual([
+            "b",
+            "c",
+            "a",
+        ])
+    })
+})
+
+describe("budgetEviction", () => {
+    it("evicts oldest outputs until usage is below the low-water mark", () => {
+        const { state, messages, config } = setup({})
+
+        budgetEviction(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual(["call_1", "call_2"])
+        expect(state.stats.strategyStats.budgetEviction.count).toBe(2)
+        expect(state.stats.strategyStats.budgetEviction.tokens).toBeGreaterThan(0)
+        expect(state.pruneRecords.get("call_1")?.bucket).toBe("budgetEviction")
+    })
+
+    it("follows references for the lru policy and skips pinned calls", () => {
+        const { state, messages, config } = setup({ policy: "lru" })
+        // A later edit of a.ts makes call_1 the most recently used
+        registerToolCall(state, "call_4", "ddd444", "edit", 9, { filePath: "/repo/a.ts" })
+        state.pinnedCallIds.add("call_2")
+
+        budgetEviction(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual(["call_3", "call_1"])
+    })
+
+    it("skips restored calls", () => {
+        const { state, messages, config } = setup({})
+        state.expandedCallIds.add("call_1")
+
+        budgetEviction(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual(["call_2", "call_3"])
+    })
+
+    it("evicts the outputs least relevant to the user message for the relevance policy", () => {
+        const { state, messages, config } = setup({ policy: "relevance" })
+        messages.push({
+            info: { id: "msg_4", role: "user", time: { created: Date.now() } },
+            parts: [{ type: "text", text: "Why is the alpha value wrong?" }],
+        } as any)
+
+        budgetEviction(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual(["call_2", "call_3"])
+    })
+
+    it("does nothing below the high-water mark", () => {
+        const { state, messages, config } = setup({ highWaterMark: 1, lowWaterMark: 0.5 })
+
+        budgetEviction(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual([])
+    })
+
+    it("does not count already pruned outputs as usage", () => {
+        const { state, messages, config } = setup({})
+        state.prune.toolIds.push("call_3")
+
+        budgetEviction(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual(["call_3"])
+    })
+})
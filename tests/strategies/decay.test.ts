@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest"
+import { decayToolOutputs, excerptOutput, getDecayTier } from "../../lib/strategies/decay"
+import { restorePrunedItems } from "../../lib/strategies/restore"
+import type { WithParts } from "../../lib/state"
+import {
+    createMockConfig,
+    createMockLogger,
+    createMockState,
+    createToolMessage,
+    registerToolCall,
+} from "../fixtures/mock-client"
+
+const TIERS = [
+    { afterTurns: 5, tier: "excerpt" as const },
+    { afterTurns: 15, tier: "digest" as const },
+    { afterTurns: 30, tier: "remove" as const },
+]
+
+function readOutput(lines: number): string {
+    return Array.from({ length: lines }, (_, i) =>
+        i === 0
+            ? "00001| export function main() {"
+            : `${String(i + 1).padStart(5, "0")}| line ${i}`,
+    ).join("\n")
+}
+
+function setup(callTurn: number, currentTurn = 40) {
+    const state = createMockState({ currentTurn })
+    registerToolCall(state, "call_1", "aaa111", "read", callTurn, { filePath: "/repo/a.ts" })
+    const messages = [readMessage()]
+    const config = createMockConfig({
+        strategies: {
+            decay: { enabled: true, tiers: TIERS, excerptHeadLines: 3, excerptTailLines: 2 },
+        },
+    }) as any
+    return { state, messages, config }
+}
+
+function readMessage(): WithParts {
+    return createToolMessage("call_1", "read", readOutput(40), { filePath: "/repo/a.ts" })
+}
+
+function outputOf(messages: WithParts[]): string {
+    return (messages[0]!.parts[0] as any).state.output
+}
+
+describe("excerptOutput", () => {
+    it("keeps head and tail lines around a marker", () => {
+        const output = ["a", "b", "c", "d", "e", "f"].join("\n")
+        expect(excerptOutput(output, 2, 1)).toBe("a\nb\n[... 3 lines decayed ...]\nf")
+    })
+
+    it("returns null when at most one line would be cut", () => {
+        expect(excerptOutput("a\nb\nc\nd", 2, 1)).toBeNull()
+    })
+})
+
+describe("getDecayTier", () => {
+    it("returns the last tier whose age has been reached", () => {
+        expect(getDecayTier(TIERS, 4)).toBeNull()
+        expect(getDecayTier(TIERS, 5)).toBe("excerpt")
+        expect(getDecayTier(TIERS, 29)).toBe("digest")
+        expect(getDecayTier(TIERS, 30)).toBe("remove")
+    })
+})
+
+describe("decayToolOutputs", () => {
+    it("leaves young outputs in full", () => {
+        const { state, messages, config } = setup(38)
+
+        decayToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(outputOf(messages)).toBe(readOutput(40))
+        expect(state.stats.strategyStats.decay.excerpt.count).toBe(0)
+    })
+
+    it("replaces outputs past the excerpt age with an excerpt", () => {
+        const { state, messages, config } = setup(30)
+
+        decayToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(outputOf(messages)).toContain("[... 35 lines decayed ...]")
+        expect(outputOf(messages).split("\n")).toHaveLength(6)
+        expect(state.stats.strategyStats.decay.excerpt.count).toBe(1)
+        expect(state.stats.strategyStats.decay.excerpt.tokens).toBeGreaterThan(0)
+    })
+
+    it("counts each transition once across reloads", () => {
+        const { state, config } = setup(30)
+
+        for (let i = 0; i < 3; i++) {
+            decayToolOutputs(state, createMockLogger() as any, config, [readMessage()])
+        }
+
+        expect(state.stats.strategyStats.decay.excerpt.count).toBe(1)
+    })
+
+    it("counts every tier an output passed when it skips ahead", () => {
+        const { state, messages, config } = setup(20)
+
+        decayToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(outputOf(messages)).toContain("[read() output decayed]")
+        expect(outputOf(messages)).toContain("function main:1")
+        expect(state.stats.strategyStats.decay.excerpt.count).toBe(1)
+        expect(state.stats.strategyStats.decay.digest.count).toBe(1)
+    })
+
+    it("prunes outputs past the remove age", () => {
+        const { state, messages, config } = setup(5)
+
+        decayToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual(["call_1"])
+        expect(state.stats.strategyStats.decay.remove.count).toBe(1)
+    })
+
+    it("skips pinned calls and protected tools", () => {
+        const { state, messages, config } = setup(5)
+        state.pinnedCallIds.add("call_1")
+
+        decayToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual([])
+        expect(outputOf(messages)).toBe(readOutput(40))
+
+        config.tools.settings.protectedTools = ["read"]
+        state.pinnedCallIds.clear()
+        decayToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual([])
+    })
+
+    it("leaves a removed and restored call in full", () => {
+        const { state, messages, config } = setup(5)
+        decayToolOutputs(state, createMockLogger() as any, config, messages)
+
+        const result = restorePrunedItems(state, ["aaa111"])
+        expect(result.restored).toEqual(["aaa111"])
+        expect(state.stats.strategyStats.decay.remove).toEqual({ count: 0, tokens: 0 })
+
+        decayToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual([])
+        expect(outputOf(messages)).toBe(readOutput(40))
+    })
+
+    it("shows an excerpted or digested output in full after a restore", () => {
+        const { state, messages, config } = setup(20)
+        decayToolOutputs(state, createMockLogger() as any, config, messages)
+
+        const result = restorePrunedItems(state, ["aaa111"])
+        expect(result.restored).toEqual(["aaa111"])
+        expect(result.tokensRestored).toBeGreaterThan(0)
+        expect(state.stats.strategyStats.decay.excerpt).toEqual({ count: 0, tokens: 0 })
+        expect(state.stats.strategyStats.decay.digest).toEqual({ count: 0, tokens: 0 })
+
+        const reloaded = [readMessage()]
+        decayToolOutputs(state, createMockLogger() as any, config, reloaded)
+
+        expect(outputOf(reloaded)).toBe(readOutput(40))
+    })
+
+    it("does nothing when disabled", () => {
+        const { state, messages, config } = setup(5)
+        config.strategies.decay.enabled = false
+
+        decayToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual([])
+    })
+})
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { WithParts } from "../../lib/state"
+import {
+    createMockConfig,
+    createMockLogger,
+    createMockState,
+    createToolMessage,
+    registerToolCall,
+} from "../fixtures/mock-client"
+
+vi.mock("../../lib/state/persistence", () => ({
+    getStoredOutputPath: (sessionId: string, callId: string) =>
+        `/store/outputs/${sessionId}/${callId}.txt`,
+    storeFullOutput: vi.fn(async () => {}),
+}))
+
+import { storeFullOutput } from "../../lib/state/persistence"
+import { windowOutput, windowToolOutputs } from "../../lib/strategies/output-window"
+import { restorePrunedItems } from "../../lib/strategies/restore"
+import { countTokens } from "../../lib/strategies/utils"
+
+function logOutput(lines: number): string {
+    return Array.from({ length: lines }, (_, i) => `[${i}] request handled in ${i % 97}ms`).join(
+        "\n",
+    )
+}
+
+function logMessage(): WithParts {
+    return createToolMessage("call_1", "bash", logOutput(2000), { command: "cat app.log" })
+}
+
+function setup(outputWindow: Record<string, unknown> = {}) {
+    const state = createMockState()
+    registerToolCall(state, "call_1", "aaa111", "bash", 1, { command: "cat app.log" })
+    const messages = [logMessage()]
+    const config = createMockConfig({
+        strategies: {
+            outputWindow: { enabled: true, maxOutputTokens: 500, tools: {}, ...outputWindow },
+        },
+    }) as any
+    return { state, messages, config }
+}
+
+function outputOf(messages: WithParts[]): string {
+    return (messages[0]!.parts[0] as any).state.output
+}
+
+describe("windowOutput", () => {
+    it("returns null for outputs within the budget", () => {
+        expect(windowOutput("short output", 100)).toBeNull()
+    })
+
+    it("keeps whole head and tail lines within the budget", () => {
+        const output = logOutput(2000)
+        const windowed = windowOutput(output, 300)!
+
+        expect(output.startsWith(`${windowed.head}\n`)).toBe(true)
+        expect(output.endsWith(`\n${windowed.tail}`)).toBe(true)
+        expect(countTokens(windowed.head) + countTokens(windowed.tail)).toBeLessThanOrEqual(300)
+        expect(countTokens(windowed.head)).toBeGreaterThan(countTokens(windowed.tail))
+        expect(windowed.elidedLines).toBe(
+            2000 - windowed.head.split("\n").length - windowed.tail.split("\n").length,
+        )
+    })
+
+    it("cuts inside a single line longer than the budget", () => {
+        const windowed = windowOutput("x".repeat(20000), 100)!
+
+        expect(windowed.head.length).toBeGreaterThan(0)
+        expect(windowed.tail.length).toBeGreaterThan(0)
+        expect(windowed.elidedLines).toBe(0)
+    })
+})
+
+describe("windowToolOutputs", () => {
+    beforeEach(() => {
+        vi.mocked(storeFullOutput).mockClear()
+    })
+
+    it("replaces oversized outputs with head, marker and tail", () => {
+        const { state, messages, config } = setup()
+
+        windowToolOutputs(state, createMockLogger() as any, config, messages)
+
+        const output = outputOf(messages)
+        expect(output.startsWith("[0] request handled")).toBe(true)
+        expect(output).toMatch(/\[\.\.\. \d+ lines \(~[\d.]+K? tokens\) elided · full output: /)
+        expect(output).toContain("/store/outputs/test-session/call_1.txt")
+        expect(output.endsWith("[1999] request handled in 59ms")).toBe(true)
+        expect(state.stats.strategyStats.outputWindow.count).toBe(1)
+        expect(state.stats.strategyStats.outputWindow.tokens).toBeGreaterThan(0)
+        expect(storeFullOutput).toHaveBeenCalledWith(
+            "test-session",
+            "call_1",
+            logOutput(2000),
+            expect.anything(),
+        )
+    })
+
+    it("stores and counts each output once across reloads", () => {
+        const { state, config } = setup()
+
+        for (let i = 0; i < 3; i++) {
+            windowToolOutputs(state, createMockLogger() as any, config, [logMessage()])
+        }
+
+        expect(state.stats.strategyStats.outputWindow.count).toBe(1)
+        expect(storeFullOutput).toHaveBeenCalledTimes(1)
+    })
+
+    it("applies per-tool limits, with 0 disabling the cap", () => {
+        const { state, messages, config } = setup({ tools: { bash: 0 } })
+
+        windowToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(outputOf(messages)).toBe(logOutput(2000))
+
+        config.strategies.outputWindow.tools = { bash: 100000 }
+        windowToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(outputOf(messages)).toBe(logOutput(2000))
+    })
+
+    it("skips protected tools and pinned calls", () => {
+        const { state, messages, config } = setup()
+        state.pinnedCallIds.add("call_1")
+
+        windowToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(outputOf(messages)).toBe(logOutput(2000))
+
+        state.pinnedCallIds.clear()
+        config.tools.settings.protectedTools = ["bash"]
+        windowToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(outputOf(messages)).toBe(logOutput(2000))
+    })
+
+    it("shows a restored output in full", () => {
+        const { state, messages, config } = setup()
+        windowToolOutputs(state, createMockLogger() as any, config, messages)
+
+        const result = restorePrunedItems(state, ["aaa111"])
+        expect(result.restored).toEqual(["aaa111"])
+        expect(result.tokensRestored).toBeGreaterThan(0)
+        expect(state.stats.strategyStats.outputWindow).toEqual({ count: 0, tokens: 0 })
+
+        const reloaded = [logMessage()]
+        windowToolOutputs(state, createMockLogger() as any, config, reloaded)
+
+        expect(outputOf(reloaded)).toBe(logOutput(2000))
+    })
+
+    it("does nothing when disabled", () => {
+        const { state, messages, config } = setup({ enabled: false })
+
+        windowToolOutputs(state, createMockLogger() as any, config, messages)
+
+        expect(outputOf(messages)).toBe(logOutput(2000))
+    })
+})
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import {
+    createMockClient,
+    createMockConfig,
+    createMockLogger,
+    createMockState,
+    registerMessagePart,
+    registerToolCall,
+} from "../fixtures/mock-client"
+
+vi.mock("@opencode-ai/plugin", () => {
+    const schema: any = {
+        string: vi.fn(() => schema),
+        array: vi.fn(() => schema),
+        enum: vi.fn(() => schema),
+        describe: vi.fn(() => schema),
+    }
+    const toolMock: any = vi.fn((spec) => spec)
+    toolMock.schema = schema
+    return { tool: toolMock }
+})
+
+vi.mock("../../lib/prompts", () => ({
+    loadPrompt: vi.fn((name: string) => `Mocked prompt: ${name}`),
+}))
+
+vi.mock("../../lib/state/persistence", () => ({
+    saveSessionState: vi.fn(async () => {}),
+}))
+
+import { createContextTool } from "../../lib/strategies/context"
+import { formatPinResult, setPinned } from "../../lib/strategies/pin"
+import { purgeErrors } from "../../lib/strategies/purge-errors"
+import { recordPrune } from "../../lib/state/utils"
+
+describe("setPinned", () => {
+    it("pins and unpins tool calls by hash", () => {
+        const state = createMockState()
+        registerToolCall(state, "call_1", "aaa111", "read")
+
+        const pinned = setPinned(state, ["aaa111"], true)
+        expect(pinned.changed).toEqual(["aaa111"])
+        expect(state.pinnedCallIds.has("call_1")).toBe(true)
+
+        expect(setPinned(state, ["aaa111"], true).unchanged).toEqual(["aaa111"])
+
+        const unpinned = setPinned(state, ["aaa111"], false)
+        expect(unpinned.changed).toEqual(["aaa111"])
+        expect(state.pinnedCallIds.size).toBe(0)
+    })
+
+    it("restores a pruned call before pinning it", () => {
+        const state = createMockState()
+        registerToolCall(state, "call_1", "aaa111", "read")
+        state.prune.toolIds.push("call_1")
+        recordPrune(state, ["call_1"], "autoSupersede.hash", 120)
+
+        const result = setPinned(state, ["aaa111"], true)
+
+        expect(result.restored).toEqual(["aaa111"])
+        expect(state.prune.toolIds).toEqual([])
+        expect(state.stats.strategyStats.autoSupersede.hash).toEqual({ count: 0, tokens: 0 })
+    })
+
+    it("reports message hashes and unknown hashes", () => {
+        const state = createMockState()
+        registerMessagePart(state, "msg_1", 0, "ccc333")
+
+        const result = setPinned(state, ["ccc333", "ffffff"], true)
+
+        expect(result.notTool).toEqual(["ccc333"])
+        expect(result.unknown).toEqual(["ffffff"])
+        expect(formatPinResult(result, true)).toBe(
+            "Nothing pinned\nOnly tool outputs can be pinned: ccc333\nHash(es) not found: ffffff",
+        )
+    })
+})
+
+describe("pinned calls", () => {
+    it("are skipped by purgeErrors", () => {
+        const state = createMockState({ currentTurn: 10 })
+        registerToolCall(state, "call_1", "aaa111", "bash", 1)
+        registerToolCall(state, "call_2", "bbb222", "bash", 1)
+        state.toolParameters.get("call_1")!.status = "error"
+        state.toolParameters.get("call_2")!.status = "error"
+        state.pinnedCallIds.add("call_1")
+
+        const config = createMockConfig({
+            strategies: { purgeErrors: { enabled: true, turns: 4, protectedTools: [] } },
+        }) as any
+        const messages = [
+            {
+                info: { id: "msg_1", role: "assistant", time: { created: 1 } },
+                parts: [
+                    { type: "tool", callID: "call_1", tool: "bash", state: { status: "error" } },
+                    { type: "tool", callID: "call_2", tool: "bash", state: { status: "error" } },
+                ],
+            },
+        ] as any
+
+        purgeErrors(state, createMockLogger() as any, config, messages)
+
+        expect(state.prune.toolIds).toEqual(["call_2"])
+    })
+})
+
+describe("context_prune pin action", () => {
+    let state: ReturnType<typeof createMockState>
+    let contextTool: ReturnType<typeof createContextTool>
+    const toolCtx = { sessionID: "test-session" } as any
+
+    beforeEach(() => {
+        state = createMockState()
+        contextTool = createContextTool({
+            client: createMockClient() as any,
+            state,
+            logger: createMockLogger() as any,
+            config: createMockConfig({ pruneNotification: "off" }) as any,
+            workingDirectory: "/test",
+        })
+    })
+
+    it("blocks discard of a pinned call until it is unpinned", async () => {
+        registerToolCall(state, "call_read_1", "abc123", "read")
+
+        const pinResult = await contextTool.execute(
+            { action: "pin", targets: [["abc123"]] },
+            toolCtx,
+        )
+        expect(pinResult).toBe("Pinned: abc123")
+
+        await expect(
+            contextTool.execute({ action: "discard", targets: [["abc123"]] }, toolCtx),
+        ).rejects.toThrow("abc123 is pinned")
+        expect(state.prune.toolIds).toEqual([])
+
+        await contextTool.execute({ action: "unpin", targets: [["abc123"]] }, toolCtx)
+        await contextTool.execute({ action: "discard", targets: [["abc123"]] }, toolCtx)
+        expect(state.prune.toolIds).toEqual(["call_read_1"])
+    })
+
+    it("validates hash format", async () => {
+        await expect(
+            contextTool.execute({ action: "pin", targets: [["nothex"]] }, toolCtx),
+        ).rejects.toThrow("Invalid hash format")
+    })
+})
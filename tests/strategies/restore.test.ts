@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import {
+    createMockClient,
+    createMockConfig,
+    createMockLogger,
+    createMockState,
+    registerMessagePart,
+    registerToolCall,
+} from "../fixtures/mock-client"
+
+vi.mock("@opencode-ai/plugin", () => {
+    const schema: any = {
+        string: vi.fn(() => schema),
+        array: vi.fn(() => schema),
+        enum: vi.fn(() => schema),
+        describe: vi.fn(() => schema),
+    }
+    const toolMock: any = vi.fn((spec) => spec)
+    toolMock.schema = schema
+    return { tool: toolMock }
+})
+
+vi.mock("../../lib/prompts", () => ({
+    loadPrompt: vi.fn((name: string) => `Mocked prompt: ${name}`),
+}))
+
+vi.mock("../../lib/state/persistence", () => ({
+    saveSessionState: vi.fn(async () => {}),
+}))
+
+import { createContextTool } from "../../lib/strategies/context"
+import { formatRestoreResult, restorePrunedItems } from "../../lib/strategies/restore"
+import { recordPrune } from "../../lib/state/utils"
+
+describe("restorePrunedItems", () => {
+    it("removes pruned IDs and rolls back their stats bucket", () => {
+        const state = createMockState()
+        registerToolCall(state, "call_1", "aaa111", "read")
+        registerToolCall(state, "call_2", "bbb222", "read")
+        state.prune.toolIds.push("call_1", "call_2")
+        recordPrune(state, ["call_1", "call_2"], "autoSupersede.file", 301)
+
+        const result = restorePrunedItems(state, ["aaa111"])
+
+        expect(result).toMatchObject({ restored: ["aaa111"], tokensRestored: 151 })
+        expect(state.prune.toolIds).toEqual(["call_2"])
+        expect(state.stats.strategyStats.autoSupersede.file).toEqual({ count: 1, tokens: 150 })
+        expect(state.stats.totalPruneTokens).toBe(150)
+        expect(state.stats.totalPruneMessages).toBe(1)
+        expect(state.pruneRecords.has("call_1")).toBe(false)
+        expect(state.discardHistory).toEqual([
+            expect.objectContaining({ hashes: ["aaa111"], tokensSaved: -151, reason: "restore" }),
+        ])
+    })
+
+    it("restores message parts and reports unpruned or unknown hashes", () => {
+        const state = createMockState()
+        registerMessagePart(state, "msg_1", 0, "ccc333")
+        registerToolCall(state, "call_1", "aaa111", "read")
+        state.prune.messagePartIds.push("msg_1:0")
+
+        const result = restorePrunedItems(state, ["ccc333", "aaa111", "ffffff"])
+
+        expect(result.restored).toEqual(["ccc333"])
+        expect(result.notPruned).toEqual(["aaa111"])
+        expect(result.unknown).toEqual(["ffffff"])
+        expect(state.prune.messagePartIds).toEqual([])
+        expect(formatRestoreResult(result)).toBe(
+            "Restored: ccc333\nNot pruned: aaa111\nHash(es) not found: ffffff",
+        )
+    })
+
+    it("does not record history when nothing was restored", () => {
+        const state = createMockState()
+
+        expect(restorePrunedItems(state, ["aaa111"]).unknown).toEqual(["aaa111"])
+        expect(state.discardHistory).toEqual([])
+    })
+})
+
+describe("context_prune restore action", () => {
+    let state: ReturnType<typeof createMockState>
+    let contextTool: ReturnType<typeof createContextTool>
+    const toolCtx = { sessionID: "test-session" } as any
+
+    beforeEach(() => {
+        state = createMockState()
+        contextTool = createContextTool({
+            client: createMockClient() as any,
+            state,
+            logger: createMockLogger() as any,
+            config: createMockConfig({ pruneNotification: "off" }) as any,
+            workingDirectory: "/test",
+        })
+    })
+
+    it("undoes a discard", async () => {
+        registerToolCall(state, "call_read_1", "abc123", "read")
+        await contextTool.execute({ action: "discard", targets: [["abc123"]] }, toolCtx)
+        expect(state.stats.strategyStats.manualDiscard.tool.count).toBe(1)
+
+        const result = await contextTool.execute(
+            { action: "restore", targets: [["abc123"]] },
+            toolCtx,
+        )
+
+        expect(result).toContain("Restored: abc123")
+        expect(state.prune.toolIds).toEqual([])
+        expect(state.stats.strategyStats.manualDiscard.tool.count).toBe(0)
+        expect(state.discardHistory.map((entry) => entry.reason)).toEqual(["manual", "restore"])
+    })
+
+    it("validates hash format", async () => {
+        await expect(
+            contextTool.execute({ action: "restore", targets: [["nothex"]] }, toolCtx),
+        ).rejects.toThrow("Invalid hash format")
+    })
+})
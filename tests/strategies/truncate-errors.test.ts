@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest"
+import { truncateErrorText, truncateOldErrors } from "../../lib/strategies/truncate-errors"
+import { restorePrunedItems } from "../../lib/strategies/restore"
+import type { WithParts } from "../../lib/state"
+import {
+    createMockConfig,
+    createMockLogger,
+    createMockState,
+    registerToolCall,
+} from "../fixtures/mock-client"
+
+const jsError = [
+    "TypeError: Cannot read properties of undefined (reading 'id')",
+    "    at Object.get (node_modules/orm/lib/model.js:88:12)",
+    "    at loadUser (/repo/src/users.ts:42:17)",
+    "    at handler (/repo/src/routes.ts:10:3)",
+    "    at node:internal/process/task_queues:95:5",
+].join("\n")
+
+const pythonError = [
+    "Traceback (most recent call last):",
+    '  File "/repo/app/main.py", line 12, in <module>',
+    "    run()",
+    '  File "/repo/app/jobs.py", line 30, in run',
+    "    parse(data)",
+    '  File "/usr/lib/python3/site-packages/yaml/parser.py", line 7, in parse',
+    "    raise ValueError",
+    "ValueError: bad input",
+].join("\n")
+
+function errorMessage(callId: string, error: string): WithParts {
+    return {
+        info: { id: `msg_${callId}`, role: "assistant", time: { created: 1 } },
+        parts: [
+            {
+                type: "tool",
+                callID: callId,
+                tool: "bash",
+                state: { status: "error", input: {}, error },
+            },
+        ],
+    } as any
+}
+
+function setup(turn: number) {
+    const state = createMockState({ currentTurn: 5 })
+    registerToolCall(state, "call_1", "aaa111", "bash", turn, { command: "npm test" })
+    state.toolParameters.get("call_1")!.status = "error"
+    const messages = [errorMessage("call_1", jsError)]
+    const config = createMockConfig({
+        strategies: { aggressivePruning: { truncateOldErrors: true, errorTruncateTurns: 2 } },
+    }) as any
+    return { state, messages, config }
+}
+
+const errorText = (messages: WithParts[]) => (messages[0]!.parts[0] as any).state.error as string
+
+describe("truncateErrorText", () => {
+    it("keeps the first line and the innermost project frame of a JS stack", () => {
+        expect(truncateErrorText(jsError)).toBe(
+            [
+                "TypeError: Cannot read properties of undefined (reading 'id')",
+                "    at loadUser (/repo/src/users.ts:42:17)",
+                "[... 3 lines of error output truncated]",
+            ].join("\n"),
+        )
+    })
+
+    it("takes the last project frame of a Python traceback", () => {
+        const text = truncateErrorText(pythonError)!
+        expect(text.split("\n")[1]).toBe('    File "/repo/app/jobs.py", line 30, in run')
+    })
+
+    it("leaves single-line errors alone", () => {
+        expect(truncateErrorText("Error: file not found")).toBeNull()
+    })
+})
+
+describe("truncateOldErrors", () => {
+    it("truncates errors older than the threshold and keeps the call", () => {
+        const { state, messages, config } = setup(3)
+
+        truncateOldErrors(state, createMockLogger() as any, config, messages)
+
+        expect(errorText(messages)).toContain("at loadUser")
+        expect(errorText(messages)).not.toContain("handler")
+        expect(state.prune.toolIds).toEqual([])
+    })
+
+    it("counts each truncated error once across reloads", () => {
+        const { state, config } = setup(3)
+
+        for (let i = 0; i < 3; i++) {
+            truncateOldErrors(state, createMockLogger() as any, config, [
+                errorMessage("call_1", jsError),
+            ])
+        }
+
+        expect(state.stats.strategyStats.truncatedErrors.count).toBe(1)
+        expect(state.stats.strategyStats.truncatedErrors.tokens).toBeGreaterThan(0)
+        expect(state.stats.totalPruneTokens).toBe(state.stats.strategyStats.truncatedErrors.tokens)
+    })
+
+    it("shows the full error again after a restore", () => {
+        const { state, messages, config } = setup(3)
+        truncateOldErrors(state, createMockLogger() as any, config, messages)
+
+        const result = restorePrunedItems(state, ["aaa111"])
+        expect(result.restored).toEqual(["aaa111"])
+        expect(state.stats.strategyStats.truncatedErrors).toEqual({ count: 0, tokens: 0 })
+
+        const reloaded = [errorMessage("call_1", jsError)]
+        truncateOldErrors(state, createMockLogger() as any, config, reloaded)
+
+        expect(errorText(reloaded)).toBe(jsError)
+    })
+
+    it("keeps recent and pinned errors verbatim", () => {
+        const recent = setup(4)
+        truncateOldErrors(recent.state, createMockLogger() as any, recent.config, recent.messages)
+        expect(errorText(recent.messages)).toBe(jsError)
+
+        const pinned = setup(1)
+        pinned.state.pinnedCallIds.add("call_1")
+        truncateOldErrors(pinned.state, createMockLogger() as any, pinned.config, pinned.messages)
+        expect(errorText(pinned.messages)).toBe(jsError)
+    })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest"
+import { pruneUserCodeBlocks, truncateCodeBlocks } from "../../lib/strategies/user-code-blocks"
+import type { WithParts } from "../../lib/state"
+import { createMockConfig, createMockLogger, createMockState } from "../fixtures/mock-client"
+
+const body = Array.from({ length: 30 }, (_, i) => `    at frame${i} (src/app.ts:${i + 1}:5)`)
+const codeBlock = ["```text", ...body, "```"].join("\n")
+
+function userMessage(id: string, text: string): WithParts {
+    return {
+        info: { id, role: "user", time: { created: 1 } },
+        parts: [{ type: "text", text }],
+    } as any
+}
+
+function assistantTurn(id: string): WithParts {
+    return {
+        info: { id, role: "assistant", time: { created: 1 } },
+        parts: [{ type: "step-start" }, { type: "text", text: "ok" }],
+    } as any
+}
+
+function setup(turns: number, aggressivePruning: Record<string, unknown> = {}) {
+    const messages = [
+        userMessage("msg_user", `Here is the trace:\n${codeBlock}\nWhat broke?`),
+        ...Array.from({ length: turns }, (_, i) => assistantTurn(`msg_${i}`)),
+    ]
+    const state = createMockState({ currentTurn: turns })
+    const config = createMockConfig({
+        strategies: {
+            aggressivePruning: {
+                pruneUserCodeBlocks: true,
+                userCodeBlockTurns: 5,
+                ...aggressivePruning,
+            },
+        },
+    }) as any
+    return { state, messages, config }
+}
+
+const userText = (messages: WithParts[]) => (messages[0]!.parts[0] as any).text as string
+
+describe("truncateCodeBlocks", () => {
+    it("keeps the head, tail and a hash marker of long blocks", () => {
+        const { text, blocks } = truncateCodeBlocks(`before\n${codeBlock}\nafter`)
+
+        expect(blocks).toHaveLength(1)
+        expect(text).toContain("before\n```text\n    at frame0")
+        expect(text).toContain(`[... 22 lines truncated · hash ${blocks[0]!.hash} ...]`)
+        expect(text).toContain("frame29 (src/app.ts:30:5)\n```\nafter")
+        expect(text).not.toContain("frame10 ")
+        expect(blocks[0]!.tokensSaved).toBeGreaterThan(0)
+    })
+
+    it("leaves short blocks and unfenced text alone", () => {
+        const input = "```ts\nconst a = 1\n```\nplain text"
+        expect(truncateCodeBlocks(input)).toEqual({ text: input, blocks: [] })
+    })
+})
+
+describe("pruneUserCodeBlocks", () => {
+    it("truncates code blocks in user messages older than the threshold", () => {
+        const { state, messages, config } = setup(5)
+
+        pruneUserCodeBlocks(state, createMockLogger() as any, config, messages)
+
+        expect(userText(messages)).toContain("lines truncated")
+        expect(userText(messages)).toContain("What broke?")
+        expect(state.stats.strategyStats.userCodeBlocks.count).toBe(1)
+        expect(state.stats.strategyStats.userCodeBlocks.tokens).toBeGreaterThan(0)
+    })
+
+    it("keeps recent code blocks verbatim", () => {
+        const { state, messages, config } = setup(4)
+
+        pruneUserCodeBlocks(state, createMockLogger() as any, config, messages)
+
+        expect(userText(messages)).toContain(codeBlock)
+        expect(state.stats.strategyStats.userCodeBlocks.count).toBe(0)
+    })
+
+    it("counts each block once across reloaded messages", () => {
+        const { state, config } = setup(6)
+
+        for (let i = 0; i < 3; i++) {
+            const { messages } = setup(6)
+            pruneUserCodeBlocks(state, createMockLogger() as any, config, messages)
+            expect(userText(messages)).toContain("lines truncated")
+        }
+
+        expect(state.stats.strategyStats.userCodeBlocks.count).toBe(1)
+    })
+
+    it("does nothing when disabled", () => {
+        const { state, messages, config } = setup(10, { pruneUserCodeBlocks: false })
+
+        pruneUserCodeBlocks(state, createMockLogger() as any, config, messages)
+
+        expect(userText(messages)).toContain(codeBlock)
+    })
+})
@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest"
+import { rankPruningCandidates } from "../../lib/strategies/utils"
+import type { WithParts } from "../../lib/state"
+import { createMockState, createToolMessage, registerToolCall } from "../fixtures/mock-client"
+
+function userMessage(text: string): WithParts {
+    return {
+        info: { id: "msg_user", role: "user", time: { created: 0 } },
+        parts: [{ type: "text", text }],
+    } as any
+}
+
+function lines(word: string, count: number): string {
+    return Array.from({ length: count }, (_, i) => `${word} ${i}`).join("\n")
+}
+
+function setup(goal?: string) {
+    const state = createMockState({ currentTurn: 5 })
+    registerToolCall(state, "call_parser", "aaa111", "read", 1, { filePath: "/repo/parser.ts" })
+    registerToolCall(state, "call_deploy", "bbb222", "read", 1, { filePath: "/repo/deploy.sh" })
+    registerToolCall(state, "call_small", "ccc333", "read", 1, { filePath: "/repo/small.ts" })
+    const messages = [
+        ...(goal ? [userMessage(goal)] : []),
+        createToolMessage("call_parser", "read", lines("parser", 300), {
+            filePath: "/repo/parser.ts",
+        }),
+        createToolMessage("call_deploy", "read", lines("deploy", 250), {
+            filePath: "/repo/deploy.sh",
+        }),
+        createToolMessage("call_small", "read", "ok", { filePath: "/repo/small.ts" }),
+    ]
+    return { state, messages }
+}
+
+describe("rankPruningCandidates", () => {
+    it("ranks by size without a goal and skips small outputs", () => {
+        const { state, messages } = setup()
+
+        const ranked = rankPruningCandidates(state, messages, [])
+
+        expect(ranked.map((c) => c.hash)).toEqual(["aaa111", "bbb222"])
+        expect(ranked.every((c) => c.relevance === undefined)).toBe(true)
+    })
+
+    it("ranks outputs relevant to the goal after larger off-topic ones", () => {
+        const { state, messages } = setup("Why does the parser fail?")
+
+        const ranked = rankPruningCandidates(state, messages, [])
+
+        expect(ranked.map((c) => c.hash)).toEqual(["bbb222", "aaa111"])
+        expect(ranked[1]!.relevance).toBeGreaterThan(0)
+    })
+
+    it("skips protected tools, pinned and restored calls", () => {
+        const { state, messages } = setup()
+        state.pinnedCallIds.add("call_parser")
+        state.expandedCallIds.add("call_deploy")
+
+        expect(rankPruningCandidates(state, messages, [])).toEqual([])
+        state.pinnedCallIds.clear()
+        expect(rankPruningCandidates(state, messages, ["read"])).toEqual([])
+    })
+})
@@ -4,6 +4,7 @@ import {
     stableStringify,
     normalizeParams,
     hashObject,
+    deepMerge,
 } from "../../lib/utils/object"
 
 describe("object utilities", () => {
@@ -111,4 +112,22 @@ describe("object utilities", () => {
             expect(hash.startsWith("read_")).toBe(true)
         })
     })
+
+    describe("deepMerge", () => {
+        it("merges nested objects recursively", () => {
+            const result = deepMerge({ a: { b: 1, c: 2 }, d: 3 }, { a: { c: 4 } })
+            expect(result).toEqual({ a: { b: 1, c: 4 }, d: 3 })
+        })
+
+        it("replaces arrays and skips undefined values", () => {
+            const result = deepMerge({ list: [1, 2], keep: "x" }, { list: [3], keep: undefined })
+            expect(result).toEqual({ list: [3], keep: "x" })
+        })
+
+        it("does not mutate its inputs", () => {
+            const base = { a: { b: 1 } }
+            deepMerge(base, { a: { b: 2 } })
+            expect(base.a.b).toBe(1)
+        })
+    })
 })